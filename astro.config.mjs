@@ -4,6 +4,7 @@ import mdx from '@astrojs/mdx';
 import sitemap from '@astrojs/sitemap';
 import cloudflare from '@astrojs/cloudflare';
 import node from '@astrojs/node';
+import { remarkDecisionMatrix } from './src/lib/tools/decision-remark';
 
 // ==============================================
 // SITE CONFIGURATION - Hybrid SSR with Cloudflare
@@ -21,7 +22,8 @@ export default defineConfig({
 		format: 'directory',
 	},
 	integrations: [
-		mdx(),
+		// ```decision-matrix blocks render as <DecisionMatrix /> (see decision-remark.ts)
+		mdx({ remarkPlugins: [remarkDecisionMatrix] }),
 		sitemap(),
 	],
 	// Server mode: SSR for all pages
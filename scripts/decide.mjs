@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+/**
+ * DECISION MATRIX CLI
+ *
+ * Run a decision matrix from the terminal with the same lib/tools code the
+ * site uses, so the CLI and the site never disagree:
+ *   npm run decide -- matrix.json
+ *   npm run decide -- matrix.csv --method topsis --top 3
+ *   npm run decide -- matrix.yaml --all --sensitivity
+ *   cat matrix.csv | npm run decide -- --json
+ *   npm run decide -- matrix.json --watch
+ *
+ * Input is a JSON document (as exported by the site), a CSV/TSV or Markdown
+ * table, or YAML with the same shape as the JSON document. The format comes
+ * from the file extension, then the content (or --format).
+ *
+ * lib/tools is TypeScript, so it's bundled with esbuild on startup.
+ */
+
+import { build } from 'esbuild';
+import yaml from 'js-yaml';
+import { readFileSync, watch } from 'fs';
+import { join, dirname, extname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const TOOLS_ENTRY = join(__dirname, '..', 'src', 'lib', 'tools', 'index.ts');
+
+const FORMATS = ['json', 'csv', 'markdown', 'yaml'];
+const EXTENSION_FORMATS = {
+  '.json': 'json',
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.txt': 'csv',
+  '.md': 'markdown',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+const USAGE = `Usage: npm run decide -- [file] [options]
+
+Reads the matrix from stdin when no file is given.
+
+Options:
+  -m, --method <name>   Analysis method (default: the matrix's own, or weighted)
+  -n, --top <N>         Only list the top N options
+  -a, --all             Run every method and compare them (showAllMethods)
+  -s, --sensitivity     Show how far each weight can move before the winner changes
+      --json            Print JSON instead of the text report
+  -f, --format <name>   Input format: ${FORMATS.join(', ')} (default: detect)
+  -w, --watch           Re-run whenever the file changes
+  -h, --help            Show this help`;
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+function readArgs() {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        method: { type: 'string', short: 'm' },
+        top: { type: 'string', short: 'n' },
+        all: { type: 'boolean', short: 'a' },
+        sensitivity: { type: 'boolean', short: 's' },
+        json: { type: 'boolean' },
+        format: { type: 'string', short: 'f' },
+        watch: { type: 'boolean', short: 'w' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    usageError(error.message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length > 1) {
+    usageError(`Expected one input file, got ${positionals.length}`);
+  }
+
+  const file = positionals[0] === '-' ? undefined : positionals[0];
+  if (values.watch && !file) {
+    usageError('--watch needs a file to watch');
+  }
+  if (values.format && !FORMATS.includes(values.format)) {
+    usageError(`Unknown format "${values.format}". Valid formats: ${FORMATS.join(', ')}`);
+  }
+
+  let topN;
+  if (values.top !== undefined) {
+    topN = Number(values.top);
+    if (!Number.isInteger(topN) || topN < 1) {
+      usageError(`--top must be a positive whole number, got "${values.top}"`);
+    }
+  }
+
+  return { file, topN, ...values };
+}
+
+function usageError(message) {
+  console.error(`Error: ${message}\n`);
+  console.error(USAGE);
+  process.exit(2);
+}
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+async function readInput(file) {
+  if (file) return readFileSync(file, 'utf8');
+
+  if (process.stdin.isTTY) {
+    usageError('No input: pass a file or pipe a matrix to stdin');
+  }
+  const chunks = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/** Pick the input format: --format, then the file extension, then the content */
+function detectFormat(tools, text, file, format) {
+  if (format) return format;
+  const fromExtension = file && EXTENSION_FORMATS[extname(file).toLowerCase()];
+  if (fromExtension) return fromExtension;
+  if (/^\s*(version|title|matrix)\s*:/m.test(text)) return 'yaml';
+  return tools.detectDecisionFormat(text);
+}
+
+/** Parse the matrix, checking YAML with the same rules as JSON documents */
+function parseInput(tools, text, format) {
+  if (format !== 'yaml') {
+    return tools.parseDecisionMatrix(text, format);
+  }
+
+  let data;
+  try {
+    data = yaml.load(text);
+  } catch (error) {
+    const { line, column } = error.mark ?? {};
+    throw new tools.DecisionParseError(`Invalid YAML: ${error.reason ?? error.message}`, {
+      row: line === undefined ? undefined : line + 1,
+      column: column === undefined ? undefined : column + 1,
+    });
+  }
+  return tools.parseDecisionJson(JSON.stringify(data)).matrix;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+function report(tools, matrix, args) {
+  const input = {
+    ...matrix,
+    ...(args.method && { method: args.method }),
+    ...(args.topN && { topN: args.topN }),
+  };
+
+  const result = tools.makeDecision(input);
+  const all = args.all ? tools.makeDecision({ ...input, showAllMethods: true }) : null;
+  const comparison = args.all ? tools.compareMethods(input) : null;
+  const sensitivity = args.sensitivity ? tools.analyzeSensitivity(input) : null;
+
+  if (args.json) {
+    const output = {
+      result: result.toObject(),
+      ...(all && {
+        results: Object.fromEntries(Object.entries(all).map(([method, r]) => [method, r.toObject()])),
+        comparison,
+      }),
+      ...(sensitivity && { sensitivity }),
+    };
+    return JSON.stringify(output, null, 2);
+  }
+
+  const sections = [result.toString(), result.comparisonTable()];
+  if (comparison) sections.push(tools.formatMethodComparison(comparison));
+  if (sensitivity) sections.push(tools.formatSensitivity(sensitivity));
+  return sections.join('\n\n');
+}
+
+/** Read, parse and report once; returns false if anything went wrong */
+async function run(tools, args) {
+  const label = args.file ?? 'stdin';
+  try {
+    const text = await readInput(args.file);
+    const format = detectFormat(tools, text, args.file, args.format);
+    const matrix = parseInput(tools, text, format);
+    console.log(report(tools, matrix, args));
+    return true;
+  } catch (error) {
+    console.error(`❌ ${label}: ${error.message}`);
+    return false;
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function loadTools() {
+  const bundle = await build({
+    entryPoints: [TOOLS_ENTRY],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  const code = bundle.outputFiles[0].text;
+  return import(`data:text/javascript;base64,${Buffer.from(code).toString('base64')}`);
+}
+
+async function main() {
+  const args = readArgs();
+  const tools = await loadTools();
+
+  if (args.method && !tools.ALL_METHODS.includes(args.method)) {
+    usageError(`Unknown method "${args.method}". Valid methods: ${tools.ALL_METHODS.join(', ')}`);
+  }
+
+  const ok = await run(tools, args);
+  if (!args.watch) {
+    process.exit(ok ? 0 : 1);
+  }
+
+  console.error(`\n👀 Watching ${args.file} (Ctrl+C to stop)`);
+  let timer;
+  watch(args.file, () => {
+    // Editors often write a file in several steps; wait for them to finish
+    clearTimeout(timer);
+    timer = setTimeout(async () => {
+      console.clear();
+      await run(tools, args);
+      console.error(`\n👀 Watching ${args.file} (Ctrl+C to stop)`);
+    }, 100);
+  });
+}
+
+main();
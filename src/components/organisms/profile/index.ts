@@ -6,3 +6,4 @@ export { default as ProfileHeader } from './ProfileHeader.astro';
 export { default as SystemBulletin } from './SystemBulletin.astro';
 export { default as ActivityFeed } from './ActivityFeed.astro';
 export { default as ProfileForm } from './ProfileForm.astro';
+export { default as MyDecisions } from './MyDecisions.astro';
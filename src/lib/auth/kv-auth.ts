@@ -25,6 +25,7 @@
  * │    session:{token} → Session data with TTL                     │
  * │    confirm:{token} → Email confirmation with TTL               │
  * │    reset:{token}   → Password reset with TTL                   │
+ * │    decision:{userId}:{id} → Saved matrix (decision-store.ts)   │
  * │                                                                 │
  * └─────────────────────────────────────────────────────────────────┘
  * ```
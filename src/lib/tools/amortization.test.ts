@@ -0,0 +1,135 @@
+/**
+ * Amortization Tests
+ * ------------------
+ * Tests for fixed-rate loan schedules, extra principal, biweekly plans,
+ * savings and CSV export.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { amortize, loanPayment, toAmortizationCsv, type AmortizationInput } from './amortization';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// The rent-vs-buy page's $400,000 home with 20% down
+const mortgage: AmortizationInput = { principal: 320000, annualRate: 0.065, years: 30 };
+
+// =============================================================================
+// loanPayment() / amortize() Tests
+// =============================================================================
+
+describe('loanPayment()', () => {
+  it('matches the standard level payment formula', () => {
+    const i = 0.065 / 12;
+    expect(loanPayment(320000, 0.065, 360)).toBeCloseTo((320000 * i) / (1 - Math.pow(1 + i, -360)), 8);
+    expect(loanPayment(320000, 0.065, 360)).toBeCloseTo(2022.62, 2);
+    expect(loanPayment(12000, 0, 24)).toBe(500);
+    expect(loanPayment(0, 0.05, 360)).toBe(0);
+  });
+});
+
+describe('amortize()', () => {
+  describe('Schedule', () => {
+    it('pays the loan off over the term', () => {
+      const loan = amortize(mortgage);
+      expect(loan.paymentCount).toBe(360);
+      expect(loan.months).toBe(360);
+      expect(loan.schedule[0]).toMatchObject({ number: 1, year: 1, interest: expect.closeTo(320000 * 0.065 / 12, 8) });
+      expect(loan.schedule.at(-1)!.balance).toBe(0);
+      expect(loan.totalPaid).toBeCloseTo(loan.payment * 360, 2);
+      expect(loan.interestSaved).toBe(0);
+      expect(loan.monthsSaved).toBe(0);
+    });
+
+    it('splits every payment into principal and interest', () => {
+      const loan = amortize(mortgage);
+      let balance = mortgage.principal;
+      for (const row of loan.schedule) {
+        expect(row.principal + row.interest).toBeCloseTo(row.payment, 8);
+        balance -= row.principal + row.extra;
+        expect(row.balance).toBeCloseTo(Math.max(0, balance), 4);
+      }
+    });
+
+    it('totals each year', () => {
+      const loan = amortize(mortgage);
+      expect(loan.years).toHaveLength(30);
+      const [first] = loan.years;
+      expect(first.payments).toBe(12);
+      expect(first.interest).toBeCloseTo(loan.schedule.slice(0, 12).reduce((sum, row) => sum + row.interest, 0), 8);
+      expect(first.balance).toBe(loan.schedule[11].balance);
+      expect(first.totalPaid).toBeCloseTo(loan.payment * 12, 8);
+    });
+  });
+
+  describe('Extra payments', () => {
+    it('applies a one-time extra with the chosen payment', () => {
+      const loan = amortize({ ...mortgage, extraPayments: [{ amount: 10000, start: 60 }] });
+      expect(loan.schedule[59].extra).toBe(10000);
+      expect(loan.schedule.filter(row => row.extra > 0)).toHaveLength(1);
+      expect(loan.totalExtra).toBe(10000);
+      expect(loan.monthsSaved).toBeGreaterThan(0);
+      expect(loan.interestSaved).toBeGreaterThan(10000);
+    });
+
+    it('repeats recurring extras until their end', () => {
+      const loan = amortize({ ...mortgage, extraPayments: [{ amount: 1000, start: 12, every: 12, end: 48 }] });
+      expect(loan.schedule.filter(row => row.extra > 0).map(row => row.number)).toEqual([12, 24, 36, 48]);
+    });
+
+    it('pays off early and reports what it saves', () => {
+      const plain = amortize(mortgage);
+      const loan = amortize({ ...mortgage, extraPayments: [{ amount: 200, every: 1 }] });
+      expect(loan.months).toBeLessThan(300);
+      expect(loan.monthsSaved).toBe(360 - loan.months);
+      expect(loan.interestSaved).toBeCloseTo(plain.totalInterest - loan.totalInterest, 6);
+      expect(loan.schedule.at(-1)!.balance).toBe(0);
+      // The extra never overpays the loan
+      expect(loan.totalExtra + loan.schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(320000, 4);
+    });
+  });
+
+  describe('Biweekly', () => {
+    it('pays half the monthly payment 26 times a year', () => {
+      const loan = amortize({ ...mortgage, frequency: 'biweekly' });
+      expect(loan.payment).toBeCloseTo(loanPayment(320000, 0.065, 360) / 2, 8);
+      expect(loan.schedule[0].interest).toBeCloseTo(320000 * 0.065 / 26, 8);
+      expect(loan.years[0].payments).toBe(26);
+      // One extra monthly payment a year takes years off a 30-year loan
+      expect(loan.months).toBeLessThan(300);
+      expect(loan.monthsSaved).toBe(360 - loan.months);
+      expect(loan.interestSaved).toBeGreaterThan(80000);
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects impossible loans and extras', () => {
+      expect(() => amortize({ ...mortgage, principal: 0 })).toThrow(/principal must be more than 0/);
+      expect(() => amortize({ ...mortgage, annualRate: -0.01 })).toThrow(/annualRate can't be negative/);
+      expect(() => amortize({ ...mortgage, years: 0 })).toThrow(/whole number from 1 to 50/);
+      expect(() => amortize({ ...mortgage, frequency: 'weekly' as 'monthly' })).toThrow(/Unknown payment frequency: weekly/);
+      expect(() => amortize({ ...mortgage, frequency: 'constructor' as 'monthly' })).toThrow(/Unknown payment frequency: constructor/);
+      expect(() => amortize({ ...mortgage, extraPayments: [{ amount: -5 }] })).toThrow(/zero or more/);
+      expect(() => amortize({ ...mortgage, extraPayments: [{ amount: 5, every: 0 }] })).toThrow(/'every' must be/);
+      expect(() => amortize({ ...mortgage, extraPayments: [{ amount: 5, start: 10, end: 5 }] })).toThrow(/end must be/);
+    });
+  });
+});
+
+// =============================================================================
+// toAmortizationCsv() Tests
+// =============================================================================
+
+describe('toAmortizationCsv()', () => {
+  it('writes a header and one row per payment, to the cent', () => {
+    const csv = toAmortizationCsv(amortize({ principal: 1000, annualRate: 0.12, years: 1 }));
+    const lines = csv.split('\n');
+    expect(lines).toHaveLength(13);
+    expect(lines[0]).toBe('Payment,Year,Scheduled Payment,Principal,Interest,Extra Principal,Balance');
+    expect(lines[1]).toBe('1,1,88.85,78.85,10.00,0.00,921.15');
+    expect(lines[12]).toMatch(/^12,1,.*,0\.00$/);
+  });
+});
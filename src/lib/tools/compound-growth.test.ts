@@ -0,0 +1,185 @@
+/**
+ * Compound Growth Tests
+ * ---------------------
+ * Tests for compound growth schedules, contributions, fees and start-age
+ * comparisons.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCompoundGrowth,
+  compareStartAges,
+  effectiveAnnualRate,
+  solveContribution,
+} from './compound-growth';
+
+// =============================================================================
+// calculateCompoundGrowth() Tests
+// =============================================================================
+
+describe('calculateCompoundGrowth()', () => {
+  describe('Lump sums', () => {
+    it('matches A = P(1 + r/n)^(nt)', () => {
+      const result = calculateCompoundGrowth({ principal: 10000, annualRate: 0.07, years: 30 });
+      expect(result.finalBalance).toBeCloseTo(10000 * Math.pow(1 + 0.07 / 12, 360), 6);
+      expect(Math.round(result.finalBalance)).toBe(81165); // The page's worked example
+    });
+
+    it('compounds at any frequency, including continuously', () => {
+      const grow = (compounding: Parameters<typeof effectiveAnnualRate>[1]) =>
+        calculateCompoundGrowth({ principal: 1000, annualRate: 0.05, years: 10, compounding }).finalBalance;
+      expect(grow('annually')).toBeCloseTo(1000 * Math.pow(1.05, 10), 6);
+      expect(grow('quarterly')).toBeCloseTo(1000 * Math.pow(1 + 0.05 / 4, 40), 6);
+      expect(grow('daily')).toBeCloseTo(1000 * Math.pow(1 + 0.05 / 365, 3650), 6);
+      expect(grow('continuous')).toBeCloseTo(1000 * Math.exp(0.5), 6);
+      expect(grow('continuous')).toBeGreaterThan(grow('daily'));
+    });
+
+    it('reports the effective annual rate', () => {
+      expect(effectiveAnnualRate(0.07, 'monthly')).toBeCloseTo(0.07229, 5);
+      expect(effectiveAnnualRate(0.07, 'annually')).toBeCloseTo(0.07, 10);
+      expect(effectiveAnnualRate(0.07, 'continuous')).toBeCloseTo(Math.exp(0.07) - 1, 10);
+    });
+  });
+
+  describe('Contributions', () => {
+    // Future value of an ordinary annuity: PMT × ((1 + i)^N − 1) / i
+    const i = 0.07 / 12;
+    const annuity = 200 * (Math.pow(1 + i, 480) - 1) / i;
+
+    it('adds contributions at the end of each period', () => {
+      const result = calculateCompoundGrowth({ annualRate: 0.07, years: 40, contribution: 200 });
+      expect(result.finalBalance).toBeCloseTo(annuity, 4);
+      expect(result.totalContributions).toBeCloseTo(96000, 6);
+      expect(result.totalInterest).toBeCloseTo(annuity - 96000, 4);
+    });
+
+    it('gives start-of-period contributions one more period of growth', () => {
+      const result = calculateCompoundGrowth({
+        annualRate: 0.07,
+        years: 40,
+        contribution: 200,
+        contributionTiming: 'start',
+      });
+      expect(result.finalBalance).toBeCloseTo(annuity * (1 + i), 4);
+    });
+
+    it('raises contributions each year with escalation', () => {
+      const result = calculateCompoundGrowth({
+        annualRate: 0,
+        years: 3,
+        contribution: 1000,
+        contributionFrequency: 'annually',
+        contributionGrowth: 0.1,
+      });
+      expect(result.schedule.map(y => y.contributions)).toEqual([1000, 1100, expect.closeTo(1210, 8)]);
+      expect(result.finalBalance).toBeCloseTo(3310, 8);
+    });
+
+    it('handles contributions that differ from the compounding frequency', () => {
+      const result = calculateCompoundGrowth({
+        annualRate: 0.06,
+        years: 1,
+        compounding: 'annually',
+        contribution: 500,
+        contributionFrequency: 'semiannually',
+        contributionTiming: 'start',
+      });
+      // The first deposit grows a full year, the second half a year
+      expect(result.finalBalance).toBeCloseTo(500 * 1.06 + 500 * Math.sqrt(1.06), 8);
+    });
+  });
+
+  describe('Fees', () => {
+    it('takes the expense ratio from the balance each year', () => {
+      const result = calculateCompoundGrowth({
+        principal: 10000,
+        annualRate: 0.07,
+        years: 30,
+        compounding: 'annually',
+        expenseRatio: 0.01,
+      });
+      expect(result.finalBalance).toBeCloseTo(10000 * Math.pow(1.07 * 0.99, 30), 6);
+      expect(result.netAnnualRate).toBeCloseTo(1.07 * 0.99 - 1, 10);
+      expect(result.totalInterest - result.totalFees).toBeCloseTo(result.finalBalance - 10000, 6);
+    });
+  });
+
+  describe('Schedule', () => {
+    it('has one row per year that adds up', () => {
+      const result = calculateCompoundGrowth({
+        principal: 5000,
+        annualRate: 0.05,
+        years: 10,
+        contribution: 100,
+        expenseRatio: 0.002,
+      });
+      expect(result.schedule).toHaveLength(10);
+      for (const year of result.schedule) {
+        expect(year.endBalance).toBeCloseTo(year.startBalance + year.contributions + year.interest - year.fees, 6);
+      }
+      expect(result.schedule[1].startBalance).toBe(result.schedule[0].endBalance);
+      expect(result.schedule[9].endBalance).toBe(result.finalBalance);
+      expect(result.schedule[9].totalFees).toBe(result.totalFees);
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects impossible inputs', () => {
+      expect(() => calculateCompoundGrowth({ annualRate: 0.07, years: 0 })).toThrow(/whole number from 1/);
+      expect(() => calculateCompoundGrowth({ annualRate: 0.07, years: 2.5 })).toThrow(/whole number/);
+      expect(() => calculateCompoundGrowth({ annualRate: NaN, years: 5 })).toThrow(/annualRate must be a number/);
+      expect(() => calculateCompoundGrowth({ annualRate: 0.07, years: 5, principal: -1 })).toThrow(/negative/);
+      expect(() => calculateCompoundGrowth({ annualRate: 0.07, years: 5, expenseRatio: 1.5 })).toThrow(/expenseRatio/);
+      expect(() =>
+        calculateCompoundGrowth({ annualRate: 0.07, years: 5, compounding: 'hourly' as 'daily' })
+      ).toThrow(/Unknown compounding frequency: hourly/);
+      expect(() =>
+        calculateCompoundGrowth({ annualRate: 0.07, years: 5, compounding: 'toString' as 'daily' })
+      ).toThrow(/Unknown compounding frequency: toString/);
+      expect(() =>
+        calculateCompoundGrowth({ annualRate: 0.07, years: 5, contributionFrequency: 'constructor' as 'monthly' })
+      ).toThrow(/Unknown contribution frequency: constructor/);
+    });
+  });
+});
+
+// =============================================================================
+// solveContribution() / compareStartAges() Tests
+// =============================================================================
+
+describe('solveContribution()', () => {
+  it('finds the contribution that reaches a target', () => {
+    const input = { principal: 1000, annualRate: 0.07, years: 20, contributionGrowth: 0.02, expenseRatio: 0.001 };
+    const needed = solveContribution(input, 250000);
+    expect(calculateCompoundGrowth({ ...input, contribution: needed }).finalBalance).toBeCloseTo(250000, 4);
+    expect(solveContribution({ ...input, principal: 1e6 }, 250000)).toBe(0);
+  });
+});
+
+describe('compareStartAges()', () => {
+  const comparison = compareStartAges({ annualRate: 0.07, contribution: 200 }, [35, 25], 65);
+
+  it('runs each start age to the same end age, earliest first', () => {
+    expect(comparison.scenarios.map(s => [s.startAge, s.years])).toEqual([[25, 40], [35, 30]]);
+    expect(comparison.scenarios[0].result.totalContributions).toBeCloseTo(96000, 6);
+    expect(comparison.scenarios[1].result.totalContributions).toBeCloseTo(72000, 6);
+  });
+
+  it('prices the wait and the catch-up contribution', () => {
+    const [early, late] = comparison.scenarios;
+    expect(comparison.costOfWaiting).toBeCloseTo(early.result.finalBalance - late.result.finalBalance, 6);
+    expect(comparison.costOfWaiting).toBeGreaterThan(250000);
+    expect(early.catchUpContribution).toBe(200);
+    // Ten years late takes roughly double the monthly amount at 7%
+    expect(late.catchUpContribution).toBeGreaterThan(400);
+    expect(late.catchUpContribution).toBeLessThan(450);
+  });
+
+  it('rejects start ages at or after the end age', () => {
+    expect(() => compareStartAges({ annualRate: 0.07 }, [65], 65)).toThrow(/below the end age/);
+    expect(() => compareStartAges({ annualRate: 0.07 }, [], 65)).toThrow(/at least one/);
+  });
+});
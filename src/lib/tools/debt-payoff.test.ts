@@ -0,0 +1,184 @@
+/**
+ * Debt Payoff Tests
+ * -----------------
+ * Tests for month-by-month debt payoff under each strategy, promo rates
+ * and the strategy decision matrix.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeDecision, DecisionResult } from './decision-matrix';
+import {
+  compareDebtStrategies,
+  debtDecisionInput,
+  simulateDebtPayoff,
+  type DebtPayoffInput,
+} from './debt-payoff';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// The small store card isn't the highest rate, so avalanche and snowball
+// go after different debts first.
+const mixed: DebtPayoffInput = {
+  debts: [
+    { name: 'Store Card', balance: 900, apr: 0.2, minimumPayment: 35 },
+    { name: 'Credit Card', balance: 6500, apr: 0.24, minimumPayment: 160 },
+    { name: 'Car Loan', balance: 7500, apr: 0.07, minimumPayment: 230 },
+    { name: 'Student Loan', balance: 14000, apr: 0.055, minimumPayment: 160 },
+  ],
+  monthlyBudget: 900,
+  startMonth: '2025-01',
+};
+
+// =============================================================================
+// simulateDebtPayoff() Tests
+// =============================================================================
+
+describe('simulateDebtPayoff()', () => {
+  describe('One debt', () => {
+    it('matches a loan paid at a fixed amount', () => {
+      const result = simulateDebtPayoff(
+        { debts: [{ name: 'Loan', balance: 1200, apr: 0.12, minimumPayment: 100 }], monthlyBudget: 100, startMonth: '2025-01' },
+        'avalanche'
+      );
+      // 1% a month: the first month's interest is $12
+      expect(result.schedule[0].interest).toBeCloseTo(12, 10);
+      expect(result.schedule[0].payments[0].balance).toBeCloseTo(1112, 10);
+      expect(result.months).toBe(13);
+      expect(result.debtFreeDate).toBe('2026-01');
+      expect(result.totalPaid).toBeCloseTo(1200 + result.totalInterest, 6);
+      expect(result.schedule.at(-1)!.remainingBalance).toBe(0);
+    });
+
+    it('charges nothing at 0% and pays off exactly', () => {
+      const result = simulateDebtPayoff(
+        { debts: [{ name: 'Bill', balance: 1000, apr: 0, minimumPayment: 50 }], monthlyBudget: 250, startMonth: '2025-11' },
+        'snowball'
+      );
+      expect(result.totalInterest).toBe(0);
+      expect(result.months).toBe(4);
+      expect(result.debts[0]).toMatchObject({ payoffMonth: 4, payoffDate: '2026-02', totalPaid: 1000 });
+    });
+  });
+
+  describe('Strategies', () => {
+    it('avalanche targets the highest rate, snowball the smallest balance', () => {
+      expect(simulateDebtPayoff(mixed, 'avalanche').schedule[0].target).toBe('Credit Card');
+      expect(simulateDebtPayoff(mixed, 'snowball').schedule[0].target).toBe('Store Card');
+      expect(simulateDebtPayoff(mixed, 'highest_payment').schedule[0].target).toBe('Car Loan');
+    });
+
+    it('pays debts off in the strategy order', () => {
+      expect(simulateDebtPayoff(mixed, 'snowball').payoffOrder).toEqual([
+        'Store Card', 'Credit Card', 'Car Loan', 'Student Loan',
+      ]);
+      expect(simulateDebtPayoff(mixed, 'highest_payment').payoffOrder[0]).toBe('Car Loan');
+    });
+
+    it('makes avalanche the cheapest and snowball the quickest first win', () => {
+      const [avalanche, snowball, highestPayment] = compareDebtStrategies(mixed);
+      expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+      expect(avalanche.totalInterest).toBeLessThan(highestPayment.totalInterest);
+      expect(snowball.firstPayoffMonth).toBeLessThan(avalanche.firstPayoffMonth);
+    });
+
+    it('follows a custom order, with unlisted debts after it', () => {
+      const result = simulateDebtPayoff({ ...mixed, customOrder: ['Student Loan', 'Store Card'] }, 'custom');
+      expect(result.schedule[0].target).toBe('Student Loan');
+      expect(result.payoffOrder).toEqual(['Store Card', 'Student Loan', 'Car Loan', 'Credit Card']);
+      expect(compareDebtStrategies(mixed).map(r => r.strategy)).not.toContain('custom');
+      expect(compareDebtStrategies({ ...mixed, customOrder: ['Car Loan'] }).map(r => r.strategy)).toContain('custom');
+    });
+
+    it('rolls freed-up minimums into the next debt', () => {
+      const result = simulateDebtPayoff(mixed, 'snowball');
+      const month = result.schedule.find(m => m.month === result.debts[0].payoffMonth + 1)!;
+      expect(month.paid).toBeCloseTo(900, 6);
+      expect(month.payments.map(p => p.name)).not.toContain('Store Card');
+    });
+  });
+
+  describe('Promo rates', () => {
+    it('charges the promo rate until it ends', () => {
+      const result = simulateDebtPayoff(
+        {
+          debts: [{ name: 'Transfer', balance: 3000, apr: 0.24, minimumPayment: 100, promoApr: 0, promoEnds: '2025-04' }],
+          monthlyBudget: 100,
+          startMonth: '2025-01',
+        },
+        'avalanche'
+      );
+      expect(result.schedule.slice(0, 3).map(m => m.interest)).toEqual([0, 0, 0]);
+      expect(result.schedule[3].payments[0].apr).toBe(0.24);
+      expect(result.schedule[3].interest).toBeCloseTo(2700 * 0.02, 10);
+    });
+
+    it('lets avalanche move a debt up the order when its promo ends', () => {
+      const result = simulateDebtPayoff(
+        {
+          debts: [
+            { name: 'Card', balance: 5000, apr: 0.18, minimumPayment: 100 },
+            { name: 'Transfer', balance: 5000, apr: 0.26, minimumPayment: 100, promoApr: 0, promoEnds: '2025-07' },
+          ],
+          monthlyBudget: 600,
+          startMonth: '2025-01',
+        },
+        'avalanche'
+      );
+      expect(result.schedule[0].target).toBe('Card');
+      expect(result.schedule[6].target).toBe('Transfer');
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects budgets below the minimums and plans that never finish', () => {
+      expect(() => simulateDebtPayoff({ ...mixed, monthlyBudget: 500 }, 'avalanche'))
+        .toThrow(/doesn't cover the minimum payments \(585\.00\)/);
+      expect(() =>
+        simulateDebtPayoff(
+          { debts: [{ name: 'Card', balance: 10000, apr: 0.3, minimumPayment: 100 }], monthlyBudget: 100 },
+          'avalanche'
+        )
+      ).toThrow(/aren't paid off after 50 years/);
+    });
+
+    it('rejects bad debts, months and orders', () => {
+      const debt = mixed.debts[0];
+      expect(() => simulateDebtPayoff({ ...mixed, debts: [] }, 'avalanche')).toThrow(/at least one debt/);
+      expect(() => simulateDebtPayoff({ ...mixed, debts: [debt, debt] }, 'avalanche')).toThrow(/names must be unique/);
+      expect(() => simulateDebtPayoff({ ...mixed, debts: [{ ...debt, apr: -0.1 }] }, 'avalanche')).toThrow(/APR of zero or more/);
+      expect(() => simulateDebtPayoff({ ...mixed, startMonth: '2025-13' }, 'avalanche')).toThrow(/month like '2025-01'/);
+      expect(() => simulateDebtPayoff({ ...mixed, customOrder: ['Boat'] }, 'custom')).toThrow(/unknown debt: 'Boat'/);
+    });
+  });
+});
+
+// =============================================================================
+// debtDecisionInput() Tests
+// =============================================================================
+
+describe('debtDecisionInput()', () => {
+  it('scores each strategy for makeDecision', () => {
+    const comparison = compareDebtStrategies(mixed);
+    const input = debtDecisionInput(comparison);
+    expect(input.options).toEqual([
+      'Avalanche (highest rate first)',
+      'Snowball (smallest balance first)',
+      'Highest payment first',
+    ]);
+    expect(input.scores['Avalanche (highest rate first)'].slice(1, 3)).toEqual([comparison[0].months, comparison[0].firstPayoffMonth]);
+
+    // Snowball costs $47 more interest here but clears a debt in month 3, not 17
+    const result = makeDecision(input) as DecisionResult;
+    expect(result.scoresBreakdown['Avalanche (highest rate first)']['Total Interest (normalized)']).toBe(100);
+    expect(result.winner).toBe('Snowball (smallest balance first)');
+  });
+
+  it('picks avalanche when only interest matters', () => {
+    const input = debtDecisionInput(compareDebtStrategies(mixed), [1, 0, 0, 0]);
+    expect((makeDecision(input) as DecisionResult).winner).toBe('Avalanche (highest rate first)');
+  });
+});
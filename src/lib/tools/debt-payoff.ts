@@ -0,0 +1,403 @@
+/**
+ * Debt Payoff
+ * -----------
+ * Month-by-month payoff simulation for several debts and one monthly
+ * budget: every debt gets its minimum, and whatever is left goes to the
+ * debt the strategy picks (avalanche, snowball, highest payment first or
+ * a custom order). Paid-off debts free their minimums for the next one.
+ *
+ * Usage:
+ *   import { compareDebtStrategies, debtDecisionInput } from '../lib/tools/debt-payoff';
+ *
+ *   const input = {
+ *     debts: [
+ *       { name: 'Credit Card', balance: 2000, apr: 0.24, minimumPayment: 50 },
+ *       { name: 'Transfer Card', balance: 4000, apr: 0.22, minimumPayment: 80, promoApr: 0, promoEnds: '2026-06' },
+ *       { name: 'Car Loan', balance: 8000, apr: 0.06, minimumPayment: 200 },
+ *     ],
+ *     monthlyBudget: 600,
+ *     startMonth: '2025-01',
+ *   };
+ *
+ *   const avalanche = simulateDebtPayoff(input, 'avalanche');
+ *   avalanche.totalInterest;        // Interest over the whole payoff
+ *   avalanche.debts[0].payoffDate;  // '2025-09'
+ *   avalanche.schedule[0];          // { month: 1, date: '2025-01', payments: [...], ... }
+ *
+ *   const comparison = compareDebtStrategies(input);
+ *   makeDecision(debtDecisionInput(comparison));  // Interest vs. quick wins tradeoff
+ *
+ * Interest accrues monthly at APR / 12 before each payment. A promo rate
+ * applies until `promoEnds` (the first month at the regular APR).
+ */
+
+import { debug } from '../debug';
+import type { DecisionMatrixInput } from './decision-matrix';
+
+const MODULE = 'tools';
+
+// Types
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'highest_payment' | 'custom';
+
+export interface Debt {
+  /** Unique name, used in custom orders and results */
+  name: string;
+  balance: number;
+  /** Annual rate as a decimal, e.g. 0.24 for 24% */
+  apr: number;
+  /** Required payment each month (or the balance, when less) */
+  minimumPayment: number;
+  /** Introductory rate as a decimal, e.g. 0 for a 0% balance transfer */
+  promoApr?: number;
+  /** Month the promo rate ends, 'YYYY-MM' (the first month at `apr`) */
+  promoEnds?: string;
+}
+
+export interface DebtPayoffInput {
+  debts: Debt[];
+  /** Total paid toward all debts each month; must cover the minimums */
+  monthlyBudget: number;
+  /** First payment month, 'YYYY-MM' (default: the current month) */
+  startMonth?: string;
+  /** Debt names in payoff order for the 'custom' strategy; unlisted debts follow in input order */
+  customOrder?: string[];
+}
+
+export interface DebtPayment {
+  name: string;
+  /** Rate charged this month */
+  apr: number;
+  interest: number;
+  payment: number;
+  /** Balance after the payment */
+  balance: number;
+}
+
+export interface DebtPayoffMonth {
+  /** 1 for the first month */
+  month: number;
+  /** 'YYYY-MM' */
+  date: string;
+  /** One per debt still owed at the start of the month, in input order */
+  payments: DebtPayment[];
+  interest: number;
+  paid: number;
+  /** Total owed after this month's payments */
+  remainingBalance: number;
+  /** Debt the extra money went to first, if any */
+  target: string | null;
+}
+
+export interface DebtPayoffSummary {
+  name: string;
+  /** Month the debt was paid off, counting from 1 (0 if nothing was owed) */
+  payoffMonth: number;
+  /** 'YYYY-MM' */
+  payoffDate: string;
+  interestPaid: number;
+  totalPaid: number;
+}
+
+export interface DebtPayoffResult {
+  strategy: PayoffStrategy;
+  /** Months until every debt is paid */
+  months: number;
+  /** 'YYYY-MM' of the last payment */
+  debtFreeDate: string;
+  totalInterest: number;
+  totalPaid: number;
+  /** Month the first debt disappears: the first "win" */
+  firstPayoffMonth: number;
+  /** Debt names in the order they were paid off */
+  payoffOrder: string[];
+  /** Per debt, in input order */
+  debts: DebtPayoffSummary[];
+  schedule: DebtPayoffMonth[];
+}
+
+/** The built-in strategies, in the order they're compared */
+export const DEBT_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball', 'highest_payment', 'custom'];
+
+/** Display names for each strategy */
+export const DEBT_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+  avalanche: 'Avalanche (highest rate first)',
+  snowball: 'Snowball (smallest balance first)',
+  highest_payment: 'Highest payment first',
+  custom: 'Custom order',
+};
+
+/** Longest simulation, in months, before a plan is declared unpayable */
+export const MAX_PAYOFF_MONTHS = 600;
+
+/** Balances below half a cent count as paid */
+const PAID = 0.005;
+
+// ============================================================================
+// MONTHS
+// ============================================================================
+
+function parseMonth(value: string, field: string): number {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  const month = match ? Number(match[2]) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`${field} must be a month like '2025-01', got '${value}'`);
+  }
+  return Number(match[1]) * 12 + month - 1;
+}
+
+function formatMonth(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+function currentMonth(): string {
+  const now = new Date();
+  return formatMonth(now.getFullYear() * 12 + now.getMonth());
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validate(input: DebtPayoffInput): void {
+  const { debts, monthlyBudget, customOrder = [] } = input;
+
+  if (!Array.isArray(debts) || debts.length === 0) {
+    throw new Error('Add at least one debt');
+  }
+
+  const names = new Set<string>();
+  for (const debt of debts) {
+    const name = debt.name?.trim();
+    if (!name) throw new Error('Every debt needs a name');
+    if (names.has(name)) throw new Error(`Two debts are named '${name}'; names must be unique`);
+    names.add(name);
+
+    const amounts: Array<[string, number]> = [
+      ['balance', debt.balance],
+      ['APR', debt.apr],
+      ['minimum payment', debt.minimumPayment],
+    ];
+    if (debt.promoApr !== undefined) amounts.push(['promo APR', debt.promoApr]);
+    for (const [field, value] of amounts) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`'${name}' needs a ${field} of zero or more, got ${value}`);
+      }
+    }
+    if (debt.promoEnds !== undefined) parseMonth(debt.promoEnds, `'${name}' promo end`);
+  }
+
+  if (typeof monthlyBudget !== 'number' || !Number.isFinite(monthlyBudget)) {
+    throw new Error(`monthlyBudget must be a number, got ${monthlyBudget}`);
+  }
+  const minimums = debts.reduce((sum, d) => sum + Math.min(d.minimumPayment, d.balance), 0);
+  if (monthlyBudget < minimums - PAID) {
+    throw new Error(
+      `A monthly budget of ${monthlyBudget.toFixed(2)} doesn't cover the minimum payments (${minimums.toFixed(2)})`
+    );
+  }
+
+  for (const name of customOrder) {
+    if (!names.has(name)) throw new Error(`Custom order names an unknown debt: '${name}'`);
+  }
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/** Debts still owed, in the order the strategy pays extra toward them */
+function priority(
+  owed: Array<{ debt: Debt; index: number; balance: number; apr: number }>,
+  strategy: PayoffStrategy,
+  customOrder: string[]
+): typeof owed {
+  const byInput = (a: { index: number }, b: { index: number }) => a.index - b.index;
+  const sorted = [...owed];
+
+  switch (strategy) {
+    case 'avalanche':
+      return sorted.sort((a, b) => b.apr - a.apr || a.balance - b.balance || byInput(a, b));
+    case 'snowball':
+      return sorted.sort((a, b) => a.balance - b.balance || b.apr - a.apr || byInput(a, b));
+    case 'highest_payment':
+      return sorted.sort((a, b) =>
+        b.debt.minimumPayment - a.debt.minimumPayment || a.balance - b.balance || byInput(a, b)
+      );
+    case 'custom': {
+      const rank = (name: string) => {
+        const position = customOrder.indexOf(name);
+        return position === -1 ? customOrder.length : position;
+      };
+      return sorted.sort((a, b) => rank(a.debt.name.trim()) - rank(b.debt.name.trim()) || byInput(a, b));
+    }
+    default:
+      throw new Error(`Unknown payoff strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Pay down every debt month by month under one strategy, returning the
+ * totals, each debt's payoff date and the full schedule.
+ */
+export function simulateDebtPayoff(input: DebtPayoffInput, strategy: PayoffStrategy): DebtPayoffResult {
+  validate(input);
+  const { debts, monthlyBudget, customOrder = [] } = input;
+  const start = parseMonth(input.startMonth ?? currentMonth(), 'startMonth');
+  const promoEnds = debts.map(d => (d.promoEnds === undefined ? -Infinity : parseMonth(d.promoEnds, 'promoEnds')));
+
+  const balances = debts.map(d => d.balance);
+  const summaries: DebtPayoffSummary[] = debts.map(d => ({
+    name: d.name.trim(),
+    payoffMonth: 0,
+    payoffDate: formatMonth(start),
+    interestPaid: 0,
+    totalPaid: 0,
+  }));
+  const payoffOrder: string[] = [];
+  const schedule: DebtPayoffMonth[] = [];
+
+  // Debts that start at zero are already paid
+  balances.forEach((balance, i) => {
+    if (balance <= PAID) payoffOrder.push(summaries[i].name);
+  });
+
+  for (let month = 1; balances.some(b => b > PAID); month++) {
+    if (month > MAX_PAYOFF_MONTHS) {
+      throw new Error(
+        `These debts aren't paid off after ${MAX_PAYOFF_MONTHS / 12} years; ` +
+        'the budget barely covers the interest. Raise the monthly budget.'
+      );
+    }
+
+    const date = start + month - 1;
+    const owed = debts
+      .map((debt, index) => ({
+        debt,
+        index,
+        balance: balances[index],
+        apr: debt.promoApr !== undefined && date < promoEnds[index] ? debt.promoApr : debt.apr,
+      }))
+      .filter(entry => entry.balance > PAID);
+
+    const payments = new Map<number, DebtPayment>();
+    let available = monthlyBudget;
+
+    // Interest, then minimums
+    for (const entry of owed) {
+      const interest = entry.balance * (entry.apr / 12);
+      balances[entry.index] += interest;
+      const payment = Math.min(entry.debt.minimumPayment, balances[entry.index], available);
+      balances[entry.index] -= payment;
+      available -= payment;
+      payments.set(entry.index, { name: summaries[entry.index].name, apr: entry.apr, interest, payment, balance: 0 });
+    }
+
+    // Extra money cascades down the strategy's order
+    const order = priority(owed.map(e => ({ ...e, balance: balances[e.index] })), strategy, customOrder);
+    let target: string | null = null;
+    for (const entry of order) {
+      if (available <= PAID) break;
+      if (balances[entry.index] <= PAID) continue;
+      const extra = Math.min(available, balances[entry.index]);
+      balances[entry.index] -= extra;
+      available -= extra;
+      payments.get(entry.index)!.payment += extra;
+      target ??= summaries[entry.index].name;
+    }
+
+    let interest = 0;
+    let paid = 0;
+    for (const [index, payment] of payments) {
+      if (balances[index] <= PAID) {
+        balances[index] = 0;
+        if (summaries[index].payoffMonth === 0) {
+          summaries[index].payoffMonth = month;
+          summaries[index].payoffDate = formatMonth(date);
+          payoffOrder.push(summaries[index].name);
+        }
+      }
+      payment.balance = balances[index];
+      summaries[index].interestPaid += payment.interest;
+      summaries[index].totalPaid += payment.payment;
+      interest += payment.interest;
+      paid += payment.payment;
+    }
+
+    schedule.push({
+      month,
+      date: formatMonth(date),
+      payments: [...payments.entries()].sort(([a], [b]) => a - b).map(([, p]) => p),
+      interest,
+      paid,
+      remainingBalance: balances.reduce((sum, b) => sum + b, 0),
+      target,
+    });
+  }
+
+  const months = schedule.length;
+  const payoffMonths = summaries.map(s => s.payoffMonth).filter(m => m > 0);
+  const result: DebtPayoffResult = {
+    strategy,
+    months,
+    debtFreeDate: formatMonth(start + Math.max(0, months - 1)),
+    totalInterest: summaries.reduce((sum, s) => sum + s.interestPaid, 0),
+    totalPaid: summaries.reduce((sum, s) => sum + s.totalPaid, 0),
+    firstPayoffMonth: payoffMonths.length > 0 ? Math.min(...payoffMonths) : 0,
+    payoffOrder,
+    debts: summaries,
+    schedule,
+  };
+
+  debug.log(MODULE, `Debt payoff (${strategy})`, {
+    debts: debts.length,
+    months,
+    totalInterest: result.totalInterest.toFixed(2),
+    payoffOrder,
+  });
+  return result;
+}
+
+/**
+ * Simulate several strategies on the same debts. 'custom' is included by
+ * default only when the input has a customOrder.
+ */
+export function compareDebtStrategies(
+  input: DebtPayoffInput,
+  strategies: PayoffStrategy[] = DEBT_STRATEGIES.filter(s => s !== 'custom' || (input.customOrder?.length ?? 0) > 0)
+): DebtPayoffResult[] {
+  return strategies.map(strategy => simulateDebtPayoff(input, strategy));
+}
+
+// ============================================================================
+// DECISION MATRIX
+// ============================================================================
+
+/**
+ * Decision matrix input for choosing between simulated strategies: total
+ * interest and time to debt-free against how soon (and how often) a debt
+ * disappears. Pass `weights` for the four criteria to change the tradeoff.
+ */
+export function debtDecisionInput(
+  results: DebtPayoffResult[],
+  weights: [number, number, number, number] = [0.4, 0.2, 0.25, 0.15]
+): DecisionMatrixInput {
+  const label = (r: DebtPayoffResult) => DEBT_STRATEGY_LABELS[r.strategy];
+
+  return {
+    options: results.map(label),
+    criteria: ['Total Interest', 'Months to Debt-Free', 'Months to First Payoff', 'Debts Paid in Year One'],
+    scores: Object.fromEntries(results.map(r => [
+      label(r),
+      [
+        Math.round(r.totalInterest * 100) / 100,
+        r.months,
+        r.firstPayoffMonth,
+        r.debts.filter(d => d.payoffMonth > 0 && d.payoffMonth <= 12).length,
+      ],
+    ])),
+    weights,
+    directions: ['minimize', 'minimize', 'minimize', 'maximize'],
+    // Dollars and months on one scale would let interest drown out the rest
+    method: 'normalized',
+  };
+}
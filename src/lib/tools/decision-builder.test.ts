@@ -0,0 +1,159 @@
+/**
+ * Decision Builder State Tests
+ * ----------------------------
+ * Tests for the editable state behind the interactive matrix builder.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeDecision, DecisionResult, type DecisionMatrixInput } from './decision-matrix';
+import {
+  BUILDER_LIMITS,
+  addBuilderCriterion,
+  addBuilderOption,
+  builderStateFromInput,
+  builderStateToInput,
+  describeBuilderProblem,
+  parseBuilderState,
+  removeBuilderCriterion,
+  removeBuilderOption,
+} from './decision-builder';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const investment: DecisionMatrixInput = {
+  options: ['401(k)', 'Roth IRA'],
+  criteria: ['Tax', 'Flexibility'],
+  scores: { '401(k)': [9, 3], 'Roth IRA': [{ min: 6, likely: 8, max: 9 }, 6] },
+  weights: [0.6, 0.3],
+};
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+describe('builderStateFromInput()', () => {
+  it('turns weights into slider positions relative to the heaviest', () => {
+    const state = builderStateFromInput(investment);
+    expect(state.weights).toEqual([100, 50]);
+    expect(state.directions).toEqual(['maximize', 'maximize']);
+    expect(state.method).toBe('weighted');
+  });
+
+  it('takes uncertain scores at their point estimates', () => {
+    const state = builderStateFromInput(investment);
+    expect(state.scores[1][0]).toBe(8);
+  });
+
+  it('round-trips to input with the same ranking', () => {
+    const state = builderStateFromInput({ ...investment, scores: { '401(k)': [9, 3], 'Roth IRA': [8, 6] } });
+    const original = makeDecision({ ...investment, scores: { '401(k)': [9, 3], 'Roth IRA': [8, 6] } }) as DecisionResult;
+    const rebuilt = makeDecision(builderStateToInput(state)) as DecisionResult;
+    expect(rebuilt.rankings.map(([opt]) => opt)).toEqual(original.rankings.map(([opt]) => opt));
+    expect(rebuilt.totalScore['401(k)']).toBeCloseTo(original.totalScore['401(k)']);
+  });
+
+  it('trims names and keeps missing scores', () => {
+    const state = builderStateFromInput(investment);
+    state.options[0] = ' 401(k) ';
+    state.scores[0][1] = null;
+    const input = builderStateToInput(state);
+    expect(input.options[0]).toBe('401(k)');
+    expect(input.scores['401(k)']).toEqual([9, null]);
+  });
+});
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+describe('adding and removing rows and columns', () => {
+  it('adds an option with a default score on every criterion', () => {
+    const state = addBuilderOption(builderStateFromInput(investment));
+    expect(state.options).toEqual(['401(k)', 'Roth IRA', 'Option 3']);
+    expect(state.scores[2]).toEqual([5, 5]);
+  });
+
+  it('adds a criterion to every option', () => {
+    const state = addBuilderCriterion(builderStateFromInput(investment));
+    expect(state.criteria).toEqual(['Tax', 'Flexibility', 'Criterion 3']);
+    expect(state.weights).toHaveLength(3);
+    expect(state.directions[2]).toBe('maximize');
+    expect(state.scores.every(row => row.length === 3)).toBe(true);
+  });
+
+  it('removes an option or criterion with its scores', () => {
+    const state = builderStateFromInput(investment);
+    expect(removeBuilderOption(state, 0).scores).toEqual([[state.scores[1][0], 6]]);
+    expect(removeBuilderCriterion(state, 0)).toMatchObject({
+      criteria: ['Flexibility'],
+      weights: [50],
+      scores: [[3], [6]],
+    });
+  });
+
+  it('keeps at least one option and criterion', () => {
+    let state = removeBuilderOption(builderStateFromInput(investment), 0);
+    expect(removeBuilderOption(state, 0)).toBe(state);
+    state = removeBuilderCriterion(state, 0);
+    expect(removeBuilderCriterion(state, 0)).toBe(state);
+  });
+
+  it('stops at the size limit', () => {
+    let state = builderStateFromInput(investment);
+    for (let i = 0; i < 20; i++) state = addBuilderOption(state);
+    expect(state.options).toHaveLength(BUILDER_LIMITS.options);
+  });
+});
+
+// =============================================================================
+// Problems
+// =============================================================================
+
+describe('describeBuilderProblem()', () => {
+  it('returns null for a valid state', () => {
+    expect(describeBuilderProblem(builderStateFromInput(investment))).toBeNull();
+  });
+
+  it('explains blank and duplicate names', () => {
+    const state = builderStateFromInput(investment);
+    expect(describeBuilderProblem({ ...state, options: ['401(k)', '  '] })).toBe('Option 2 needs a name.');
+    expect(describeBuilderProblem({ ...state, criteria: ['Tax', 'Tax '] })).toBe(
+      'Two criteria are called "Tax" — give each a different name.'
+    );
+  });
+
+  it('explains zero weights and unscored rows or columns', () => {
+    const state = builderStateFromInput(investment);
+    expect(describeBuilderProblem({ ...state, weights: [0, 0] })).toBe('Give at least one criterion some weight.');
+    expect(describeBuilderProblem({ ...state, scores: [[9, 3], [null, null]] })).toBe(
+      'Score "Roth IRA" on at least one criterion.'
+    );
+    expect(describeBuilderProblem({ ...state, scores: [[9, null], [8, null]] })).toBe(
+      'Score at least one option on "Flexibility".'
+    );
+  });
+});
+
+// =============================================================================
+// Saved State
+// =============================================================================
+
+describe('parseBuilderState()', () => {
+  it('reads back saved state', () => {
+    const state = builderStateFromInput(investment);
+    expect(parseBuilderState(JSON.stringify(state))).toEqual(state);
+  });
+
+  it('ignores missing, corrupt and mismatched saves', () => {
+    const state = builderStateFromInput(investment);
+    expect(parseBuilderState(null)).toBeNull();
+    expect(parseBuilderState('{not json')).toBeNull();
+    expect(parseBuilderState(JSON.stringify({ ...state, version: 0 }))).toBeNull();
+    expect(parseBuilderState(JSON.stringify({ ...state, weights: [1] }))).toBeNull();
+    expect(parseBuilderState(JSON.stringify({ ...state, method: 'vibes' }))).toBeNull();
+  });
+});
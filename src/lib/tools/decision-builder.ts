@@ -0,0 +1,246 @@
+/**
+ * Decision Matrix Builder State
+ * -----------------------------
+ * Editable state behind the interactive DecisionMatrixBuilder component:
+ * options, criteria, weight sliders and a score grid that readers change
+ * one cell at a time. Kept separate from the DOM so it can be tested and
+ * saved to localStorage as plain JSON.
+ *
+ * Usage:
+ *   import { builderStateFromInput, builderStateToInput } from '../lib/tools/decision-builder';
+ *
+ *   let state = builderStateFromInput(investmentInput);
+ *   state = addBuilderOption(state);
+ *   const problem = describeBuilderProblem(state);   // null when ready to analyze
+ *   const result = makeDecision(builderStateToInput(state));
+ */
+
+import { debug } from '../debug';
+import {
+  toPointScores,
+  type AnalysisMethod,
+  type CriterionDirection,
+  type DecisionMatrixInput,
+} from './decision-matrix';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export interface BuilderState {
+  /** Bumped when the saved shape changes, so stale saves are ignored */
+  version: number;
+  options: string[];
+  criteria: string[];
+  /** Slider positions (0-100) per criterion; normalized before analysis */
+  weights: number[];
+  directions: CriterionDirection[];
+  /** Scores indexed [option][criterion]; null means not scored yet */
+  scores: Array<Array<number | null>>;
+  method: AnalysisMethod;
+}
+
+/** Current saved-state version. */
+export const BUILDER_STATE_VERSION = 1;
+
+/** Most options and criteria the builder will add. */
+export const BUILDER_LIMITS = { options: 8, criteria: 8 } as const;
+
+/** Analysis methods offered by the builder, with their display names. */
+export const BUILDER_METHODS: Array<{ method: AnalysisMethod; label: string }> = [
+  { method: 'weighted', label: 'Weighted score' },
+  { method: 'normalized', label: 'Normalized (0-100)' },
+  { method: 'ranking', label: 'Rank per criterion' },
+  { method: 'best_worst', label: 'Best-worst scaling' },
+  { method: 'topsis', label: 'TOPSIS (closeness to ideal)' },
+  { method: 'promethee', label: 'PROMETHEE II (outranking)' },
+  { method: 'maximin', label: 'Maximin (best worst case)' },
+  { method: 'minimax_regret', label: 'Minimax regret' },
+];
+
+/** Score given to cells of a newly added option or criterion. */
+const DEFAULT_SCORE = 5;
+/** Slider position of a newly added criterion. */
+const DEFAULT_WEIGHT = 50;
+
+/**
+ * Build editable state from a decision matrix input. Uncertain scores are
+ * taken at their point estimates and weights become slider positions.
+ */
+export function builderStateFromInput(input: DecisionMatrixInput): BuilderState {
+  const pointScores = toPointScores(input.scores);
+  const weights = input.weights ?? input.criteria.map(() => 1);
+  const maxWeight = Math.max(...weights, 0);
+
+  return {
+    version: BUILDER_STATE_VERSION,
+    options: [...input.options],
+    criteria: [...input.criteria],
+    weights: weights.map(w => (maxWeight > 0 ? Math.round((w / maxWeight) * 100) : DEFAULT_WEIGHT)),
+    directions: input.directions
+      ? [...input.directions]
+      : input.criteria.map(() => 'maximize' as CriterionDirection),
+    scores: input.options.map(option => [...pointScores[option]]),
+    method: input.method ?? 'weighted',
+  };
+}
+
+/**
+ * Convert builder state to makeDecision() input. Call describeBuilderProblem()
+ * first; this does not check the state.
+ */
+export function builderStateToInput(state: BuilderState): DecisionMatrixInput {
+  return {
+    options: state.options.map(name => name.trim()),
+    criteria: state.criteria.map(name => name.trim()),
+    scores: Object.fromEntries(state.options.map((name, i) => [name.trim(), [...state.scores[i]]])),
+    weights: [...state.weights],
+    directions: [...state.directions],
+    method: state.method,
+  };
+}
+
+/**
+ * Explain what stops the state from being analyzed, or null if nothing does.
+ * Messages are written for the reader, not the developer.
+ */
+export function describeBuilderProblem(state: BuilderState): string | null {
+  const blankOption = state.options.findIndex(name => name.trim() === '');
+  if (blankOption !== -1) return `Option ${blankOption + 1} needs a name.`;
+
+  const blankCriterion = state.criteria.findIndex(name => name.trim() === '');
+  if (blankCriterion !== -1) return `Criterion ${blankCriterion + 1} needs a name.`;
+
+  const duplicateOption = findDuplicate(state.options);
+  if (duplicateOption) return `Two options are called "${duplicateOption}" — give each a different name.`;
+
+  const duplicateCriterion = findDuplicate(state.criteria);
+  if (duplicateCriterion) return `Two criteria are called "${duplicateCriterion}" — give each a different name.`;
+
+  if (state.weights.every(w => w <= 0)) return 'Give at least one criterion some weight.';
+
+  const unscoredOption = state.options.findIndex((_, i) => state.scores[i].every(s => s === null));
+  if (unscoredOption !== -1) return `Score "${state.options[unscoredOption].trim()}" on at least one criterion.`;
+
+  const unscoredCriterion = state.criteria.findIndex((_, j) => state.scores.every(row => row[j] === null));
+  if (unscoredCriterion !== -1) return `Score at least one option on "${state.criteria[unscoredCriterion].trim()}".`;
+
+  return null;
+}
+
+/**
+ * Read saved state, or null if it is missing, corrupt or from an older version.
+ */
+export function parseBuilderState(json: string | null): BuilderState | null {
+  if (!json) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    debug.warn(MODULE, 'Ignoring unreadable saved builder state');
+    return null;
+  }
+
+  if (!isBuilderState(data)) {
+    debug.warn(MODULE, 'Ignoring saved builder state with an unexpected shape');
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Add an option scored DEFAULT_SCORE on every criterion. Returns the state
+ * unchanged at the BUILDER_LIMITS maximum.
+ */
+export function addBuilderOption(state: BuilderState): BuilderState {
+  if (state.options.length >= BUILDER_LIMITS.options) return state;
+  return {
+    ...state,
+    options: [...state.options, nextName('Option', state.options)],
+    scores: [...state.scores, state.criteria.map(() => DEFAULT_SCORE)],
+  };
+}
+
+/**
+ * Remove an option. The last remaining option can't be removed.
+ */
+export function removeBuilderOption(state: BuilderState, index: number): BuilderState {
+  if (state.options.length <= 1) return state;
+  return {
+    ...state,
+    options: state.options.filter((_, i) => i !== index),
+    scores: state.scores.filter((_, i) => i !== index),
+  };
+}
+
+/**
+ * Add a criterion at DEFAULT_WEIGHT with every option scored DEFAULT_SCORE.
+ * Returns the state unchanged at the BUILDER_LIMITS maximum.
+ */
+export function addBuilderCriterion(state: BuilderState): BuilderState {
+  if (state.criteria.length >= BUILDER_LIMITS.criteria) return state;
+  return {
+    ...state,
+    criteria: [...state.criteria, nextName('Criterion', state.criteria)],
+    weights: [...state.weights, DEFAULT_WEIGHT],
+    directions: [...state.directions, 'maximize'],
+    scores: state.scores.map(row => [...row, DEFAULT_SCORE]),
+  };
+}
+
+/**
+ * Remove a criterion. The last remaining criterion can't be removed.
+ */
+export function removeBuilderCriterion(state: BuilderState, index: number): BuilderState {
+  if (state.criteria.length <= 1) return state;
+  const keep = (_: unknown, i: number) => i !== index;
+  return {
+    ...state,
+    criteria: state.criteria.filter(keep),
+    weights: state.weights.filter(keep),
+    directions: state.directions.filter(keep),
+    scores: state.scores.map(row => row.filter(keep)),
+  };
+}
+
+function findDuplicate(names: string[]): string | null {
+  const seen = new Set<string>();
+  for (const name of names.map(n => n.trim())) {
+    if (seen.has(name)) return name;
+    seen.add(name);
+  }
+  return null;
+}
+
+/** First "Option N" not already taken */
+function nextName(prefix: string, taken: string[]): string {
+  let n = taken.length + 1;
+  while (taken.includes(`${prefix} ${n}`)) n++;
+  return `${prefix} ${n}`;
+}
+
+function isBuilderState(data: unknown): data is BuilderState {
+  if (typeof data !== 'object' || data === null) return false;
+  const state = data as Partial<BuilderState>;
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+  const isCell = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+  if (state.version !== BUILDER_STATE_VERSION) return false;
+  if (!isStringArray(state.options) || state.options.length === 0) return false;
+  if (!isStringArray(state.criteria) || state.criteria.length === 0) return false;
+
+  const columns = state.criteria.length;
+  return (
+    Array.isArray(state.weights) &&
+    state.weights.length === columns &&
+    state.weights.every(w => typeof w === 'number' && w >= 0) &&
+    Array.isArray(state.directions) &&
+    state.directions.length === columns &&
+    state.directions.every(d => d === 'maximize' || d === 'minimize') &&
+    Array.isArray(state.scores) &&
+    state.scores.length === state.options.length &&
+    state.scores.every(row => Array.isArray(row) && row.length === columns && row.every(isCell)) &&
+    BUILDER_METHODS.some(m => m.method === state.method)
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Decision Chart Tests
+ * --------------------
+ * Tests for the SVG radar, contribution and rank stability charts.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeDecision, DecisionResult, type DecisionMatrixInput } from './decision-matrix';
+import { analyzeSensitivity } from './decision-sensitivity';
+import {
+  decisionChartData,
+  renderContributionChart,
+  renderRadarChart,
+  renderRankStabilityChart,
+} from './decision-charts';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const housing: DecisionMatrixInput = {
+  options: ['Buy', 'Rent', 'Rent & <Invest>'],
+  criteria: ['Monthly Cost', 'Flexibility', 'Equity'],
+  scores: {
+    Buy: [2400, 3, 9],
+    Rent: [1800, 9, 1],
+    'Rent & <Invest>': [2000, 8, 6],
+  },
+  weights: [0.5, 0.2, 0.3],
+  directions: ['minimize', 'maximize', 'maximize'],
+};
+
+const decide = (input: DecisionMatrixInput) => makeDecision(input) as DecisionResult;
+
+/** Every aria-labelledby id must point at an element in the SVG */
+function expectLabelled(svg: string) {
+  expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+  expect(svg).toContain('role="img"');
+  const [, ids] = svg.match(/aria-labelledby="([^"]+)"/)!;
+  for (const id of ids.split(' ')) {
+    expect(svg).toContain(`id="${id}"`);
+  }
+  expect(svg).toMatch(/<title id="[^"]+">[^<]+<\/title><desc id="[^"]+">[^<]+<\/desc>/);
+}
+
+// =============================================================================
+// decisionChartData() Tests
+// =============================================================================
+
+describe('decisionChartData()', () => {
+  it('scores each criterion from worst (0) to best (1), respecting direction', () => {
+    const data = decisionChartData(decide(housing));
+    const rent = data.profile.Rent;
+    expect(rent[0]).toBe(1); // cheapest
+    expect(rent[1]).toBe(1); // most flexible
+    expect(rent[2]).toBe(0); // least equity
+    expect(data.profile.Buy[0]).toBe(0);
+  });
+
+  it('splits 100 points by the analysis weights', () => {
+    const data = decisionChartData(decide(housing));
+    expect(data.weights).toEqual([0.5, 0.2, 0.3]);
+    expect(data.contributions.Rent.reduce((a, b) => a + b, 0)).toBeCloseTo(70);
+    expect(data.options).toEqual(decide(housing).rankings.map(([o]) => o));
+  });
+
+  it('reads rank breakdowns the right way up', () => {
+    const data = decisionChartData(decide({ ...housing, method: 'ranking' }));
+    expect(data.profile.Rent).toEqual([1, 1, 0]);
+  });
+
+  it('keeps criterion names that contain parentheses', () => {
+    const criteria = ['Monthly Cost (USD)', 'Flexibility', 'Equity (10 yr)'];
+    for (const method of ['weighted', 'ranking'] as const) {
+      const data = decisionChartData(decide({ ...housing, criteria, method }));
+      expect(data.criteria).toEqual(criteria);
+      expect(data.weights).toEqual([0.5, 0.2, 0.3]);
+      expect(data.profile.Rent).toEqual([1, 1, 0]);
+    }
+  });
+});
+
+// =============================================================================
+// Chart Tests
+// =============================================================================
+
+describe('renderRadarChart()', () => {
+  it('draws one axis per criterion with an accessible description', () => {
+    const svg = renderRadarChart(decide(housing), 'Rent');
+    expectLabelled(svg);
+    expect(svg.match(/<line /g)).toHaveLength(3);
+    expect(svg).toContain('Monthly Cost: 100%, Flexibility: 100%, Equity: 0%');
+  });
+
+  it('escapes option names and rejects unknown options', () => {
+    const result = decide(housing);
+    expect(renderRadarChart(result, 'Rent & <Invest>')).toContain('Rent &amp; &lt;Invest&gt;');
+    expect(() => renderRadarChart(result, 'Lease')).toThrow(/Unknown option 'Lease'/);
+  });
+});
+
+describe('renderContributionChart()', () => {
+  it('fills each criterion with its own pattern, in the bars and the legend', () => {
+    const svg = renderContributionChart(decide(housing));
+    expectLabelled(svg);
+    expect(svg.match(/<pattern /g)).toHaveLength(3);
+    const fills = svg.match(/fill="url\(#[^)]+-c1\)"/g) ?? [];
+    expect(fills.length).toBeGreaterThanOrEqual(2);
+    expect(svg).toContain('Flexibility (20%)');
+  });
+
+  it('gives the same ids for the same chart unless one is passed', () => {
+    const result = decide(housing);
+    expect(renderContributionChart(result)).toBe(renderContributionChart(result));
+    expect(renderContributionChart(result, { id: 'og' })).toContain('id="og-title"');
+  });
+});
+
+describe('renderRankStabilityChart()', () => {
+  it('draws a rank line per option for every criterion', () => {
+    const sensitivity = analyzeSensitivity(housing);
+    const svg = renderRankStabilityChart(sensitivity, { title: 'Stability' });
+    expectLabelled(svg);
+    expect(svg).toContain('>Stability</title>');
+    expect(svg.match(/<polyline /g)).toHaveLength(3 * 3);
+    expect(svg).toContain('If Monthly Cost falls below 1% weight (currently 50%), &apos;Rent &amp; &lt;Invest&gt;&apos; wins instead.');
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Decision Charts
+ * ---------------
+ * Renders decision matrix results as standalone SVG strings, with no DOM or
+ * chart library, so the same charts work in Astro components, API routes
+ * and OG image generation (e.g. passed to resvg).
+ *
+ * Usage:
+ *   import { renderContributionChart, renderRadarChart } from '../lib/tools/decision-charts';
+ *
+ *   const result = makeDecision(input);
+ *   const bars = renderContributionChart(result);
+ *   const radars = result.rankings.map(([option]) => renderRadarChart(result, option));
+ *   const stability = renderRankStabilityChart(analyzeSensitivity(input));
+ *
+ * Every chart has a <title> and <desc> (with the underlying numbers) for
+ * screen readers, and each series gets a fill pattern or line style as well
+ * as a color, so nothing depends on color alone. Colors and fonts are
+ * attributes rather than CSS, which image renderers don't all support.
+ */
+
+import type { DecisionResultData } from './decision-matrix';
+import type { SensitivityResult } from './decision-sensitivity';
+
+// Types
+export interface ChartOptions {
+  /** Width in px; height follows from the content (default varies by chart) */
+  width?: number;
+  /** Accessible title (default describes the chart) */
+  title?: string;
+  /** Prefix for element ids; set it when the same chart appears twice on a page */
+  id?: string;
+}
+
+export interface DecisionChartData {
+  /** Options, best first */
+  options: string[];
+  criteria: string[];
+  /** Criterion weights summing to 1 (equal when the result has none) */
+  weights: number[];
+  /** Per option, 0-1 per criterion: 1 is the best option on it, 0 the worst */
+  profile: Record<string, number[]>;
+  /** Per option, points out of 100 contributed by each criterion (weight x profile) */
+  contributions: Record<string, number[]>;
+}
+
+/** Okabe-Ito palette: distinguishable with the common forms of color blindness */
+const PALETTE = ['#0072B2', '#E69F00', '#009E73', '#CC79A7', '#56B4E9', '#D55E00', '#999999', '#F0E442'];
+
+/** Overlay drawn on each series' color, in the same order as PALETTE */
+const PATTERNS = ['none', 'diagonal', 'dots', 'horizontal', 'crosshatch', 'vertical', 'back-diagonal', 'grid'] as const;
+
+/** Line styles for the rank stability chart */
+const DASHES = ['', '6 3', '2 3', '8 3 2 3', '12 4', '1 2', '6 2 2 2 2 2', '4 4'];
+const MARKERS = ['circle', 'square', 'triangle', 'diamond'] as const;
+
+const FONT = 'font-family="system-ui, -apple-system, Segoe UI, Helvetica, Arial, sans-serif"';
+const TEXT_COLOR = '#202122';
+const MUTED_COLOR = '#54595d';
+const GRID_COLOR = '#c8ccd1';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Shorten a label to fit, keeping the full text for <desc> */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Round for SVG coordinates, which don't need more than 0.1px */
+function r(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Stable id from the chart's content, so renders match and different charts don't clash */
+function chartId(prefix: string, content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash = Math.imul(hash ^ content.charCodeAt(i), 0x01000193);
+  }
+  return `${prefix}-${(hash >>> 0).toString(36)}`;
+}
+
+function color(index: number): string {
+  return PALETTE[index % PALETTE.length];
+}
+
+/** A <pattern> filling with the series color plus its overlay */
+function patternDef(id: string, index: number): string {
+  const fill = color(index);
+  const kind = PATTERNS[index % PATTERNS.length];
+  const ink = 'stroke="#ffffff" stroke-opacity="0.75" stroke-width="1.5"';
+  const overlay: Record<(typeof PATTERNS)[number], string> = {
+    none: '',
+    diagonal: `<path d="M-2,2 l4,-4 M0,8 l8,-8 M6,10 l4,-4" ${ink}/>`,
+    'back-diagonal': `<path d="M-2,6 l4,4 M0,0 l8,8 M6,-2 l4,4" ${ink}/>`,
+    dots: '<circle cx="4" cy="4" r="1.6" fill="#ffffff" fill-opacity="0.8"/>',
+    horizontal: `<path d="M0,4 h8" ${ink}/>`,
+    vertical: `<path d="M4,0 v8" ${ink}/>`,
+    crosshatch: `<path d="M0,8 l8,-8 M0,0 l8,8" ${ink}/>`,
+    grid: `<path d="M0,4 h8 M4,0 v8" ${ink}/>`,
+  };
+  return (
+    `<pattern id="${id}" width="8" height="8" patternUnits="userSpaceOnUse">` +
+    `<rect width="8" height="8" fill="${fill}"/>${overlay[kind]}</pattern>`
+  );
+}
+
+/** Open an accessible SVG: role, title and description come first */
+function openSvg(id: string, width: number, height: number, title: string, desc: string): string {
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" ` +
+    `role="img" aria-labelledby="${id}-title ${id}-desc" ${FONT}>` +
+    `<title id="${id}-title">${escapeXml(title)}</title>` +
+    `<desc id="${id}-desc">${escapeXml(desc)}</desc>` +
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`
+  );
+}
+
+function marker(shape: (typeof MARKERS)[number], x: number, y: number, fill: string): string {
+  switch (shape) {
+    case 'circle':
+      return `<circle cx="${r(x)}" cy="${r(y)}" r="3.5" fill="${fill}"/>`;
+    case 'square':
+      return `<rect x="${r(x - 3.5)}" y="${r(y - 3.5)}" width="7" height="7" fill="${fill}"/>`;
+    case 'triangle':
+      return `<path d="M${r(x)},${r(y - 4)} L${r(x + 4)},${r(y + 3)} L${r(x - 4)},${r(y + 3)} Z" fill="${fill}"/>`;
+    case 'diamond':
+      return `<path d="M${r(x)},${r(y - 4.5)} L${r(x + 4.5)},${r(y)} L${r(x)},${r(y + 4.5)} L${r(x - 4.5)},${r(y)} Z" fill="${fill}"/>`;
+  }
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+/**
+ * Method-independent chart data from a result: how close each option comes
+ * to the best option on every criterion, and what that is worth once the
+ * criterion weights are applied.
+ */
+export function decisionChartData(result: DecisionResultData): DecisionChartData {
+  const options = result.rankings.map(([option]) => option);
+  const keys = Object.keys(result.scoresBreakdown[options[0]] ?? {});
+
+  // Breakdown keys follow the criteria order; names can contain " (" themselves
+  const named = Object.keys(result.criteriaWeights ?? {});
+  const listed = named.length > 0 ? named : Object.keys(result.criteriaDirections ?? {});
+  const criteria = listed.length === keys.length ? listed : keys.map(key => key.split(' (')[0]);
+
+  const rawWeights = criteria.map(c => result.criteriaWeights?.[c]);
+  const weights = rawWeights.every(w => w !== undefined)
+    ? (rawWeights as number[])
+    : criteria.map(() => 1 / Math.max(1, criteria.length));
+
+  const profile: Record<string, number[]> = {};
+  const contributions: Record<string, number[]> = {};
+  for (const option of options) {
+    profile[option] = [];
+    contributions[option] = [];
+  }
+
+  keys.forEach((key, i) => {
+    const column = options.map(opt => result.scoresBreakdown[opt]?.[key] ?? 0);
+    const [low, high] = [Math.min(...column), Math.max(...column)];
+    const minimize = result.criteriaDirections?.[criteria[i]] === 'minimize';
+
+    options.forEach((option, idx) => {
+      let value = high > low ? (column[idx] - low) / (high - low) : 1;
+      if (minimize) value = high > low ? 1 - value : 1;
+      profile[option].push(value);
+      contributions[option].push(value * weights[i] * 100);
+    });
+  });
+
+  return { options, criteria, weights, profile, contributions };
+}
+
+// ============================================================================
+// RADAR
+// ============================================================================
+
+/**
+ * Radar chart of one option across the criteria. Each axis runs from the
+ * worst option on that criterion (center) to the best (edge). Needs at least
+ * three criteria to be readable.
+ */
+export function renderRadarChart(
+  result: DecisionResultData,
+  option: string,
+  chartOptions: ChartOptions = {}
+): string {
+  const data = decisionChartData(result);
+  const index = data.options.indexOf(option);
+  if (index === -1) {
+    throw new Error(`Unknown option '${option}': expected one of ${data.options.join(', ')}`);
+  }
+
+  const width = chartOptions.width ?? 280;
+  const height = width;
+  const cx = width / 2;
+  const cy = height / 2 + 4;
+  const radius = width / 2 - 60;
+  const values = data.profile[option];
+  const count = data.criteria.length;
+
+  const point = (i: number, scale: number): [number, number] => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    return [cx + Math.cos(angle) * radius * scale, cy + Math.sin(angle) * radius * scale];
+  };
+  const polygon = (scales: number[]) =>
+    scales.map((scale, i) => point(i, scale).map(r).join(',')).join(' ');
+
+  const title = chartOptions.title ?? `${option}: how close to the best option on each criterion`;
+  const desc =
+    `Radar chart with one axis per criterion, from the worst option at the center to the best at the edge. ` +
+    data.criteria.map((c, i) => `${c}: ${Math.round(values[i] * 100)}%`).join(', ') + '.';
+  const id = chartOptions.id ?? chartId('dm-radar', `${result.analysisMethod}|${option}|${desc}`);
+
+  const parts = [openSvg(id, width, height, title, desc), `<defs>${patternDef(`${id}-fill`, index)}</defs>`];
+
+  // Grid rings and axes
+  for (const ring of [0.25, 0.5, 0.75, 1]) {
+    parts.push(`<polygon points="${polygon(data.criteria.map(() => ring))}" fill="none" stroke="${GRID_COLOR}" stroke-width="1"/>`);
+  }
+  data.criteria.forEach((criterion, i) => {
+    const [x, y] = point(i, 1);
+    parts.push(`<line x1="${r(cx)}" y1="${r(cy)}" x2="${r(x)}" y2="${r(y)}" stroke="${GRID_COLOR}" stroke-width="1"/>`);
+    const [lx, ly] = point(i, 1.18);
+    const anchor = Math.abs(lx - cx) < 4 ? 'middle' : lx > cx ? 'start' : 'end';
+    parts.push(
+      `<text x="${r(lx)}" y="${r(ly + 4)}" font-size="11" fill="${MUTED_COLOR}" text-anchor="${anchor}">` +
+      `${escapeXml(truncate(criterion, 14))}</text>`
+    );
+  });
+
+  // The option's shape
+  parts.push(
+    `<polygon points="${polygon(values)}" fill="url(#${id}-fill)" fill-opacity="0.55" ` +
+    `stroke="${color(index)}" stroke-width="2" stroke-linejoin="round"/>`
+  );
+  values.forEach((value, i) => {
+    const [x, y] = point(i, value);
+    parts.push(`<circle cx="${r(x)}" cy="${r(y)}" r="3" fill="${color(index)}"/>`);
+  });
+
+  parts.push(
+    `<text x="${r(cx)}" y="16" font-size="13" font-weight="600" fill="${TEXT_COLOR}" text-anchor="middle">` +
+    `${escapeXml(truncate(option, 32))}</text>`,
+    '</svg>'
+  );
+  return parts.join('');
+}
+
+// ============================================================================
+// CONTRIBUTION BARS
+// ============================================================================
+
+/**
+ * Stacked horizontal bars, one per option (best first), splitting 100
+ * possible points by criterion: each criterion contributes its weight times
+ * how close the option comes to the best option on it.
+ */
+export function renderContributionChart(result: DecisionResultData, chartOptions: ChartOptions = {}): string {
+  const data = decisionChartData(result);
+  const width = chartOptions.width ?? 600;
+
+  const labelWidth = Math.min(160, width * 0.28);
+  const barLeft = labelWidth + 8;
+  const barWidth = width - barLeft - 40;
+  const rowHeight = 30;
+  const barsTop = 12;
+  const legendTop = barsTop + data.options.length * rowHeight + 10;
+  const legendColumns = Math.max(1, Math.floor(width / 190));
+  const legendRows = Math.ceil(data.criteria.length / legendColumns);
+  const height = legendTop + legendRows * 20 + 8;
+
+  const totals = data.options.map(opt => data.contributions[opt].reduce((sum, v) => sum + v, 0));
+  const title = chartOptions.title ?? 'Weighted contribution of each criterion, per option';
+  const desc =
+    'Stacked bars out of 100 points; each criterion adds its weight times how close the option is to the best option on it. ' +
+    data.options.map((opt, o) =>
+      `${opt}: ${Math.round(totals[o])} (` +
+      data.criteria.map((c, i) => `${c} ${Math.round(data.contributions[opt][i])}`).join(', ') + ')'
+    ).join('; ') + '.';
+  const id = chartOptions.id ?? chartId('dm-contrib', `${result.analysisMethod}|${desc}`);
+
+  const parts = [
+    openSvg(id, width, height, title, desc),
+    `<defs>${data.criteria.map((_, i) => patternDef(`${id}-c${i}`, i)).join('')}</defs>`,
+  ];
+
+  // Scale: 0, 50 and 100 points
+  for (const tick of [0, 50, 100]) {
+    const x = barLeft + (barWidth * tick) / 100;
+    parts.push(
+      `<line x1="${r(x)}" y1="${barsTop - 4}" x2="${r(x)}" y2="${legendTop - 12}" stroke="${GRID_COLOR}" stroke-dasharray="2 3"/>`
+    );
+  }
+
+  data.options.forEach((option, o) => {
+    const y = barsTop + o * rowHeight;
+    parts.push(
+      `<text x="${r(labelWidth)}" y="${y + 15}" font-size="12" fill="${TEXT_COLOR}" text-anchor="end"` +
+      `${o === 0 ? ' font-weight="600"' : ''}>${escapeXml(truncate(option, 22))}</text>`
+    );
+    let x = barLeft;
+    data.criteria.forEach((criterion, i) => {
+      const value = data.contributions[option][i];
+      const w = (barWidth * value) / 100;
+      if (w <= 0) return;
+      parts.push(
+        `<rect x="${r(x)}" y="${y}" width="${r(w)}" height="20" fill="url(#${id}-c${i})" stroke="#ffffff" stroke-width="1">` +
+        `<title>${escapeXml(`${option} · ${criterion}: ${value.toFixed(1)} points`)}</title></rect>`
+      );
+      x += w;
+    });
+    parts.push(
+      `<text x="${r(x + 6)}" y="${y + 15}" font-size="12" fill="${TEXT_COLOR}">${Math.round(totals[o])}</text>`
+    );
+  });
+
+  // Legend: the same pattern as the bar segments
+  const legendWidth = width / legendColumns;
+  data.criteria.forEach((criterion, i) => {
+    const x = 8 + (i % legendColumns) * legendWidth;
+    const y = legendTop + Math.floor(i / legendColumns) * 20;
+    const weight = `${Math.round(data.weights[i] * 100)}%`;
+    parts.push(
+      `<rect x="${r(x)}" y="${y}" width="14" height="14" fill="url(#${id}-c${i})" stroke="${MUTED_COLOR}" stroke-width="0.5"/>` +
+      `<text x="${r(x + 20)}" y="${y + 11}" font-size="11" fill="${TEXT_COLOR}">` +
+      `${escapeXml(truncate(criterion, 20))} (${weight})</text>`
+    );
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+}
+
+// ============================================================================
+// RANK STABILITY
+// ============================================================================
+
+/**
+ * Small multiples, one per criterion: each option's rank as that criterion's
+ * weight moves from 0% to 100% (the others rescaled to fill the rest), with
+ * the current weight marked. Lines cross where the ranking changes.
+ */
+export function renderRankStabilityChart(sensitivity: SensitivityResult, chartOptions: ChartOptions = {}): string {
+  const options = Object.keys(sensitivity.criteria[0]?.samples[0]?.scores ?? {});
+  const width = chartOptions.width ?? 600;
+
+  const left = 28;
+  const plotWidth = width - left - 16;
+  const rankGap = 16;
+  const legendHeight = 24;
+  const panelHeight = 26 + (options.length - 1) * rankGap + 26;
+  const height = legendHeight + sensitivity.criteria.length * panelHeight + 4;
+  const xFor = (weight: number) => left + weight * plotWidth;
+
+  const title = chartOptions.title ?? `How the ranking changes with each criterion's weight`;
+  const desc =
+    `For each criterion, the rank of every option as its weight moves from 0% to 100%. ` +
+    sensitivity.criteria.map(c => c.summary).join(' ');
+  const id = chartOptions.id ?? chartId('dm-stability', `${sensitivity.method}|${options.join('|')}|${desc}`);
+
+  const parts = [openSvg(id, width, height, title, desc)];
+
+  // Legend: line style and marker shape identify each option, not just color
+  const legendWidth = (width - left) / Math.max(1, options.length);
+  options.forEach((option, o) => {
+    const x = left + o * legendWidth;
+    parts.push(
+      `<line x1="${r(x)}" y1="10" x2="${r(x + 22)}" y2="10" stroke="${color(o)}" stroke-width="2.5"` +
+      `${DASHES[o % DASHES.length] ? ` stroke-dasharray="${DASHES[o % DASHES.length]}"` : ''}/>` +
+      marker(MARKERS[o % MARKERS.length], x + 11, 10, color(o)) +
+      `<text x="${r(x + 28)}" y="14" font-size="11" fill="${TEXT_COLOR}">` +
+      `${escapeXml(truncate(option, Math.max(6, Math.floor(legendWidth / 7) - 5)))}</text>`
+    );
+  });
+
+  sensitivity.criteria.forEach((criterion, c) => {
+    const top = legendHeight + c * panelHeight;
+    const plotTop = top + 26;
+    const yFor = (rank: number) => plotTop + rank * rankGap;
+
+    parts.push(
+      `<text x="${left}" y="${top + 16}" font-size="12" font-weight="600" fill="${TEXT_COLOR}">` +
+      `${escapeXml(criterion.criterion)}` +
+      `<tspan font-weight="400" fill="${MUTED_COLOR}"> (now ${Math.round(criterion.baseWeight * 100)}%)</tspan></text>`
+    );
+    for (let rank = 0; rank < options.length; rank++) {
+      parts.push(
+        `<text x="${left - 8}" y="${yFor(rank) + 4}" font-size="10" fill="${MUTED_COLOR}" text-anchor="end">${rank + 1}</text>` +
+        `<line x1="${left}" y1="${yFor(rank)}" x2="${left + plotWidth}" y2="${yFor(rank)}" stroke="${GRID_COLOR}" stroke-width="0.5"/>`
+      );
+    }
+
+    // Current weight
+    const now = xFor(criterion.baseWeight);
+    parts.push(
+      `<line x1="${r(now)}" y1="${plotTop - 6}" x2="${r(now)}" y2="${yFor(options.length - 1) + 6}" ` +
+      `stroke="${TEXT_COLOR}" stroke-width="1" stroke-dasharray="3 2"/>`
+    );
+
+    // Rank of each option at each sampled weight
+    const ranks: Record<string, number[]> = Object.fromEntries(options.map(opt => [opt, []]));
+    for (const sample of criterion.samples) {
+      [...options]
+        .sort((a, b) => (sample.scores[b] ?? 0) - (sample.scores[a] ?? 0))
+        .forEach((option, rank) => ranks[option].push(rank));
+    }
+
+    options.forEach((option, o) => {
+      const points = criterion.samples.map((sample, k) => `${r(xFor(sample.weight))},${r(yFor(ranks[option][k]))}`);
+      const dash = DASHES[o % DASHES.length];
+      parts.push(
+        `<polyline points="${points.join(' ')}" fill="none" stroke="${color(o)}" stroke-width="2.5" ` +
+        `stroke-linejoin="round"${dash ? ` stroke-dasharray="${dash}"` : ''}/>`
+      );
+      const every = Math.max(1, Math.round(criterion.samples.length / 5));
+      criterion.samples.forEach((sample, k) => {
+        if (k % every === 0 || k === criterion.samples.length - 1) {
+          parts.push(marker(MARKERS[o % MARKERS.length], xFor(sample.weight), yFor(ranks[option][k]), color(o)));
+        }
+      });
+    });
+
+    const axisY = yFor(options.length - 1) + 18;
+    parts.push(
+      `<text x="${left}" y="${axisY}" font-size="10" fill="${MUTED_COLOR}">0%</text>` +
+      `<text x="${r(left + plotWidth / 2)}" y="${axisY}" font-size="10" fill="${MUTED_COLOR}" text-anchor="middle">weight</text>` +
+      `<text x="${left + plotWidth}" y="${axisY}" font-size="10" fill="${MUTED_COLOR}" text-anchor="end">100%</text>`
+    );
+  });
+
+  parts.push('</svg>');
+  return parts.join('');
+}
@@ -0,0 +1,126 @@
+/**
+ * Counterfactual Explanation Tests
+ * --------------------------------
+ * Tests for "what would it take for this option to win?" explanations.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { type DecisionMatrixInput } from './decision-matrix';
+import { explainCounterfactual } from './decision-counterfactual';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// Buy scores 0.7 * 8 + 0.3 * 2 = 6.2; Rent scores 0.7 * 4 + 0.3 * 6 = 4.6.
+// Rent overtakes Buy once its Cost score passes 44 / 7 ≈ 6.29.
+const twoCriteria: DecisionMatrixInput = {
+  options: ['Buy', 'Rent'],
+  criteria: ['Cost', 'Flexibility'],
+  scores: {
+    Buy: [8, 2],
+    Rent: [4, 6],
+  },
+  weights: [0.7, 0.3],
+};
+
+// =============================================================================
+// explainCounterfactual()
+// =============================================================================
+
+describe('explainCounterfactual()', () => {
+  it('finds the smallest score change per criterion', () => {
+    const whatIf = explainCounterfactual(twoCriteria, 'Rent');
+    const [cost, flexibility] = whatIf.scoreChanges;
+    expect(cost.currentScore).toBe(4);
+    expect(cost.requiredScore).toBeCloseTo(44 / 7, 4);
+    expect(cost.change).toBeCloseTo(44 / 7 - 4, 4);
+    // Would need 11.3 on a 0-10 scale
+    expect(flexibility.requiredScore).toBeNull();
+    expect(whatIf.smallestScoreChange?.criterion).toBe('Cost');
+  });
+
+  it('honors a custom score scale', () => {
+    const whatIf = explainCounterfactual(twoCriteria, 'Rent', { scale: { min: 0, max: 20 } });
+    expect(whatIf.scoreChanges[1].requiredScore).toBeCloseTo(34 / 3, 4);
+  });
+
+  it('finds the smallest single-weight change', () => {
+    const whatIf = explainCounterfactual(twoCriteria, 'Rent');
+    const [cost, flexibility] = whatIf.weightChanges;
+    expect(cost.requiredWeight).toBeCloseTo(0.5, 4);
+    expect(cost.change).toBeCloseTo(-0.2, 4);
+    expect(flexibility.requiredWeight).toBeCloseTo(0.5, 4);
+    expect(flexibility.change).toBeCloseTo(0.2, 4);
+    expect(whatIf.smallestWeightChange?.criterion).toBe('Cost');
+  });
+
+  it('explains the changes in plain language', () => {
+    const whatIf = explainCounterfactual(twoCriteria, 'Rent');
+    expect(whatIf.summary).toBe(
+      "'Rent' would rank first if its Cost score rose from 4.0 to 6.3 (+2.3 points). " +
+      "'Rent' would rank first if Cost carried at most 50% of the weight (currently 70%)."
+    );
+    expect(whatIf.explanations).toContain(
+      "'Rent' would rank first if Flexibility carried at least 50% of the weight (currently 30%)."
+    );
+  });
+
+  it('searches downward for cost criteria', () => {
+    const whatIf = explainCounterfactual(
+      {
+        options: ['Cheap', 'Premium'],
+        criteria: ['Cost', 'Quality'],
+        scores: { Cheap: [2, 6], Premium: [9, 7] },
+        directions: ['minimize', 'maximize'],
+      },
+      'Premium'
+    );
+    const [cost] = whatIf.scoreChanges;
+    expect(cost.change).toBeLessThan(0);
+    expect(cost.requiredScore).toBeLessThan(9);
+    expect(whatIf.explanations[0]).toContain('Cost score fell from 9.0');
+  });
+
+  it('reports when the option already wins', () => {
+    const whatIf = explainCounterfactual(twoCriteria, 'Buy');
+    expect(whatIf.isWinner).toBe(true);
+    expect(whatIf.currentRank).toBe(1);
+    expect(whatIf.scoreChanges).toEqual([]);
+    expect(whatIf.summary).toBe("'Buy' already ranks first.");
+  });
+
+  it('reports when no single change is enough', () => {
+    const whatIf = explainCounterfactual(
+      {
+        options: ['Best', 'Worst'],
+        criteria: ['X', 'Y'],
+        scores: { Best: [10, 10], Worst: [1, 1] },
+      },
+      'Worst'
+    );
+    expect(whatIf.smallestScoreChange).toBeNull();
+    expect(whatIf.smallestWeightChange).toBeNull();
+    expect(whatIf.summary).toBe(
+      "No change to a single score is enough for 'Worst' to beat 'Best'. " +
+      "No single weight change makes 'Worst' win."
+    );
+  });
+
+  it('explains options eliminated by constraints', () => {
+    const whatIf = explainCounterfactual(
+      { ...twoCriteria, constraints: { Flexibility: { min: 3 } } },
+      'Buy'
+    );
+    expect(whatIf.currentRank).toBeNull();
+    expect(whatIf.summary).toContain("'Buy' was eliminated by a constraint");
+    // Raising Flexibility to the minimum lifts the constraint
+    expect(whatIf.scoreChanges[1].requiredScore).toBeCloseTo(3, 4);
+  });
+
+  it('throws for an unknown option', () => {
+    expect(() => explainCounterfactual(twoCriteria, 'Lease')).toThrow('Unknown option: Lease');
+  });
+});
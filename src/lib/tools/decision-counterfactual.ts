@@ -0,0 +1,258 @@
+/**
+ * Counterfactual Explanations
+ * ---------------------------
+ * Answers "what would it take for this option to win?" — the smallest
+ * change to one score, or to one criterion's weight, that puts an option
+ * in first place.
+ *
+ * Usage:
+ *   import { explainCounterfactual } from '../lib/tools/decision-counterfactual';
+ *
+ *   const whatIf = explainCounterfactual({
+ *     options: ["Buy", "Rent"],
+ *     criteria: ["Cost", "Flexibility"],
+ *     scores: { "Buy": [8, 2], "Rent": [4, 6] },
+ *     weights: [0.7, 0.3]
+ *   }, "Rent");
+ *
+ *   whatIf.smallestScoreChange;  // { criterion: "Cost", currentScore: 4, requiredScore: 6.29, ... }
+ *   whatIf.summary;              // "'Rent' would rank first if its Cost score rose from 4.0 to 6.3 (+2.3 points). ..."
+ */
+
+import { debug } from '../debug';
+import {
+  DecisionMatrix,
+  toPointScores,
+  type DecisionMatrixInput,
+} from './decision-matrix';
+import { analyzeSensitivity } from './decision-sensitivity';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export interface ScoreChange {
+  criterion: string;
+  currentScore: number;
+  /** Score on this criterion that makes the option rank first, or null if none in range */
+  requiredScore: number | null;
+  /** requiredScore - currentScore (negative for 'minimize' criteria) */
+  change: number | null;
+}
+
+export interface WeightChange {
+  criterion: string;
+  currentWeight: number;
+  /** Weight (0-1) on this criterion that makes the option rank first, or null if none */
+  requiredWeight: number | null;
+  /** requiredWeight - currentWeight */
+  change: number | null;
+}
+
+export interface Counterfactual {
+  option: string;
+  winner: string;
+  /** Current rank (1 = first), or null if the option was eliminated by a constraint */
+  currentRank: number | null;
+  isWinner: boolean;
+  /** One entry per criterion, holding everything else fixed */
+  scoreChanges: ScoreChange[];
+  smallestScoreChange: ScoreChange | null;
+  /** One entry per criterion; other weights rescale proportionally */
+  weightChanges: WeightChange[];
+  smallestWeightChange: WeightChange | null;
+  /** Plain-language sentence per feasible change, smallest first */
+  explanations: string[];
+  /** The smallest score change and smallest weight change in one or two sentences */
+  summary: string;
+}
+
+export interface CounterfactualOptions {
+  /** Lowest and highest score allowed on any criterion (default: 0-10, widened to fit the data) */
+  scale?: { min: number; max: number };
+}
+
+/** Bisection iterations used to pin down each required score */
+const REFINE_ITERATIONS = 30;
+
+/**
+ * Explain what would have to change for an option to rank first.
+ *
+ * For each criterion, finds the smallest change to the option's own score
+ * (everything else fixed) and the smallest change to that criterion's
+ * weight (others rescaled proportionally) that makes it the winner.
+ * Uncertain scores are taken at their point estimates.
+ *
+ * @param input - The same input passed to DecisionMatrix / makeDecision
+ * @param option - The option to explain
+ * @param options - Score scale used to bound the search
+ */
+export function explainCounterfactual(
+  input: DecisionMatrixInput,
+  option: string,
+  options: CounterfactualOptions = {}
+): Counterfactual {
+  debug.group(MODULE, `explainCounterfactual("${option}")`);
+
+  if (!input.options.includes(option)) {
+    debug.error(MODULE, `Unknown option: ${option}`);
+    throw new Error(`Unknown option: ${option}`);
+  }
+
+  const pointScores = toPointScores(input.scores);
+  const pointInput: DecisionMatrixInput = { ...input, scores: pointScores };
+  const baseMatrix = new DecisionMatrix(pointInput);
+  const base = baseMatrix.analyze();
+  const rankIndex = base.rankings.findIndex(([opt]) => opt === option);
+  const currentRank = rankIndex === -1 ? null : rankIndex + 1;
+
+  if (base.winner === option) {
+    debug.log(MODULE, `"${option}" already ranks first`);
+    debug.groupEnd();
+    return {
+      option,
+      winner: base.winner,
+      currentRank,
+      isWinner: true,
+      scoreChanges: [],
+      smallestScoreChange: null,
+      weightChanges: [],
+      smallestWeightChange: null,
+      explanations: [],
+      summary: `'${option}' already ranks first.`,
+    };
+  }
+
+  // Missing cells start from their imputed value
+  const filledScores = baseMatrix.getScores();
+  const allScores = Object.values(filledScores).flat();
+  const scale = options.scale ?? {
+    min: Math.min(0, ...allScores),
+    max: Math.max(10, ...allScores),
+  };
+
+  const winsWith = (criterionIndex: number, score: number) => {
+    const row = [...pointScores[option]];
+    row[criterionIndex] = score;
+    return new DecisionMatrix({
+      ...pointInput,
+      scores: { ...pointScores, [option]: row },
+    }).analyze().winner === option;
+  };
+
+  // Smallest score change per criterion, searching toward "better"
+  const scoreChanges: ScoreChange[] = input.criteria.map((criterion, index) => {
+    const currentScore = filledScores[option][index];
+    const minimize = input.directions?.[index] === 'minimize';
+    const bound = minimize ? scale.min : scale.max;
+
+    if (bound === currentScore || !winsWith(index, bound)) {
+      return { criterion, currentScore, requiredScore: null, change: null };
+    }
+
+    let losing = currentScore;
+    let winning = bound;
+    for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+      const mid = (losing + winning) / 2;
+      if (winsWith(index, mid)) {
+        winning = mid;
+      } else {
+        losing = mid;
+      }
+    }
+
+    return { criterion, currentScore, requiredScore: winning, change: winning - currentScore };
+  });
+
+  // Smallest weight change per criterion, from the sensitivity sweep's winner bands
+  const sensitivity = analyzeSensitivity(pointInput);
+  const weightChanges: WeightChange[] = sensitivity.criteria.map(c => {
+    let requiredWeight: number | null = null;
+    for (const range of c.ranges) {
+      if (range.winner !== option) continue;
+      const candidate = range.from > c.baseWeight ? range.from : range.to;
+      if (
+        requiredWeight === null ||
+        Math.abs(candidate - c.baseWeight) < Math.abs(requiredWeight - c.baseWeight)
+      ) {
+        requiredWeight = candidate;
+      }
+    }
+    return {
+      criterion: c.criterion,
+      currentWeight: c.baseWeight,
+      requiredWeight,
+      change: requiredWeight === null ? null : requiredWeight - c.baseWeight,
+    };
+  });
+
+  const bySize = <T extends { change: number | null }>(changes: T[]) =>
+    changes
+      .filter(c => c.change !== null)
+      .sort((a, b) => Math.abs(a.change!) - Math.abs(b.change!));
+
+  const feasibleScores = bySize(scoreChanges);
+  const feasibleWeights = bySize(weightChanges);
+  const smallestScoreChange = feasibleScores[0] ?? null;
+  const smallestWeightChange = feasibleWeights[0] ?? null;
+
+  const explanations = [
+    ...feasibleScores.map(c => describeScoreChange(option, c)),
+    ...feasibleWeights.map(c => describeWeightChange(option, c)),
+  ];
+
+  const summaryParts: string[] = [];
+  if (currentRank === null) {
+    const reasons = base.eliminated.find(e => e.option === option)?.reasons ?? [];
+    summaryParts.push(`'${option}' was eliminated by a constraint (${reasons.join('; ')}).`);
+  }
+  summaryParts.push(
+    smallestScoreChange
+      ? describeScoreChange(option, smallestScoreChange)
+      : `No change to a single score is enough for '${option}' to beat '${base.winner}'.`
+  );
+  summaryParts.push(
+    smallestWeightChange
+      ? describeWeightChange(option, smallestWeightChange)
+      : `No single weight change makes '${option}' win.`
+  );
+
+  debug.success(MODULE, 'Counterfactual complete', {
+    option,
+    smallestScoreChange: smallestScoreChange?.criterion ?? 'none',
+    smallestWeightChange: smallestWeightChange?.criterion ?? 'none',
+  });
+  debug.groupEnd();
+
+  return {
+    option,
+    winner: base.winner,
+    currentRank,
+    isWinner: false,
+    scoreChanges,
+    smallestScoreChange,
+    weightChanges,
+    smallestWeightChange,
+    explanations,
+    summary: summaryParts.join(' '),
+  };
+}
+
+function describeScoreChange(option: string, change: ScoreChange): string {
+  const delta = change.change!;
+  const verb = delta > 0 ? 'rose' : 'fell';
+  const sign = delta > 0 ? '+' : '';
+  return (
+    `'${option}' would rank first if its ${change.criterion} score ${verb} from ` +
+    `${change.currentScore.toFixed(1)} to ${change.requiredScore!.toFixed(1)} ` +
+    `(${sign}${delta.toFixed(1)} points).`
+  );
+}
+
+function describeWeightChange(option: string, change: WeightChange): string {
+  const pct = (w: number) => `${(w * 100).toFixed(0)}%`;
+  const comparison = change.change! > 0 ? 'at least' : 'at most';
+  return (
+    `'${option}' would rank first if ${change.criterion} carried ${comparison} ` +
+    `${pct(change.requiredWeight!)} of the weight (currently ${pct(change.currentWeight)}).`
+  );
+}
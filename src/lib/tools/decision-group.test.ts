@@ -0,0 +1,178 @@
+/**
+ * Group Decision Tests
+ * --------------------
+ * Tests for aggregating several stakeholders' scores and the disagreement report.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeGroupDecision, type GroupDecisionInput } from './decision-group';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// Alex and Jo prefer Buy; Sam prefers Rent, mostly because of Cost.
+const household: GroupDecisionInput = {
+  options: ['Buy', 'Rent'],
+  criteria: ['Cost', 'Space'],
+  stakeholders: [
+    { name: 'Alex', scores: { Buy: [8, 8], Rent: [4, 4] } },
+    { name: 'Sam', scores: { Buy: [2, 6], Rent: [8, 6] } },
+    { name: 'Jo', scores: { Buy: [7, 7], Rent: [5, 5] } },
+  ],
+};
+
+// =============================================================================
+// makeGroupDecision()
+// =============================================================================
+
+describe('makeGroupDecision()', () => {
+  it('averages scores with the mean strategy by default', () => {
+    const group = makeGroupDecision(household);
+    expect(group.strategy).toBe('mean');
+    expect(group.result.winner).toBe('Buy');
+    expect(group.result.totalScore.Buy).toBeCloseTo((17 / 3 + 7) / 2);
+    expect(group.result.analysisMethod).toContain('Mean of 3 stakeholders');
+  });
+
+  it('lets an influential stakeholder swing the result', () => {
+    const group = makeGroupDecision({
+      ...household,
+      stakeholders: household.stakeholders.map(s => (s.name === 'Sam' ? { ...s, weight: 5 } : s)),
+    });
+    expect(group.result.winner).toBe('Rent');
+  });
+
+  it('averages personal criteria weights', () => {
+    const group = makeGroupDecision({
+      ...household,
+      stakeholders: [
+        { name: 'A', scores: { Buy: [8, 2], Rent: [2, 8] }, criteriaWeights: [0.9, 0.1] },
+        { name: 'B', scores: { Buy: [8, 2], Rent: [2, 8] }, criteriaWeights: [0.5, 0.5] },
+      ],
+    });
+    expect(group.result.winner).toBe('Buy');
+    expect(group.disagreement.weightSpread[0]).toMatchObject({ criterion: 'Cost', min: 0.5, max: 0.9 });
+    expect(group.disagreement.summary).toContain('Importance of Cost ranges from 50% to 90% weight.');
+  });
+
+  it('combines scores with the geometric mean', () => {
+    const group = makeGroupDecision({ ...household, strategy: 'geometric_mean' });
+    expect(group.result.winner).toBe('Buy');
+    expect(group.result.analysisMethod).toContain('Geometric Mean');
+    // cbrt(8 * 2 * 7) and cbrt(8 * 6 * 7), equal weights
+    expect(group.result.totalScore.Buy).toBeCloseTo((Math.cbrt(112) + Math.cbrt(336)) / 2);
+  });
+
+  it('rejects non-positive scores for the geometric mean', () => {
+    expect(() =>
+      makeGroupDecision({
+        ...household,
+        strategy: 'geometric_mean',
+        stakeholders: [{ name: 'Alex', scores: { Buy: [0, 8], Rent: [4, 4] } }],
+      })
+    ).toThrow("Geometric mean needs positive scores, but 'Alex' gave 'Buy'");
+  });
+
+  it('counts each stakeholder ranking with Borda', () => {
+    const group = makeGroupDecision({ ...household, strategy: 'borda' });
+    expect(group.result.winner).toBe('Buy');
+    expect(group.result.analysisMethod).toBe('Borda Count of 3 stakeholders');
+    expect(group.result.totalScore).toEqual({ Buy: 2 / 3, Rent: 1 / 3 });
+  });
+
+  it('returns each stakeholder result', () => {
+    const group = makeGroupDecision(household);
+    expect(Object.keys(group.stakeholderResults)).toEqual(['Alex', 'Sam', 'Jo']);
+    expect(group.stakeholderResults.Sam.winner).toBe('Rent');
+  });
+
+  it('passes the analysis method to every stakeholder', () => {
+    const group = makeGroupDecision({ ...household, method: 'topsis' });
+    expect(group.stakeholderResults.Alex.analysisMethod).toContain('TOPSIS');
+    expect(group.result.analysisMethod).toContain('TOPSIS');
+  });
+
+  it('validates stakeholders', () => {
+    expect(() => makeGroupDecision({ ...household, stakeholders: [] })).toThrow(
+      'Must provide at least one stakeholder'
+    );
+    expect(() => makeGroupDecision({ ...household, strategy: 'constructor' as 'mean' })).toThrow(
+      'Unknown aggregation strategy: constructor'
+    );
+    expect(() =>
+      makeGroupDecision({
+        ...household,
+        stakeholders: [household.stakeholders[0], household.stakeholders[0]],
+      })
+    ).toThrow('Duplicate stakeholder name: Alex');
+    expect(() =>
+      makeGroupDecision({
+        ...household,
+        stakeholders: [{ ...household.stakeholders[0], weight: 0 }],
+      })
+    ).toThrow("Stakeholder 'Alex' must have a positive weight");
+    expect(() =>
+      makeGroupDecision({
+        ...household,
+        stakeholders: [{ ...household.stakeholders[0], criteriaWeights: [1] }],
+      })
+    ).toThrow("Stakeholder 'Alex' has 1 criteria weights but 2 criteria");
+  });
+
+  it('names the stakeholder whose scores are invalid', () => {
+    expect(() =>
+      makeGroupDecision({
+        ...household,
+        stakeholders: [{ name: 'Sam', scores: { Buy: [2, 6] } }],
+      })
+    ).toThrow(/^Stakeholder 'Sam': /);
+  });
+});
+
+// =============================================================================
+// Disagreement Report
+// =============================================================================
+
+describe('Disagreement report', () => {
+  it('sorts cells by spread', () => {
+    const { cells } = makeGroupDecision(household).disagreement;
+    expect(cells).toHaveLength(4);
+    expect(cells[0]).toMatchObject({
+      option: 'Buy',
+      criterion: 'Cost',
+      spread: 6,
+      scores: { Alex: 8, Sam: 2, Jo: 7 },
+    });
+    expect(cells[0].standardDeviation).toBeGreaterThan(cells[1].standardDeviation);
+  });
+
+  it('flags stakeholders who disagree with the group', () => {
+    const { stakeholders } = makeGroupDecision(household).disagreement;
+    const sam = stakeholders.find(s => s.name === 'Sam')!;
+    expect(sam.agreesWithGroup).toBe(false);
+    expect(sam.winner).toBe('Rent');
+    expect(sam.rankCorrelation).toBe(-1);
+    expect(sam.largestDeviations[0]).toMatchObject({ option: 'Buy', criterion: 'Cost', score: 2 });
+
+    const alex = stakeholders.find(s => s.name === 'Alex')!;
+    expect(alex.agreesWithGroup).toBe(true);
+    expect(alex.rankCorrelation).toBe(1);
+  });
+
+  it('summarizes the disagreement', () => {
+    const { summary } = makeGroupDecision(household).disagreement;
+    expect(summary).toContain("Sam would pick 'Rent' instead of 'Buy'.");
+    expect(summary).toContain('Biggest disagreement: Buy on Cost (Alex 8, Sam 2, Jo 7).');
+  });
+
+  it('reports consensus when everyone agrees', () => {
+    const group = makeGroupDecision({
+      ...household,
+      stakeholders: [household.stakeholders[0], household.stakeholders[2]],
+    });
+    expect(group.disagreement.summary[0]).toBe("Everyone's own matrix picks 'Buy'.");
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Group Decisions
+ * ---------------
+ * Aggregates several stakeholders' decision matrices (the same options and
+ * criteria, scored by different people) into one DecisionResult, and
+ * reports where the stakeholders disagree most.
+ *
+ * Usage:
+ *   import { makeGroupDecision } from '../lib/tools/decision-group';
+ *
+ *   const group = makeGroupDecision({
+ *     options: ["Buy", "Rent"],
+ *     criteria: ["Cost", "Space"],
+ *     stakeholders: [
+ *       { name: "Alex", scores: { "Buy": [4, 9], "Rent": [8, 5] } },
+ *       { name: "Sam", scores: { "Buy": [6, 7], "Rent": [7, 4] }, criteriaWeights: [0.7, 0.3] }
+ *     ],
+ *     strategy: "mean"
+ *   });
+ *
+ *   console.log(group.result.toString());
+ *   console.log(group.disagreement.summary);
+ */
+
+import { debug } from '../debug';
+import {
+  DecisionMatrix,
+  DecisionResult,
+  spearmanCorrelation,
+  type AnalysisMethod,
+  type CriterionDirection,
+} from './decision-matrix';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export type AggregationStrategy = 'mean' | 'geometric_mean' | 'borda';
+
+export interface StakeholderInput {
+  name: string;
+  /** This stakeholder's scores per option, one per criterion */
+  scores: Record<string, number[]>;
+  /** Influence relative to other stakeholders (default: 1) */
+  weight?: number;
+  /** Personal criteria weights (default: the group's weights) */
+  criteriaWeights?: number[];
+}
+
+export interface GroupDecisionInput {
+  options: string[];
+  criteria: string[];
+  stakeholders: StakeholderInput[];
+  /** How to combine stakeholders (default: 'mean') */
+  strategy?: AggregationStrategy;
+  /** Criteria weights for stakeholders without personal weights (default: equal) */
+  weights?: number[];
+  directions?: CriterionDirection[];
+  method?: AnalysisMethod;
+}
+
+export interface CellDisagreement {
+  option: string;
+  criterion: string;
+  /** Each stakeholder's score for this cell */
+  scores: Record<string, number>;
+  /** Highest minus lowest score */
+  spread: number;
+  standardDeviation: number;
+}
+
+export interface StakeholderDisagreement {
+  name: string;
+  /** Winner of this stakeholder's own matrix */
+  winner: string;
+  agreesWithGroup: boolean;
+  /** Spearman correlation between this stakeholder's ranking and the group's */
+  rankCorrelation: number;
+  /** Cells where this stakeholder is furthest from the group average */
+  largestDeviations: Array<{ option: string; criterion: string; score: number; groupScore: number }>;
+}
+
+export interface DisagreementReport {
+  /** Every cell, most disputed first */
+  cells: CellDisagreement[];
+  stakeholders: StakeholderDisagreement[];
+  /** Spread of personal weights per criterion, most disputed first */
+  weightSpread: Array<{ criterion: string; min: number; max: number }>;
+  /** Plain-language highlights */
+  summary: string[];
+}
+
+export interface GroupDecisionResult {
+  result: DecisionResult;
+  strategy: AggregationStrategy;
+  /** Each stakeholder's own result */
+  stakeholderResults: Record<string, DecisionResult>;
+  disagreement: DisagreementReport;
+}
+
+const STRATEGY_LABELS: Record<AggregationStrategy, string> = {
+  mean: 'Mean',
+  geometric_mean: 'Geometric Mean',
+  borda: 'Borda Count',
+};
+
+/**
+ * Aggregate several stakeholders' scores into one group decision.
+ *
+ * Strategies:
+ * - mean: Stakeholder-weighted average of scores and criteria weights
+ * - geometric_mean: Weighted geometric mean (scores must be positive);
+ *   dampens one person's extreme score
+ * - borda: Each stakeholder ranks the options with their own matrix;
+ *   options earn (n - rank) points per stakeholder
+ */
+export function makeGroupDecision(input: GroupDecisionInput): GroupDecisionResult {
+  const {
+    options,
+    criteria,
+    stakeholders,
+    strategy = 'mean',
+    directions,
+    method = 'weighted',
+  } = input;
+
+  debug.group(MODULE, 'makeGroupDecision()');
+  debug.log(MODULE, 'Called with', {
+    optionCount: options.length,
+    criteriaCount: criteria.length,
+    stakeholders: stakeholders.map(s => s.name),
+    strategy,
+  });
+
+  validateGroupInput(input);
+
+  // Every stakeholder's normalized influence and criteria weights
+  const totalInfluence = stakeholders.reduce((sum, s) => sum + (s.weight ?? 1), 0);
+  const influence = stakeholders.map(s => (s.weight ?? 1) / totalInfluence);
+  const personalWeights = stakeholders.map(s => {
+    const weights = s.criteriaWeights ?? input.weights ?? Array(criteria.length).fill(1);
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map(w => w / total);
+  });
+
+  // Each stakeholder's own result, for Borda and the disagreement report
+  const stakeholderResults: Record<string, DecisionResult> = {};
+  stakeholders.forEach((stakeholder, i) => {
+    try {
+      stakeholderResults[stakeholder.name] = new DecisionMatrix({
+        options,
+        criteria,
+        scores: stakeholder.scores,
+        weights: personalWeights[i],
+        directions,
+        method,
+      }).analyze();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Stakeholder '${stakeholder.name}': ${message}`);
+    }
+  });
+
+  let result: DecisionResult;
+  if (strategy === 'borda') {
+    result = aggregateBorda(options, stakeholders, influence, stakeholderResults);
+  } else {
+    const combine = strategy === 'mean'
+      ? (values: number[]) => values.reduce((sum, v, i) => sum + v * influence[i], 0)
+      : (values: number[]) => Math.exp(values.reduce((sum, v, i) => sum + Math.log(v) * influence[i], 0));
+
+    const scores = Object.fromEntries(
+      options.map(opt => [
+        opt,
+        criteria.map((_, c) => combine(stakeholders.map(s => s.scores[opt][c]))),
+      ])
+    );
+    const weights = criteria.map((_, c) => combine(personalWeights.map(w => w[c])));
+
+    result = new DecisionMatrix({ options, criteria, scores, weights, directions, method }).analyze();
+    result.analysisMethod =
+      `${result.analysisMethod}, ${STRATEGY_LABELS[strategy]} of ${stakeholders.length} stakeholders`;
+  }
+
+  const disagreement = buildDisagreementReport(
+    options, criteria, stakeholders, personalWeights, stakeholderResults, result
+  );
+
+  debug.success(MODULE, 'Group decision complete', {
+    winner: result.winner,
+    dissenters: disagreement.stakeholders.filter(s => !s.agreesWithGroup).map(s => s.name),
+  });
+  debug.groupEnd();
+
+  return { result, strategy, stakeholderResults, disagreement };
+}
+
+function validateGroupInput(input: GroupDecisionInput): void {
+  const { options, criteria, stakeholders, strategy = 'mean' } = input;
+
+  if (stakeholders.length === 0) {
+    debug.error(MODULE, 'Validation failed: no stakeholders provided');
+    throw new Error('Must provide at least one stakeholder');
+  }
+
+  if (!Object.hasOwn(STRATEGY_LABELS, strategy)) {
+    debug.error(MODULE, `Unknown aggregation strategy: ${strategy}`);
+    throw new Error(`Unknown aggregation strategy: ${strategy}`);
+  }
+
+  const names = new Set<string>();
+  for (const stakeholder of stakeholders) {
+    if (names.has(stakeholder.name)) {
+      debug.error(MODULE, `Validation failed: duplicate stakeholder "${stakeholder.name}"`);
+      throw new Error(`Duplicate stakeholder name: ${stakeholder.name}`);
+    }
+    names.add(stakeholder.name);
+
+    if (stakeholder.weight !== undefined && !(stakeholder.weight > 0)) {
+      debug.error(MODULE, `Validation failed: invalid weight for "${stakeholder.name}"`);
+      throw new Error(`Stakeholder '${stakeholder.name}' must have a positive weight`);
+    }
+
+    if (stakeholder.criteriaWeights && stakeholder.criteriaWeights.length !== criteria.length) {
+      debug.error(MODULE, `Validation failed: criteria weight count mismatch for "${stakeholder.name}"`);
+      throw new Error(
+        `Stakeholder '${stakeholder.name}' has ${stakeholder.criteriaWeights.length} ` +
+        `criteria weights but ${criteria.length} criteria`
+      );
+    }
+
+    if (strategy === 'geometric_mean') {
+      for (const option of options) {
+        if (stakeholder.scores[option]?.some(score => score <= 0)) {
+          debug.error(MODULE, `Validation failed: non-positive score from "${stakeholder.name}"`);
+          throw new Error(
+            `Geometric mean needs positive scores, but '${stakeholder.name}' ` +
+            `gave '${option}' a score of zero or less`
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Borda count: treat each stakeholder as a criterion whose "score" is the
+ * points their ranking gives each option, weighted by their influence.
+ */
+function aggregateBorda(
+  options: string[],
+  stakeholders: StakeholderInput[],
+  influence: number[],
+  stakeholderResults: Record<string, DecisionResult>
+): DecisionResult {
+  const points = Object.fromEntries(
+    options.map(opt => [
+      opt,
+      stakeholders.map(s => {
+        const rank = stakeholderResults[s.name].rankings.findIndex(([o]) => o === opt);
+        return options.length - 1 - rank;
+      }),
+    ])
+  );
+
+  const result = new DecisionMatrix({
+    options,
+    criteria: stakeholders.map(s => s.name),
+    scores: points,
+    weights: influence,
+  }).analyze();
+  result.analysisMethod = `${STRATEGY_LABELS.borda} of ${stakeholders.length} stakeholders`;
+  return result;
+}
+
+function buildDisagreementReport(
+  options: string[],
+  criteria: string[],
+  stakeholders: StakeholderInput[],
+  personalWeights: number[][],
+  stakeholderResults: Record<string, DecisionResult>,
+  groupResult: DecisionResult
+): DisagreementReport {
+  // Spread of scores per cell
+  const cells: CellDisagreement[] = [];
+  const cellMeans: Record<string, number[]> = {};
+  for (const option of options) {
+    cellMeans[option] = [];
+    criteria.forEach((criterion, c) => {
+      const values = stakeholders.map(s => s.scores[option][c]);
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+      cellMeans[option].push(mean);
+      cells.push({
+        option,
+        criterion,
+        scores: Object.fromEntries(stakeholders.map((s, i) => [s.name, values[i]])),
+        spread: Math.max(...values) - Math.min(...values),
+        standardDeviation: Math.sqrt(variance),
+      });
+    });
+  }
+  cells.sort((a, b) => b.spread - a.spread);
+
+  const groupRanking = groupResult.rankings.map(([opt]) => opt);
+  const stakeholderReports: StakeholderDisagreement[] = stakeholders.map(stakeholder => {
+    const own = stakeholderResults[stakeholder.name];
+    const deviations = options.flatMap(option =>
+      criteria.map((criterion, c) => ({
+        option,
+        criterion,
+        score: stakeholder.scores[option][c],
+        groupScore: cellMeans[option][c],
+      }))
+    );
+    deviations.sort((a, b) => Math.abs(b.score - b.groupScore) - Math.abs(a.score - a.groupScore));
+
+    return {
+      name: stakeholder.name,
+      winner: own.winner,
+      agreesWithGroup: own.winner === groupResult.winner,
+      rankCorrelation: spearmanCorrelation(own.rankings.map(([opt]) => opt), groupRanking),
+      largestDeviations: deviations.filter(d => d.score !== d.groupScore).slice(0, 3),
+    };
+  });
+
+  const weightSpread = criteria
+    .map((criterion, c) => {
+      const values = personalWeights.map(w => w[c]);
+      return { criterion, min: Math.min(...values), max: Math.max(...values) };
+    })
+    .sort((a, b) => (b.max - b.min) - (a.max - a.min));
+
+  // Highlights
+  const summary: string[] = [];
+  const dissenters = stakeholderReports.filter(s => !s.agreesWithGroup);
+  if (dissenters.length === 0) {
+    summary.push(`Everyone's own matrix picks '${groupResult.winner}'.`);
+  } else {
+    for (const dissenter of dissenters) {
+      summary.push(
+        `${dissenter.name} would pick '${dissenter.winner}' instead of '${groupResult.winner}'.`
+      );
+    }
+  }
+
+  const [mostDisputed] = cells;
+  if (mostDisputed && mostDisputed.spread > 0) {
+    const scoreList = Object.entries(mostDisputed.scores)
+      .map(([name, score]) => `${name} ${score}`)
+      .join(', ');
+    summary.push(
+      `Biggest disagreement: ${mostDisputed.option} on ${mostDisputed.criterion} (${scoreList}).`
+    );
+  }
+
+  const [widestWeight] = weightSpread;
+  if (widestWeight && widestWeight.max - widestWeight.min >= 0.1) {
+    summary.push(
+      `Importance of ${widestWeight.criterion} ranges from ` +
+      `${(widestWeight.min * 100).toFixed(0)}% to ${(widestWeight.max * 100).toFixed(0)}% weight.`
+    );
+  }
+
+  return { cells, stakeholders: stakeholderReports, weightSpread, summary };
+}
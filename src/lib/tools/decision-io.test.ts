@@ -0,0 +1,277 @@
+/**
+ * Decision Import/Export Tests
+ * ----------------------------
+ * Tests for the JSON, CSV and Markdown parsers and serializers.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeDecision, DecisionResult, type DecisionMatrixInput } from './decision-matrix';
+import {
+  DECISION_DOCUMENT_SCHEMA,
+  DECISION_SCHEMA_URL,
+  DecisionParseError,
+  detectDecisionFormat,
+  parseDecisionCsv,
+  parseDecisionJson,
+  parseDecisionMarkdown,
+  parseDecisionMatrix,
+  toDecisionCsv,
+  toDecisionJson,
+  toDecisionMarkdown,
+} from './decision-io';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const commute: DecisionMatrixInput = {
+  options: ['Bus', 'Bike', 'Car, used'],
+  criteria: ['Cost', 'Speed', 'Comfort'],
+  scores: {
+    Bus: [2, 4, 5],
+    Bike: [1, { min: 3, likely: 6, max: 7 }, null],
+    'Car, used': [8.5, 9, { mean: 8, sd: 1.5 }],
+  },
+  weights: [0.5, 0.3, 0.2],
+  directions: ['minimize', 'maximize', 'maximize'],
+};
+
+const fullInput: DecisionMatrixInput = {
+  ...commute,
+  weights: undefined,
+  pairwiseComparisons: [[1, 3, 5], [1 / 3, 1, 2], [1 / 5, 1 / 2, 1]],
+  constraints: { Cost: { max: 9 } },
+  method: 'promethee',
+  preferenceFunctions: [
+    { type: 'linear', indifference: 0.5, preference: 2 },
+    { type: 'v_shape', preference: 3 },
+    { type: 'usual' },
+  ],
+  simulation: { iterations: 200, seed: 7 },
+  imputation: 'pessimistic',
+};
+
+/** Catch a parse error so its fields can be checked */
+function parseError(parse: () => unknown): DecisionParseError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof DecisionParseError) return error;
+    throw error;
+  }
+  throw new Error('Expected a DecisionParseError');
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+describe('JSON documents', () => {
+  it('round-trips every input field', () => {
+    const { weights: _unused, ...withoutWeights } = fullInput;
+    const document = parseDecisionJson(toDecisionJson(fullInput, { title: 'Commute' }));
+    expect(document.version).toBe(1);
+    expect(document.title).toBe('Commute');
+    expect(document.matrix).toEqual(withoutWeights);
+  });
+
+  it('links the schema', () => {
+    const json = JSON.parse(toDecisionJson(commute));
+    expect(json.$schema).toBe(DECISION_SCHEMA_URL);
+    expect(DECISION_DOCUMENT_SCHEMA.$id).toBe(DECISION_SCHEMA_URL);
+  });
+
+  it('reports the line and column of syntax errors', () => {
+    const error = parseError(() => parseDecisionJson('{\n  "version": 1,\n  "matrix": }'));
+    expect(error.row).toBe(3);
+    expect(error.column).toBe(13);
+    expect(error.message).toMatch(/^Row 3, column 13: Invalid JSON/);
+  });
+
+  it('reports the path of invalid values', () => {
+    const json = JSON.parse(toDecisionJson(commute));
+    json.matrix.scores.Bus[1] = 'fast';
+    const error = parseError(() => parseDecisionJson(JSON.stringify(json)));
+    expect(error.path).toBe('matrix.scores.Bus[1]');
+    expect(error.message).toBe(
+      'matrix.scores.Bus[1]: expected a number, null, { min, likely, max } or { mean, sd }'
+    );
+  });
+
+  it('rejects unsupported versions', () => {
+    const json = JSON.parse(toDecisionJson(commute));
+    json.version = 2;
+    expect(() => parseDecisionJson(JSON.stringify(json))).toThrow(
+      'version: unsupported version 2 (this build reads version 1)'
+    );
+  });
+
+  it('rejects unknown fields and mismatched lengths', () => {
+    const json = JSON.parse(toDecisionJson(commute));
+    expect(() =>
+      parseDecisionJson(JSON.stringify({ ...json, matrix: { ...json.matrix, colour: 'red' } }))
+    ).toThrow('matrix.colour: unknown field "colour"');
+    expect(() =>
+      parseDecisionJson(JSON.stringify({ ...json, matrix: { ...json.matrix, weights: [1] } }))
+    ).toThrow('matrix.weights: expected 3 weights, got 1');
+    expect(() =>
+      parseDecisionJson(JSON.stringify({ ...json, matrix: { ...json.matrix, weights: [0.5, -0.3, 0.8] } }))
+    ).toThrow('matrix.weights[1]: expected a non-negative number');
+    expect(() =>
+      parseDecisionJson(JSON.stringify({ ...json, matrix: { ...json.matrix, options: [...json.matrix.options, 'toString'] } }))
+    ).toThrow('matrix.scores.toString: missing scores for option "toString"');
+    expect(() =>
+      parseDecisionJson(JSON.stringify({
+        ...json,
+        matrix: { ...json.matrix, preferenceFunctions: [{ type: 'usual' }, { type: 'v_shape' }, { type: 'usual' }] },
+      }))
+    ).toThrow('matrix.preferenceFunctions[1]: expected { type: "usual" }');
+  });
+});
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+describe('CSV', () => {
+  it('writes a header, weight and direction rows, then one row per option', () => {
+    expect(toDecisionCsv(commute)).toBe(
+      [
+        'Option,Cost,Speed,Comfort',
+        'Weight,0.5,0.3,0.2',
+        'Direction,minimize,maximize,maximize',
+        'Bus,2,4,5',
+        'Bike,1,3~6~7,',
+        '"Car, used",8.5,9,8±1.5',
+      ].join('\n')
+    );
+  });
+
+  it('round-trips options, scores, weights and directions', () => {
+    expect(parseDecisionCsv(toDecisionCsv(commute))).toEqual(commute);
+  });
+
+  it('round-trips a matrix without weights or directions', () => {
+    const plain = { options: ['A', 'B'], criteria: ['X'], scores: { A: [1], B: [2] } };
+    expect(parseDecisionCsv(toDecisionCsv(plain))).toEqual(plain);
+  });
+
+  it('refuses options that would read back as the weight or direction row', () => {
+    // Someone weighing which barbell set to buy
+    const gym = { options: ['Weights', 'Bands'], criteria: ['Cost'], scores: { Weights: [3], Bands: [1] } };
+    expect(() => toDecisionCsv(gym)).toThrow(
+      'Option "Weights" can\'t be written as a table row: it would read back as the weight row. Rename it or export as JSON.'
+    );
+    expect(() => toDecisionMarkdown({ ...gym, options: [' direction ', 'Bands'] })).toThrow(/read back as the direction row/);
+    expect(parseDecisionJson(toDecisionJson(gym)).matrix).toEqual(gym);
+  });
+
+  it('reads tab-separated text pasted from a spreadsheet', () => {
+    const pasted = 'Option\tCost\tSpeed\r\nweights\t0.6\t0.4\r\nBus\t2\t4\r\nBike\t1\t6\t\t\r\n';
+    const input = parseDecisionCsv(pasted);
+    expect(input.weights).toEqual([0.6, 0.4]);
+    expect(input.scores).toEqual({ Bus: [2, 4], Bike: [1, 6] });
+    expect((makeDecision(input) as DecisionResult).winner).toBe('Bike');
+  });
+
+  it('reports the row and column of a bad score', () => {
+    const error = parseError(() => parseDecisionCsv('Option,Cost,Speed\nBus,2,fast'));
+    expect(error.row).toBe(2);
+    expect(error.column).toBe(3);
+    expect(error.message).toBe('Row 2, column 3: "fast" is not a number');
+  });
+
+  it('reports bad weights, directions and extra cells', () => {
+    expect(() => parseDecisionCsv('Option,Cost\nWeight,heavy\nBus,2')).toThrow(
+      'Row 2, column 2: weight for "Cost" must be a non-negative number, got "heavy"'
+    );
+    expect(() => parseDecisionCsv('Option,Cost\nDirection,down\nBus,2')).toThrow(
+      'Row 2, column 2: direction for "Cost" must be "maximize" or "minimize", got "down"'
+    );
+    expect(() => parseDecisionCsv('Option,Cost\nBus,2,3')).toThrow(
+      'Row 2, column 3: expected 1 values (one per criterion), got 2'
+    );
+  });
+
+  it('rejects duplicate options and criteria', () => {
+    expect(() => parseDecisionCsv('Option,Cost,Cost\nBus,1,2')).toThrow(
+      'Row 1, column 3: duplicate criterion "Cost"'
+    );
+    expect(() => parseDecisionCsv('Option,Cost\nBus,1\nBus,2')).toThrow(
+      'Row 3, column 1: duplicate option "Bus"'
+    );
+    expect(parseDecisionCsv('Option,Cost\nconstructor,1').options).toEqual(['constructor']);
+  });
+
+  it('rejects malformed estimates', () => {
+    expect(() => parseDecisionCsv('Option,Cost\nBus,9~5~1')).toThrow(
+      'Row 2, column 2: "9~5~1" must have min <= likely <= max'
+    );
+  });
+});
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+describe('Markdown tables', () => {
+  it('writes an aligned GitHub table', () => {
+    const markdown = toDecisionMarkdown({
+      options: ['A|B', 'C'],
+      criteria: ['X'],
+      scores: { 'A|B': [1], C: [null] },
+    });
+    expect(markdown).toBe(
+      [
+        '| Option | X   |',
+        '| ------ | --: |',
+        '| A\\|B   | 1   |',
+        '| C      | —   |',
+      ].join('\n')
+    );
+  });
+
+  it('round-trips options, scores, weights and directions', () => {
+    expect(parseDecisionMarkdown(toDecisionMarkdown(commute))).toEqual(commute);
+  });
+
+  it('ignores surrounding text', () => {
+    const input = parseDecisionMarkdown(
+      'Our options:\n\n| Option | Cost |\n|---|---|\n| Bus | 2 |\n\nNotes below.\n| Other | 1 |'
+    );
+    expect(input.options).toEqual(['Bus']);
+  });
+
+  it('reports the line and column of a bad cell', () => {
+    const error = parseError(() =>
+      parseDecisionMarkdown('Intro\n\n| Option | Cost |\n|---|---|\n| Bus | cheap |')
+    );
+    expect(error.message).toBe('Row 5, column 2: "cheap" is not a number');
+  });
+
+  it('requires the separator row', () => {
+    expect(() => parseDecisionMarkdown('| Option | Cost |\n| Bus | 2 |')).toThrow(
+      'Row 2: missing the |---|---| separator under the header'
+    );
+  });
+});
+
+// =============================================================================
+// Auto-detect
+// =============================================================================
+
+describe('parseDecisionMatrix()', () => {
+  it('detects the format', () => {
+    expect(detectDecisionFormat(toDecisionJson(commute))).toBe('json');
+    expect(detectDecisionFormat(toDecisionMarkdown(commute))).toBe('markdown');
+    expect(detectDecisionFormat(toDecisionCsv(commute))).toBe('csv');
+  });
+
+  it('parses any format into analyzable input', () => {
+    for (const text of [toDecisionJson(commute), toDecisionCsv(commute), toDecisionMarkdown(commute)]) {
+      expect(parseDecisionMatrix(text)).toEqual(commute);
+    }
+  });
+});
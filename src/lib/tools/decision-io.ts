@@ -0,0 +1,870 @@
+/**
+ * Decision Matrix Import / Export
+ * -------------------------------
+ * Parsers and serializers around DecisionMatrixInput, so matrices built in a
+ * spreadsheet can be pasted in and analyzed directly.
+ *
+ * Formats:
+ * - JSON: a versioned document ({ version, title?, matrix }) with a JSON Schema.
+ *   Round-trips every DecisionMatrixInput field.
+ * - CSV: one row per option, with optional "Weight" and "Direction" rows under
+ *   the header. Tab-separated text (pasted from a sheet) is detected automatically.
+ * - Markdown: a GitHub-style table with the same layout as the CSV.
+ *
+ * CSV and Markdown carry options, criteria, scores (including missing and
+ * uncertain cells), weights and directions; other settings are JSON-only.
+ *
+ * Usage:
+ *   import { parseDecisionMatrix, toDecisionCsv } from '../lib/tools/decision-io';
+ *
+ *   const input = parseDecisionMatrix(`Option,Cost,Speed
+ *   Weight,0.6,0.4
+ *   Direction,minimize,maximize
+ *   Bus,2,4
+ *   Bike,1,6`);
+ *
+ *   makeDecision(input);
+ *   toDecisionCsv(input);  // Same text back
+ *
+ * Cell values: a number, blank (missing), "min~likely~max" (triangular
+ * estimate) or "mean±sd" (normal estimate).
+ */
+
+import { debug } from '../debug';
+import {
+  MAX_SIMULATION_ITERATIONS,
+  type CriterionDirection,
+  type DecisionMatrixInput,
+  type PreferenceFunction,
+  type ScoreCell,
+  type ScoreValue,
+} from './decision-matrix';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export type DecisionFormat = 'json' | 'csv' | 'markdown';
+
+export interface DecisionDocument {
+  version: number;
+  title?: string;
+  matrix: DecisionMatrixInput;
+}
+
+/** Where a parse error was found. Rows and columns are 1-based. */
+export interface ParseLocation {
+  /** CSV record or Markdown/JSON line */
+  row?: number;
+  column?: number;
+  /** Path to the offending value in a JSON document, e.g. "matrix.scores.Bus[1]" */
+  path?: string;
+}
+
+/**
+ * Thrown for malformed input; the message starts with the location.
+ */
+export class DecisionParseError extends Error {
+  readonly row?: number;
+  readonly column?: number;
+  readonly path?: string;
+
+  constructor(message: string, location: ParseLocation = {}) {
+    super(`${describeLocation(location)}${message}`);
+    this.name = 'DecisionParseError';
+    this.row = location.row;
+    this.column = location.column;
+    this.path = location.path;
+  }
+}
+
+/** Current JSON document version. */
+export const DECISION_DOCUMENT_VERSION = 1;
+
+/** Where the JSON Schema for the document format is published. */
+export const DECISION_SCHEMA_URL = 'https://howtowincapitalism.com/schemas/decision-matrix.v1.json';
+
+const scoreSchema = {
+  oneOf: [
+    { type: 'number' },
+    { type: 'null' },
+    {
+      type: 'object',
+      required: ['min', 'likely', 'max'],
+      properties: { min: { type: 'number' }, likely: { type: 'number' }, max: { type: 'number' } },
+      additionalProperties: false,
+    },
+    {
+      type: 'object',
+      required: ['mean', 'sd'],
+      properties: { mean: { type: 'number' }, sd: { type: 'number', minimum: 0 } },
+      additionalProperties: false,
+    },
+  ],
+};
+
+const preferenceFunctionSchema = {
+  oneOf: [
+    {
+      type: 'object',
+      required: ['type'],
+      properties: { type: { const: 'usual' } },
+      additionalProperties: false,
+    },
+    {
+      type: 'object',
+      required: ['type', 'preference'],
+      properties: { type: { const: 'v_shape' }, preference: { type: 'number', exclusiveMinimum: 0 } },
+      additionalProperties: false,
+    },
+    {
+      type: 'object',
+      required: ['type', 'indifference', 'preference'],
+      properties: {
+        type: { const: 'linear' },
+        indifference: { type: 'number', minimum: 0 },
+        preference: { type: 'number', exclusiveMinimum: 0 },
+      },
+      additionalProperties: false,
+    },
+  ],
+};
+
+/** JSON Schema (draft 2020-12) for version 1 decision documents. */
+export const DECISION_DOCUMENT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: DECISION_SCHEMA_URL,
+  title: 'Decision Matrix Document',
+  type: 'object',
+  required: ['version', 'matrix'],
+  properties: {
+    $schema: { type: 'string' },
+    version: { const: DECISION_DOCUMENT_VERSION },
+    title: { type: 'string' },
+    matrix: {
+      type: 'object',
+      required: ['options', 'criteria', 'scores'],
+      properties: {
+        options: { type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true },
+        criteria: { type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true },
+        scores: { type: 'object', additionalProperties: { type: 'array', items: scoreSchema } },
+        weights: { type: 'array', items: { type: 'number', minimum: 0 } },
+        pairwiseComparisons: {
+          type: 'array',
+          items: { type: 'array', items: { type: 'number', exclusiveMinimum: 0 } },
+        },
+        directions: { type: 'array', items: { enum: ['maximize', 'minimize'] } },
+        constraints: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: { min: { type: 'number' }, max: { type: 'number' } },
+            additionalProperties: false,
+          },
+        },
+        method: {
+          enum: ['weighted', 'normalized', 'ranking', 'best_worst', 'topsis', 'promethee', 'maximin', 'minimax_regret'],
+        },
+        preferenceFunctions: { type: 'array', items: preferenceFunctionSchema },
+        simulation: {
+          type: 'object',
+          properties: {
+            iterations: { type: 'integer', minimum: 1, maximum: MAX_SIMULATION_ITERATIONS },
+            seed: { type: 'integer' },
+          },
+          additionalProperties: false,
+        },
+        imputation: { enum: ['mean', 'pessimistic', 'optimistic', 'exclude'] },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+const MATRIX_KEYS = Object.keys(DECISION_DOCUMENT_SCHEMA.properties.matrix.properties);
+const METHODS: readonly string[] = DECISION_DOCUMENT_SCHEMA.properties.matrix.properties.method.enum;
+const IMPUTATIONS: readonly string[] =
+  DECISION_DOCUMENT_SCHEMA.properties.matrix.properties.imputation.enum;
+
+/** First-column labels of the optional rows under a CSV/Markdown header */
+const WEIGHT_LABELS = ['weight', 'weights'];
+const DIRECTION_LABELS = ['direction', 'directions'];
+/** Cell text read as a missing score */
+const MISSING_MARKERS = ['', '-', '—', 'n/a', 'na'];
+
+// =============================================================================
+// Auto-detect
+// =============================================================================
+
+/**
+ * Guess the format of pasted text: JSON, a Markdown table, or CSV/TSV.
+ */
+export function detectDecisionFormat(text: string): DecisionFormat {
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('{')) return 'json';
+  if (trimmed.startsWith('|')) return 'markdown';
+  return 'csv';
+}
+
+/**
+ * Parse a matrix in any supported format, ready for makeDecision().
+ *
+ * @throws DecisionParseError with the row and column of the first problem
+ */
+export function parseDecisionMatrix(text: string, format = detectDecisionFormat(text)): DecisionMatrixInput {
+  switch (format) {
+    case 'json':
+      return parseDecisionJson(text).matrix;
+    case 'markdown':
+      return parseDecisionMarkdown(text);
+    case 'csv':
+      return parseDecisionCsv(text);
+    default:
+      throw new Error(`Unknown decision matrix format: ${format}`);
+  }
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+/**
+ * Serialize a matrix as a versioned JSON document.
+ */
+export function toDecisionJson(
+  matrix: DecisionMatrixInput,
+  options: { title?: string; indent?: number } = {}
+): string {
+  const { title, indent = 2 } = options;
+  const document = {
+    $schema: DECISION_SCHEMA_URL,
+    version: DECISION_DOCUMENT_VERSION,
+    ...(title !== undefined && { title }),
+    matrix,
+  };
+  return JSON.stringify(document, null, indent);
+}
+
+/**
+ * Parse and validate a versioned JSON document.
+ *
+ * @throws DecisionParseError with the line and column of a syntax error, or
+ *   the path of an invalid value
+ */
+export function parseDecisionJson(text: string): DecisionDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = jsonErrorPosition(text, message);
+    const location = position === null ? {} : lineAndColumn(text, position);
+    const reason = message
+      .replace(/, \.\.\.?".*$|, ".*$/s, '')
+      .replace(/ (in JSON )?at position \d+.*$/, '');
+    debug.error(MODULE, 'JSON syntax error', { message, ...location });
+    throw new DecisionParseError(`Invalid JSON: ${reason}`, location);
+  }
+
+  const document = expectObject(data, '');
+  for (const key of Object.keys(document)) {
+    if (!['$schema', 'version', 'title', 'matrix'].includes(key)) {
+      fail(`unknown field "${key}"`, key);
+    }
+  }
+
+  if (document.version === undefined) {
+    fail('missing "version"', 'version');
+  }
+  if (document.version !== DECISION_DOCUMENT_VERSION) {
+    fail(
+      `unsupported version ${JSON.stringify(document.version)} ` +
+      `(this build reads version ${DECISION_DOCUMENT_VERSION})`,
+      'version'
+    );
+  }
+  if (document.title !== undefined && typeof document.title !== 'string') {
+    fail('expected a string', 'title');
+  }
+
+  const matrix = readMatrix(expectObject(document.matrix, 'matrix'));
+  debug.log(MODULE, 'Parsed JSON decision document', {
+    options: matrix.options.length,
+    criteria: matrix.criteria.length,
+  });
+
+  return {
+    version: DECISION_DOCUMENT_VERSION,
+    ...(document.title !== undefined && { title: document.title as string }),
+    matrix,
+  };
+}
+
+function readMatrix(raw: Record<string, unknown>): DecisionMatrixInput {
+  for (const key of Object.keys(raw)) {
+    if (!MATRIX_KEYS.includes(key)) {
+      fail(`unknown field "${key}"`, `matrix.${key}`);
+    }
+  }
+
+  const options = expectNames(raw.options, 'matrix.options');
+  const criteria = expectNames(raw.criteria, 'matrix.criteria');
+
+  const rawScores = expectObject(raw.scores, 'matrix.scores');
+  const scores: Record<string, ScoreCell[]> = {};
+  for (const option of options) {
+    const path = `matrix.scores.${option}`;
+    if (!Object.hasOwn(rawScores, option)) fail(`missing scores for option "${option}"`, path);
+    const row = expectArray(rawScores[option], path);
+    if (row.length !== criteria.length) {
+      fail(`expected ${criteria.length} scores (one per criterion), got ${row.length}`, path);
+    }
+    scores[option] = row.map((value, i) => expectScore(value, `${path}[${i}]`));
+  }
+  for (const option of Object.keys(rawScores)) {
+    if (!options.includes(option)) fail(`"${option}" is not in options`, `matrix.scores.${option}`);
+  }
+
+  const matrix: DecisionMatrixInput = { options, criteria, scores };
+
+  if (raw.weights !== undefined) {
+    const weights = expectArray(raw.weights, 'matrix.weights');
+    if (weights.length !== criteria.length) {
+      fail(`expected ${criteria.length} weights, got ${weights.length}`, 'matrix.weights');
+    }
+    matrix.weights = weights.map((w, i) => {
+      const weight = expectNumber(w, `matrix.weights[${i}]`);
+      if (weight < 0) fail('expected a non-negative number', `matrix.weights[${i}]`);
+      return weight;
+    });
+  }
+  if (raw.pairwiseComparisons !== undefined) {
+    matrix.pairwiseComparisons = expectArray(raw.pairwiseComparisons, 'matrix.pairwiseComparisons')
+      .map((row, i) =>
+        expectArray(row, `matrix.pairwiseComparisons[${i}]`)
+          .map((v, j) => expectNumber(v, `matrix.pairwiseComparisons[${i}][${j}]`))
+      );
+  }
+  if (raw.directions !== undefined) {
+    const directions = expectArray(raw.directions, 'matrix.directions');
+    if (directions.length !== criteria.length) {
+      fail(`expected ${criteria.length} directions, got ${directions.length}`, 'matrix.directions');
+    }
+    matrix.directions = directions.map((d, i) => expectDirection(d, `matrix.directions[${i}]`));
+  }
+  if (raw.constraints !== undefined) {
+    const constraints = expectObject(raw.constraints, 'matrix.constraints');
+    matrix.constraints = {};
+    for (const [criterion, value] of Object.entries(constraints)) {
+      const path = `matrix.constraints.${criterion}`;
+      const bounds = expectObject(value, path);
+      matrix.constraints[criterion] = {
+        ...(bounds.min !== undefined && { min: expectNumber(bounds.min, `${path}.min`) }),
+        ...(bounds.max !== undefined && { max: expectNumber(bounds.max, `${path}.max`) }),
+      };
+    }
+  }
+  if (raw.method !== undefined) {
+    if (typeof raw.method !== 'string' || !METHODS.includes(raw.method)) {
+      fail(`expected one of ${METHODS.join(', ')}`, 'matrix.method');
+    }
+    matrix.method = raw.method as DecisionMatrixInput['method'];
+  }
+  if (raw.preferenceFunctions !== undefined) {
+    const functions = expectArray(raw.preferenceFunctions, 'matrix.preferenceFunctions');
+    if (functions.length !== criteria.length) {
+      fail(
+        `expected ${criteria.length} preference functions, got ${functions.length}`,
+        'matrix.preferenceFunctions'
+      );
+    }
+    matrix.preferenceFunctions = functions.map((fn, i) =>
+      expectPreferenceFunction(fn, `matrix.preferenceFunctions[${i}]`)
+    );
+  }
+  if (raw.simulation !== undefined) {
+    const simulation = expectObject(raw.simulation, 'matrix.simulation');
+    if (typeof simulation.iterations === 'number' && simulation.iterations > MAX_SIMULATION_ITERATIONS) {
+      fail(`expected at most ${MAX_SIMULATION_ITERATIONS} iterations`, 'matrix.simulation.iterations');
+    }
+    matrix.simulation = {
+      ...(simulation.iterations !== undefined && {
+        iterations: expectNumber(simulation.iterations, 'matrix.simulation.iterations'),
+      }),
+      ...(simulation.seed !== undefined && {
+        seed: expectNumber(simulation.seed, 'matrix.simulation.seed'),
+      }),
+    };
+  }
+  if (raw.imputation !== undefined) {
+    if (typeof raw.imputation !== 'string' || !IMPUTATIONS.includes(raw.imputation)) {
+      fail(`expected one of ${IMPUTATIONS.join(', ')}`, 'matrix.imputation');
+    }
+    matrix.imputation = raw.imputation as DecisionMatrixInput['imputation'];
+  }
+
+  return matrix;
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Serialize options, criteria, scores, weights and directions as CSV.
+ *
+ * @throws Error if an option is named "Weight(s)" or "Direction(s)"
+ */
+export function toDecisionCsv(matrix: DecisionMatrixInput, delimiter = ','): string {
+  return toRows(matrix)
+    .map(row => row.map(cell => quoteCsv(cell, delimiter)).join(delimiter))
+    .join('\n');
+}
+
+/**
+ * Parse CSV (or tab-separated text pasted from a spreadsheet).
+ *
+ * @throws DecisionParseError with the row and column of the first problem
+ */
+export function parseDecisionCsv(text: string): DecisionMatrixInput {
+  const clean = text.replace(/^\uFEFF/, '');
+  const firstLine = clean.split(/\r?\n/, 1)[0];
+  // Spreadsheets paste as tab-separated; some locales export with semicolons
+  let delimiter = ',';
+  if (firstLine.includes('\t')) {
+    delimiter = '\t';
+  } else if (firstLine.includes(';') && !firstLine.includes(',')) {
+    delimiter = ';';
+  }
+
+  const records = splitCsv(clean, delimiter)
+    .map((cells, i) => ({ row: i + 1, cells }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+
+  debug.log(MODULE, 'Parsing CSV decision matrix', { rows: records.length, delimiter });
+  return fromRows(records);
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * Serialize options, criteria, scores, weights and directions as a
+ * GitHub-style Markdown table.
+ *
+ * @throws Error if an option is named "Weight(s)" or "Direction(s)"
+ */
+export function toDecisionMarkdown(matrix: DecisionMatrixInput): string {
+  const rows = toRows(matrix).map(row =>
+    row.map((cell, i) => (i > 0 && cell === '' ? '—' : cell.replace(/\|/g, '\\|')))
+  );
+  const widths = rows[0].map((_, col) => Math.max(3, ...rows.map(row => row[col].length)));
+  const line = (cells: string[]) =>
+    `| ${cells.map((cell, col) => cell.padEnd(widths[col])).join(' | ')} |`;
+
+  const separator = `| ${widths.map((w, col) => (col === 0 ? '-'.repeat(w) : '-'.repeat(w - 1) + ':')).join(' | ')} |`;
+  return [line(rows[0]), separator, ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Parse a GitHub-style Markdown table. Text before and after the table is ignored.
+ *
+ * @throws DecisionParseError with the line and column of the first problem
+ */
+export function parseDecisionMarkdown(text: string): DecisionMatrixInput {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const records: Array<{ row: number; cells: string[] }> = [];
+  let separatorSeen = false;
+  let tableEnded = false;
+
+  // Only the first table counts
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (tableEnded) return;
+    if (!line.startsWith('|')) {
+      tableEnded = records.length > 0;
+      return;
+    }
+    const cells = splitMarkdownRow(line);
+    if (cells.every(cell => /^:?-{3,}:?$/.test(cell.trim()))) {
+      separatorSeen = true;
+      return;
+    }
+    records.push({ row: i + 1, cells });
+  });
+
+  if (records.length > 0 && !separatorSeen) {
+    throw new DecisionParseError('missing the |---|---| separator under the header', {
+      row: records[0].row + 1,
+    });
+  }
+
+  debug.log(MODULE, 'Parsing Markdown decision matrix', { rows: records.length });
+  return fromRows(records);
+}
+
+// =============================================================================
+// Shared table layout
+// =============================================================================
+
+/**
+ * @throws Error if an option is named like the weight or direction row,
+ *   since it would read back as that row rather than as an option
+ */
+function toRows(matrix: DecisionMatrixInput): string[][] {
+  for (const option of matrix.options) {
+    const kind = option.trim().toLowerCase();
+    if (WEIGHT_LABELS.includes(kind) || DIRECTION_LABELS.includes(kind)) {
+      throw new Error(
+        `Option "${option}" can't be written as a table row: it would read back as the ${kind.replace(/s$/, '')} row. ` +
+        `Rename it or export as JSON.`
+      );
+    }
+  }
+
+  const rows: string[][] = [['Option', ...matrix.criteria]];
+  if (matrix.weights) {
+    rows.push(['Weight', ...matrix.weights.map(String)]);
+  }
+  if (matrix.directions) {
+    rows.push(['Direction', ...matrix.directions]);
+  }
+  for (const option of matrix.options) {
+    rows.push([option, ...matrix.scores[option].map(formatScore)]);
+  }
+  return rows;
+}
+
+function fromRows(records: Array<{ row: number; cells: string[] }>): DecisionMatrixInput {
+  if (records.length === 0) {
+    throw new DecisionParseError('no table found');
+  }
+
+  const [header, ...body] = records;
+  const criteria = header.cells.slice(1).map(cell => cell.trim());
+  while (criteria.length > 0 && criteria[criteria.length - 1] === '') {
+    criteria.pop();
+  }
+  if (criteria.length === 0) {
+    throw new DecisionParseError('the header needs at least one criterion after the option column', {
+      row: header.row,
+    });
+  }
+  criteria.forEach((criterion, i) => {
+    if (criterion === '') {
+      throw new DecisionParseError('criterion name is empty', { row: header.row, column: i + 2 });
+    }
+    if (criteria.indexOf(criterion) !== i) {
+      throw new DecisionParseError(`duplicate criterion "${criterion}"`, { row: header.row, column: i + 2 });
+    }
+  });
+
+  const matrix: DecisionMatrixInput = { options: [], criteria, scores: {} };
+
+  for (const { row, cells } of body) {
+    const label = cells[0].trim();
+    const values = cells.slice(1).map(cell => cell.trim());
+
+    // Tolerate trailing empty cells from spreadsheet exports
+    while (values.length > criteria.length && values[values.length - 1] === '') {
+      values.pop();
+    }
+    if (values.length > criteria.length) {
+      throw new DecisionParseError(
+        `expected ${criteria.length} values (one per criterion), got ${values.length}`,
+        { row, column: criteria.length + 2 }
+      );
+    }
+    while (values.length < criteria.length) {
+      values.push('');
+    }
+
+    const kind = label.toLowerCase();
+    if (WEIGHT_LABELS.includes(kind)) {
+      if (matrix.weights || matrix.options.length > 0) {
+        throw new DecisionParseError('the weight row must come once, before the options', { row, column: 1 });
+      }
+      matrix.weights = values.map((value, i) => {
+        const weight = Number(value);
+        if (value === '' || !Number.isFinite(weight) || weight < 0) {
+          throw new DecisionParseError(
+            `weight for "${criteria[i]}" must be a non-negative number, got "${value}"`,
+            { row, column: i + 2 }
+          );
+        }
+        return weight;
+      });
+    } else if (DIRECTION_LABELS.includes(kind)) {
+      if (matrix.directions || matrix.options.length > 0) {
+        throw new DecisionParseError('the direction row must come once, before the options', { row, column: 1 });
+      }
+      matrix.directions = values.map((value, i) => {
+        const direction = value.toLowerCase();
+        if (direction !== 'maximize' && direction !== 'minimize') {
+          throw new DecisionParseError(
+            `direction for "${criteria[i]}" must be "maximize" or "minimize", got "${value}"`,
+            { row, column: i + 2 }
+          );
+        }
+        return direction as CriterionDirection;
+      });
+    } else {
+      if (label === '') {
+        throw new DecisionParseError('option name is empty', { row, column: 1 });
+      }
+      if (Object.hasOwn(matrix.scores, label)) {
+        throw new DecisionParseError(`duplicate option "${label}"`, { row, column: 1 });
+      }
+      matrix.options.push(label);
+      matrix.scores[label] = values.map((value, i) => parseScore(value, { row, column: i + 2 }));
+    }
+  }
+
+  if (matrix.options.length === 0) {
+    throw new DecisionParseError('no option rows found under the header', { row: header.row + 1 });
+  }
+
+  return matrix;
+}
+
+/**
+ * Format a score cell for CSV/Markdown: "7", "" (missing), "4~7~9" or "8±3".
+ */
+function formatScore(value: ScoreCell): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  if ('likely' in value) return `${value.min}~${value.likely}~${value.max}`;
+  return `${value.mean}±${value.sd}`;
+}
+
+function parseScore(text: string, location: ParseLocation): ScoreCell {
+  if (MISSING_MARKERS.includes(text.toLowerCase())) {
+    return null;
+  }
+
+  const parts = (separator: string) => text.split(separator).map(part => Number(part.trim()));
+
+  if (text.includes('~')) {
+    const [min, likely, max, ...rest] = parts('~');
+    if (rest.length > 0 || ![min, likely, max].every(Number.isFinite)) {
+      throw new DecisionParseError(`"${text}" is not a valid min~likely~max estimate`, location);
+    }
+    if (!(min <= likely && likely <= max)) {
+      throw new DecisionParseError(`"${text}" must have min <= likely <= max`, location);
+    }
+    return { min, likely, max };
+  }
+
+  if (text.includes('±')) {
+    const [mean, sd, ...rest] = parts('±');
+    if (rest.length > 0 || ![mean, sd].every(Number.isFinite) || sd < 0) {
+      throw new DecisionParseError(`"${text}" is not a valid mean±sd estimate`, location);
+    }
+    return { mean, sd };
+  }
+
+  const value = Number(text);
+  if (!Number.isFinite(value)) {
+    throw new DecisionParseError(`"${text}" is not a number`, location);
+  }
+  return value;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeLocation({ row, column, path }: ParseLocation): string {
+  if (row !== undefined && column !== undefined) return `Row ${row}, column ${column}: `;
+  if (row !== undefined) return `Row ${row}: `;
+  if (path) return `${path}: `;
+  return '';
+}
+
+/**
+ * Find the offset of a JSON.parse error. Engines report it differently:
+ * "at position N", "line L column C", or (V8) a quoted excerpt of the
+ * ten characters either side of the offending token.
+ */
+function jsonErrorPosition(text: string, message: string): number | null {
+  const position = message.match(/position (\d+)/);
+  if (position) return Number(position[1]);
+
+  const lineColumn = message.match(/line (\d+) column (\d+)/);
+  if (lineColumn) {
+    const lines = text.split('\n').slice(0, Number(lineColumn[1]) - 1);
+    return lines.reduce((offset, line) => offset + line.length + 1, 0) + Number(lineColumn[2]) - 1;
+  }
+
+  if (/end of (JSON|data)/i.test(message)) return text.length;
+
+  const excerpt = message.match(/Unexpected token '(.+?)', (\.\.\.)?"(.*?)(\.\.\.)?" is not valid JSON/s);
+  if (excerpt) {
+    const [, token, leading, context] = excerpt;
+    const start = text.indexOf(context);
+    if (start !== -1) return start + (leading ? 10 : context.indexOf(token));
+  }
+  return null;
+}
+
+function lineAndColumn(text: string, position: number): ParseLocation {
+  const before = text.slice(0, position).split('\n');
+  return { row: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Split CSV text into records, honoring quoted fields (RFC 4180).
+ */
+function splitCsv(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new DecisionParseError('unterminated quoted field', { row: records.length + 1 });
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function quoteCsv(cell: string, delimiter: string): string {
+  if (cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim()) {
+    return `"${cell.replace(/"/g, '""')}"`;
+  }
+  return cell;
+}
+
+function splitMarkdownRow(line: string): string[] {
+  const inner = line.replace(/^\|/, '').replace(/\|$/, '');
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '\\' && inner[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (inner[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += inner[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function fail(message: string, path: string): never {
+  debug.error(MODULE, `Invalid decision document at ${path || '(root)'}: ${message}`);
+  throw new DecisionParseError(message, { path: path || undefined });
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail('expected an object', path);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail('expected an array', path);
+  return value as unknown[];
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail('expected a number', path);
+  return value as number;
+}
+
+function expectNames(value: unknown, path: string): string[] {
+  const names = expectArray(value, path);
+  if (names.length === 0) fail('expected at least one entry', path);
+  names.forEach((name, i) => {
+    if (typeof name !== 'string' || name.trim() === '') fail('expected a non-empty string', `${path}[${i}]`);
+    if (names.indexOf(name) !== i) fail(`duplicate "${name}"`, `${path}[${i}]`);
+  });
+  return names as string[];
+}
+
+function expectDirection(value: unknown, path: string): CriterionDirection {
+  if (value !== 'maximize' && value !== 'minimize') fail('expected "maximize" or "minimize"', path);
+  return value as CriterionDirection;
+}
+
+function expectPreferenceFunction(value: unknown, path: string): PreferenceFunction {
+  const fn = expectObject(value, path);
+  const keys = Object.keys(fn).sort().join(',');
+  if (fn.type === 'usual' && keys === 'type') {
+    return { type: 'usual' };
+  }
+  if (fn.type === 'v_shape' && keys === 'preference,type') {
+    return { type: 'v_shape', preference: expectNumber(fn.preference, `${path}.preference`) };
+  }
+  if (fn.type === 'linear' && keys === 'indifference,preference,type') {
+    return {
+      type: 'linear',
+      indifference: expectNumber(fn.indifference, `${path}.indifference`),
+      preference: expectNumber(fn.preference, `${path}.preference`),
+    };
+  }
+  return fail(
+    'expected { type: "usual" }, { type: "v_shape", preference } or ' +
+    '{ type: "linear", indifference, preference }',
+    path
+  );
+}
+
+function expectScore(value: unknown, path: string): ScoreCell {
+  if (value === null) return null;
+  if (typeof value === 'number') return expectNumber(value, path);
+  const invalid = 'expected a number, null, { min, likely, max } or { mean, sd }';
+  if (typeof value !== 'object' || Array.isArray(value)) return fail(invalid, path);
+  const cell = value as Record<string, unknown>;
+  const keys = Object.keys(cell).sort().join(',');
+  if (keys === 'likely,max,min') {
+    return {
+      min: expectNumber(cell.min, `${path}.min`),
+      likely: expectNumber(cell.likely, `${path}.likely`),
+      max: expectNumber(cell.max, `${path}.max`),
+    } satisfies ScoreValue;
+  }
+  if (keys === 'mean,sd') {
+    return {
+      mean: expectNumber(cell.mean, `${path}.mean`),
+      sd: expectNumber(cell.sd, `${path}.sd`),
+    } satisfies ScoreValue;
+  }
+  return fail(invalid, path);
+}
@@ -0,0 +1,142 @@
+/**
+ * Decision Permalink Tests
+ * ------------------------
+ * Tests for encoding matrices into shareable links and decoding them safely.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DecisionMatrixInput } from './decision-matrix';
+import {
+  DECISION_LINK_PARAM,
+  DecisionLinkError,
+  buildDecisionPermalink,
+  decodeDecisionLink,
+  encodeDecisionLink,
+  type DecisionLinkProblem,
+} from './decision-link';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const housing: DecisionMatrixInput = {
+  options: ['Rent Apartment', 'Buy Condo', 'Buy House'],
+  criteria: ['Monthly Cost', 'Flexibility', 'Wealth Building', 'Space'],
+  scores: {
+    'Rent Apartment': [1800, 10, 2, 4],
+    'Buy Condo': [2400, 4, { min: 5, likely: 7, max: 8 }, 6],
+    'Buy House': [3100, 3, 9, null],
+  },
+  weights: [0.3, 0.2, 0.3, 0.2],
+  directions: ['minimize', 'maximize', 'maximize', 'maximize'],
+  method: 'topsis',
+};
+
+/** Decode and return the problem code of the error */
+async function problemWith(token: string): Promise<DecisionLinkProblem> {
+  try {
+    await decodeDecisionLink(token);
+  } catch (error) {
+    if (error instanceof DecisionLinkError) return error.problem;
+    throw error;
+  }
+  throw new Error('Expected a DecisionLinkError');
+}
+
+/** Flip one bit of the payload without breaking the base64url alphabet */
+function tamper(token: string): string {
+  const [version, payload] = token.split('.');
+  const i = Math.floor(payload.length / 2);
+  const swapped = payload[i] === 'A' ? 'B' : 'A';
+  return `${version}.${payload.slice(0, i)}${swapped}${payload.slice(i + 1)}`;
+}
+
+// =============================================================================
+// Round Trip
+// =============================================================================
+
+describe('decision links', () => {
+  it('round-trips a matrix and title', async () => {
+    const token = await encodeDecisionLink(housing, { title: 'Where should we live?' });
+    expect(token).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    const document = await decodeDecisionLink(token);
+    expect(document.title).toBe('Where should we live?');
+    expect(document.matrix).toEqual(housing);
+  });
+
+  it('compresses repetitive matrices', async () => {
+    const options = Array.from({ length: 20 }, (_, i) => `Option number ${i}`);
+    const matrix: DecisionMatrixInput = {
+      options,
+      criteria: ['Cost', 'Quality', 'Speed'],
+      scores: Object.fromEntries(options.map(o => [o, [5, 5, 5]])),
+    };
+    const token = await encodeDecisionLink(matrix);
+    expect(token.length).toBeLessThan(JSON.stringify(matrix).length / 2);
+  });
+
+  it('builds a permalink to the decide page', async () => {
+    const url = new URL(await buildDecisionPermalink(housing, { origin: 'http://localhost:4321' }));
+    expect(url.origin).toBe('http://localhost:4321');
+    expect(url.pathname).toBe('/tools/decide/');
+    const document = await decodeDecisionLink(url.searchParams.get(DECISION_LINK_PARAM)!);
+    expect(document.matrix.options).toEqual(housing.options);
+  });
+});
+
+// =============================================================================
+// Bad Links
+// =============================================================================
+
+describe('decodeDecisionLink() errors', () => {
+  it('rejects text that is not a token', async () => {
+    expect(await problemWith('')).toBe('malformed');
+    expect(await problemWith('hello world')).toBe('malformed');
+    expect(await problemWith('1.')).toBe('malformed');
+    expect(await problemWith('1.AAA')).toBe('malformed');
+  });
+
+  it('rejects links from a newer format', async () => {
+    const token = await encodeDecisionLink(housing);
+    expect(await problemWith(token.replace(/^1\./, '2.'))).toBe('unsupported_version');
+  });
+
+  it('detects tampered and truncated payloads', async () => {
+    const token = await encodeDecisionLink(housing);
+    expect(await problemWith(tamper(token))).toBe('checksum');
+    expect(await problemWith(token.slice(0, -4))).toBe('checksum');
+  });
+
+  it('rejects well-formed links without a usable matrix', async () => {
+    const token = await encodeDecisionLink({ ...housing, weights: [1] });
+    expect(await problemWith(token)).toBe('invalid_matrix');
+    await expect(decodeDecisionLink(token)).rejects.toThrow(/matrix\.weights: expected 4 weights, got 1/);
+  });
+
+  it('refuses oversized links', async () => {
+    expect(await problemWith(`1.${'A'.repeat(20_000)}`)).toBe('too_large');
+  });
+
+  it('refuses short links that ask for too much work', async () => {
+    // Both compress to a few hundred characters
+    const options = Array.from({ length: 9 }, (_, i) => `Option ${i}`);
+    const crowded = await encodeDecisionLink({
+      options,
+      criteria: ['Cost'],
+      scores: Object.fromEntries(options.map(o => [o, [1]])),
+    });
+    expect(await problemWith(crowded)).toBe('too_large');
+    await expect(decodeDecisionLink(crowded)).rejects.toThrow(/up to 8 options and 8 criteria/);
+
+    const endless = await encodeDecisionLink({ ...housing, simulation: { iterations: 2_000_000 } });
+    expect(endless.length).toBeLessThan(400);
+    expect(await problemWith(endless)).toBe('invalid_matrix');
+    await expect(decodeDecisionLink(endless)).rejects.toThrow(/expected at most 10000 iterations/);
+  });
+
+  it('gives messages a reader can act on', async () => {
+    await expect(decodeDecisionLink('not-a-link')).rejects.toThrow(/cut off when it was copied/);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Decision Permalinks
+ * -------------------
+ * Packs a decision matrix into a short, shareable URL and unpacks it again.
+ *
+ * A link token looks like `1.<payload>`: the link format version, then the
+ * base64url encoding of a CRC-32 checksum followed by the deflate-compressed
+ * JSON document (see decision-io). The /tools/decide/ page renders a token
+ * passed as `?m=`.
+ *
+ * Usage:
+ *   import { buildDecisionPermalink, decodeDecisionLink } from '../lib/tools/decision-link';
+ *
+ *   const url = await buildDecisionPermalink(input, { title: "Where should we live?" });
+ *   // "https://howtowincapitalism.com/tools/decide/?m=1.x7Hk..."
+ *
+ *   const { title, matrix } = await decodeDecisionLink(token);
+ *   makeDecision(matrix);
+ *
+ * Uses CompressionStream, available in browsers, Cloudflare Workers and Node 18+.
+ */
+
+import { debug } from '../debug';
+import { BUILDER_LIMITS } from './decision-builder';
+import type { DecisionMatrixInput } from './decision-matrix';
+import {
+  DECISION_DOCUMENT_VERSION,
+  DecisionParseError,
+  parseDecisionJson,
+  type DecisionDocument,
+} from './decision-io';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export type DecisionLinkProblem =
+  /** Not a link token at all, or the data is cut off */
+  | 'malformed'
+  /** Made by a newer version of the site */
+  | 'unsupported_version'
+  /** The payload was changed after the link was made */
+  | 'checksum'
+  /** Decodes fine but doesn't describe a usable matrix */
+  | 'invalid_matrix'
+  /** Longer than any link the site would make */
+  | 'too_large';
+
+/**
+ * Thrown when a link can't be decoded. The message is safe to show readers.
+ */
+export class DecisionLinkError extends Error {
+  readonly problem: DecisionLinkProblem;
+
+  constructor(problem: DecisionLinkProblem, message: string) {
+    super(message);
+    this.name = 'DecisionLinkError';
+    this.problem = problem;
+  }
+}
+
+/** Current link token version. */
+export const DECISION_LINK_VERSION = 1;
+
+/** Page that renders shared matrices. */
+export const DECISION_LINK_PATH = '/tools/decide/';
+
+/** Query parameter holding the token. */
+export const DECISION_LINK_PARAM = 'm';
+
+/** Longest token accepted, in characters */
+const MAX_TOKEN_LENGTH = 16_000;
+/** Largest decompressed document accepted, in bytes (guards against zip bombs) */
+const MAX_DOCUMENT_BYTES = 256_000;
+/** Bytes of checksum before the compressed payload */
+const CHECKSUM_BYTES = 4;
+
+const DEFAULT_ORIGIN = 'https://howtowincapitalism.com';
+
+/**
+ * Encode a matrix as a link token.
+ */
+export async function encodeDecisionLink(
+  matrix: DecisionMatrixInput,
+  options: { title?: string } = {}
+): Promise<string> {
+  const document: DecisionDocument = {
+    version: DECISION_DOCUMENT_VERSION,
+    ...(options.title !== undefined && { title: options.title }),
+    matrix,
+  };
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(document)), 'compress');
+
+  const bytes = new Uint8Array(CHECKSUM_BYTES + compressed.length);
+  new DataView(bytes.buffer).setUint32(0, crc32(compressed));
+  bytes.set(compressed, CHECKSUM_BYTES);
+
+  const token = `${DECISION_LINK_VERSION}.${toBase64Url(bytes)}`;
+  debug.log(MODULE, 'Encoded decision link', { options: matrix.options.length, length: token.length });
+  return token;
+}
+
+/**
+ * Decode a link token back into a validated decision document.
+ *
+ * @throws DecisionLinkError with a reader-friendly message
+ */
+export async function decodeDecisionLink(token: string): Promise<DecisionDocument> {
+  const trimmed = token.trim();
+  if (trimmed.length > MAX_TOKEN_LENGTH) {
+    fail('too_large', 'This link is longer than any decision link the site creates.');
+  }
+
+  const match = trimmed.match(/^(\d+)\.([A-Za-z0-9_-]+)$/);
+  if (!match) {
+    fail('malformed', "This doesn't look like a decision link. It may have been cut off when it was copied.");
+  }
+
+  const version = Number(match[1]);
+  if (version !== DECISION_LINK_VERSION) {
+    fail(
+      'unsupported_version',
+      `This link was made with a newer version of the decision tool (format ${version}). ` +
+      'Ask whoever sent it to share it again, or try again after the site updates.'
+    );
+  }
+
+  const bytes = fromBase64Url(match[2]);
+  if (!bytes || bytes.length <= CHECKSUM_BYTES) {
+    fail('malformed', 'This decision link is incomplete. It may have been cut off when it was copied.');
+  }
+
+  const compressed = bytes.subarray(CHECKSUM_BYTES);
+  const expected = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+  if (crc32(compressed) !== expected) {
+    fail('checksum', 'This decision link has been changed or damaged since it was shared.');
+  }
+
+  let json: string;
+  try {
+    json = new TextDecoder('utf-8', { fatal: true }).decode(await transform(compressed, 'decompress'));
+  } catch (error) {
+    if (error instanceof DecisionLinkError) throw error;
+    fail('malformed', "This decision link couldn't be unpacked. It may have been damaged when it was copied.");
+  }
+
+  let document: DecisionDocument;
+  try {
+    document = parseDecisionJson(json);
+  } catch (error) {
+    const detail = error instanceof DecisionParseError ? ` (${error.message})` : '';
+    fail('invalid_matrix', `This link doesn't contain a matrix the decision tool can read${detail}.`);
+  }
+
+  // The shared page analyzes links on the server, so keep them to what the builder can make
+  const { options, criteria } = document.matrix;
+  if (options.length > BUILDER_LIMITS.options || criteria.length > BUILDER_LIMITS.criteria) {
+    fail(
+      'too_large',
+      `This link holds ${options.length} options and ${criteria.length} criteria; shared decisions ` +
+      `can have up to ${BUILDER_LIMITS.options} options and ${BUILDER_LIMITS.criteria} criteria.`
+    );
+  }
+
+  debug.log(MODULE, 'Decoded decision link', { options: options.length });
+  return document;
+}
+
+/**
+ * Build a full permalink URL for a matrix.
+ *
+ * @param options.origin - Site origin (default: the production site)
+ */
+export async function buildDecisionPermalink(
+  matrix: DecisionMatrixInput,
+  options: { title?: string; origin?: string } = {}
+): Promise<string> {
+  const url = new URL(DECISION_LINK_PATH, options.origin ?? DEFAULT_ORIGIN);
+  url.searchParams.set(DECISION_LINK_PARAM, await encodeDecisionLink(matrix, options));
+  return url.toString();
+}
+
+function fail(problem: DecisionLinkProblem, message: string): never {
+  debug.error(MODULE, `Invalid decision link: ${problem}`, message);
+  throw new DecisionLinkError(problem, message);
+}
+
+/**
+ * Run bytes through deflate-raw (de)compression. Decompression stops at
+ * MAX_DOCUMENT_BYTES rather than inflating an oversized payload.
+ */
+async function transform(bytes: Uint8Array, direction: 'compress' | 'decompress'): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(
+    direction === 'compress'
+      ? new CompressionStream('deflate-raw')
+      : new DecompressionStream('deflate-raw')
+  );
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (direction === 'decompress' && size > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      fail('too_large', 'This decision link holds more data than the decision tool accepts.');
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array | null {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/** CRC-32 (IEEE) lookup table */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -12,8 +12,14 @@ import {
   DecisionResult,
   makeDecision,
   compareMethods,
+  formatMethodComparison,
+  calculateAhpWeights,
+  analyzeDominance,
+  hasUncertainScores,
+  toPointScores,
   type DecisionMatrixInput,
   type AnalysisMethod,
+  type CriterionDirection,
 } from './decision-matrix';
 
 // =============================================================================
@@ -206,6 +212,1012 @@ describe('DecisionMatrix', () => {
       expect(result.analysisMethod).toBe('Best-Worst Scaling');
     });
   });
+
+  describe('topsis method', () => {
+    it('produces TOPSIS analysis', () => {
+      const matrix = new DecisionMatrix({ ...basicInput, method: 'topsis' });
+      const result = matrix.analyze();
+      expect(result.analysisMethod).toBe('TOPSIS (Closeness to Ideal)');
+    });
+
+    it('scores closeness between 0 and 1', () => {
+      const matrix = new DecisionMatrix({ ...programmingLanguages, method: 'topsis' });
+      const result = matrix.analyze();
+      for (const [, closeness] of result.rankings) {
+        expect(closeness).toBeGreaterThanOrEqual(0);
+        expect(closeness).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('gives a dominating option closeness of 1', () => {
+      const matrix = new DecisionMatrix({
+        options: ['Best', 'Middle', 'Worst'],
+        criteria: ['X', 'Y'],
+        scores: { Best: [10, 10], Middle: [5, 6], Worst: [1, 2] },
+        method: 'topsis',
+      });
+      const result = matrix.analyze();
+      expect(result.winner).toBe('Best');
+      expect(result.totalScore['Best']).toBeCloseTo(1);
+      expect(result.totalScore['Worst']).toBeCloseTo(0);
+    });
+
+    it('is not swamped by a criterion on a larger scale', () => {
+      // Salary is in dollars, satisfaction is 1-10. Weighted scoring lets
+      // the dollar figures dominate; TOPSIS normalizes each criterion first.
+      const input: DecisionMatrixInput = {
+        options: ['A', 'B'],
+        criteria: ['Salary', 'Satisfaction'],
+        scores: { A: [101000, 2], B: [100000, 9] },
+      };
+      const weighted = makeDecision(input) as DecisionResult;
+      const topsis = makeDecision({ ...input, method: 'topsis' }) as DecisionResult;
+      expect(weighted.winner).toBe('A');
+      expect(topsis.winner).toBe('B');
+    });
+
+    it('fills in strengths, weaknesses and why the winner won', () => {
+      const matrix = new DecisionMatrix({ ...programmingLanguages, method: 'topsis' });
+      const result = matrix.analyze();
+      expect(Object.keys(result.strengths)).toHaveLength(4);
+      expect(Object.keys(result.weaknesses)).toHaveLength(4);
+      expect(result.whyWinnerWon.length).toBeGreaterThan(0);
+    });
+
+    it('explains the recommendation in terms of the ideal solution', () => {
+      const matrix = new DecisionMatrix({
+        options: ['Best', 'Worst'],
+        criteria: ['X'],
+        scores: { Best: [10], Worst: [1] },
+        method: 'topsis',
+      });
+      const result = matrix.analyze();
+      expect(result.confidenceScore).toBe(100);
+      expect(result.recommendation).toContain('Strong recommendation');
+      expect(result.recommendation).toContain('ideal');
+    });
+
+    it('treats identical options as a tie on the ideal', () => {
+      const matrix = new DecisionMatrix({
+        options: ['A', 'B'],
+        criteria: ['X', 'Y'],
+        scores: { A: [5, 5], B: [5, 5] },
+        method: 'topsis',
+      });
+      const result = matrix.analyze();
+      expect(result.totalScore['A']).toBe(1);
+      expect(result.confidenceScore).toBe(0);
+      expect(result.warnings.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('promethee method', () => {
+    it('produces PROMETHEE II analysis', () => {
+      const matrix = new DecisionMatrix({ ...basicInput, method: 'promethee' });
+      const result = matrix.analyze();
+      expect(result.analysisMethod).toBe('PROMETHEE II (Net Outranking Flow)');
+      expect(result.flows).toBeDefined();
+    });
+
+    it('returns positive, negative and net flows', () => {
+      const result = makeDecision({ ...programmingLanguages, method: 'promethee' }) as DecisionResult;
+      let netTotal = 0;
+      for (const [option, net] of result.rankings) {
+        const flows = result.flows![option];
+        expect(flows.positive).toBeGreaterThanOrEqual(0);
+        expect(flows.negative).toBeLessThanOrEqual(1);
+        expect(flows.net).toBeCloseTo(flows.positive - flows.negative);
+        expect(net).toBe(flows.net);
+        netTotal += net;
+      }
+      expect(netTotal).toBeCloseTo(0);
+    });
+
+    it('gives a dominating option the top net flow of 1', () => {
+      const result = makeDecision({
+        options: ['Best', 'Middle', 'Worst'],
+        criteria: ['X', 'Y'],
+        scores: { Best: [10, 10], Middle: [5, 6], Worst: [1, 2] },
+        method: 'promethee',
+      }) as DecisionResult;
+      expect(result.flows!.Best).toEqual({ positive: 1, negative: 0, net: 1 });
+      expect(result.flows!.Worst.net).toBe(-1);
+      expect(result.confidenceScore).toBe(100);
+      expect(result.recommendation).toContain('outranks');
+    });
+
+    it('does not let one huge advantage hide weak scores elsewhere', () => {
+      // A's 100 on Reach outweighs everything in a weighted sum, but with the
+      // usual preference function it is just one criterion won against two lost
+      const input: DecisionMatrixInput = {
+        options: ['A', 'B'],
+        criteria: ['Reach', 'Quality', 'Cost'],
+        scores: { A: [100, 1, 9], B: [10, 5, 5] },
+        directions: ['maximize', 'maximize', 'minimize'],
+      };
+      expect((makeDecision(input) as DecisionResult).winner).toBe('A');
+      const result = makeDecision({ ...input, method: 'promethee' }) as DecisionResult;
+      expect(result.winner).toBe('B');
+      expect(result.flows!.B.net).toBeCloseTo(1 / 3);
+    });
+
+    it('applies a v-shape preference threshold', () => {
+      const result = makeDecision({
+        options: ['A', 'B'],
+        criteria: ['X'],
+        scores: { A: [6], B: [4] },
+        method: 'promethee',
+        preferenceFunctions: [{ type: 'v_shape', preference: 4 }],
+      }) as DecisionResult;
+      // A 2-point lead is half of the 4-point preference threshold
+      expect(result.flows!.A).toEqual({ positive: 0.5, negative: 0, net: 0.5 });
+    });
+
+    it('ignores differences within the indifference threshold', () => {
+      const run = (b: number) => makeDecision({
+        options: ['A', 'B'],
+        criteria: ['X'],
+        scores: { A: [5], B: [b] },
+        method: 'promethee',
+        preferenceFunctions: [{ type: 'linear', indifference: 1, preference: 3 }],
+      }) as DecisionResult;
+      expect(run(4).flows!.A.net).toBe(0);
+      expect(run(3).flows!.A.net).toBeCloseTo(0.5);
+      expect(run(0).flows!.A.net).toBe(1);
+    });
+
+    it('breaks the net flow down by criterion', () => {
+      const result = makeDecision({ ...programmingLanguages, method: 'promethee' }) as DecisionResult;
+      for (const option of programmingLanguages.options) {
+        const total = Object.values(result.scoresBreakdown[option]).reduce((a, b) => a + b, 0);
+        expect(total / 100).toBeCloseTo(result.flows![option].net);
+      }
+      expect(result.whyWinnerWon.length).toBeGreaterThan(0);
+    });
+
+    it('shows and serializes the flows', () => {
+      const result = makeDecision({ ...basicInput, method: 'promethee' }) as DecisionResult;
+      expect(result.toString()).toContain('OUTRANKING FLOWS');
+      expect(Object.keys(result.toObject().flows!)).toEqual(basicInput.options);
+    });
+
+    it('validates preference functions', () => {
+      expect(() => new DecisionMatrix({
+        ...basicInput,
+        method: 'promethee',
+        preferenceFunctions: [{ type: 'usual' }],
+      })).toThrow('Got 1 preference functions but 3 criteria');
+      expect(() => new DecisionMatrix({
+        ...basicInput,
+        method: 'promethee',
+        preferenceFunctions: [
+          { type: 'usual' },
+          { type: 'linear', indifference: 3, preference: 2 },
+          { type: 'usual' },
+        ],
+      })).toThrow(`Invalid preference function for 'Speed': expected 0 <= indifference < preference`);
+    });
+  });
+
+  // A is steady, B is brilliant on two criteria and hopeless on the third
+  const steadyOrExtreme: DecisionMatrixInput = {
+    options: ['A', 'B', 'C'],
+    criteria: ['X', 'Y', 'Z'],
+    scores: { A: [6, 6, 6], B: [10, 10, 0], C: [5, 5, 5] },
+    weights: [0.35, 0.35, 0.3],
+  };
+
+  describe('maximin method', () => {
+    it('picks the option with the best weakest criterion', () => {
+      expect((makeDecision(steadyOrExtreme) as DecisionResult).winner).toBe('B');
+      const result = makeDecision({ ...steadyOrExtreme, method: 'maximin' }) as DecisionResult;
+      expect(result.analysisMethod).toBe('Maximin (Best Worst Case)');
+      expect(result.rankings).toEqual([['A', 60], ['C', 50], ['B', 0]]);
+      expect(result.scoresBreakdown.A).toEqual({ 'X (% of best)': 60, 'Y (% of best)': 60, 'Z (% of best)': 100 });
+      expect(result.whyWinnerWon).toContain('reaches 60% of the best score');
+    });
+
+    it('scores minimize criteria as the best value over the option\'s', () => {
+      const result = makeDecision({
+        options: ['Cheap', 'Pricey'],
+        criteria: ['Cost'],
+        scores: { Cheap: [100], Pricey: [200] },
+        directions: ['minimize'],
+        method: 'maximin',
+      }) as DecisionResult;
+      expect(result.totalScore).toEqual({ Cheap: 100, Pricey: 50 });
+    });
+
+    it('skips criteria weighted 0', () => {
+      const result = makeDecision({ ...steadyOrExtreme, weights: [0.5, 0.5, 0], method: 'maximin' }) as DecisionResult;
+      expect(result.winner).toBe('B');
+      expect(result.totalScore.B).toBe(100);
+    });
+
+    it('breaks ties on the next-weakest criterion', () => {
+      const result = makeDecision({
+        options: ['A', 'B', 'C'],
+        criteria: ['X', 'Y', 'Z'],
+        scores: { A: [5, 10, 10], B: [5, 7, 10], C: [10, 0, 0] },
+        method: 'maximin',
+      }) as DecisionResult;
+      expect(result.rankings.map(([opt]) => opt)).toEqual(['A', 'B', 'C']);
+      expect(result.confidenceScore).toBe(0);
+      expect(result.recommendation).toContain('ties are broken by the next-weakest criterion');
+    });
+  });
+
+  describe('minimax_regret method', () => {
+    it('reports the regret table in scoresBreakdown', () => {
+      const result = makeDecision({ ...steadyOrExtreme, method: 'minimax_regret' }) as DecisionResult;
+      expect(result.analysisMethod).toBe('Minimax Regret (Smallest Worst-Case Regret)');
+      // Shortfall over each criterion's range, scaled by weight relative to the heaviest (0.35)
+      expect(result.scoresBreakdown.A).toEqual({ 'X (regret)': 80, 'Y (regret)': 80, 'Z (regret)': 0 });
+      expect(result.scoresBreakdown.B['Z (regret)']).toBeCloseTo((0.3 / 0.35) * 100);
+      expect(result.scoresBreakdown.C['X (regret)']).toBe(100);
+      expect(result.criteriaDirections).toEqual({ X: 'minimize', Y: 'minimize', Z: 'minimize' });
+    });
+
+    it('picks the option whose largest regret is smallest', () => {
+      const result = makeDecision({ ...steadyOrExtreme, method: 'minimax_regret' }) as DecisionResult;
+      expect(result.rankings.map(([opt]) => opt)).toEqual(['A', 'B', 'C']);
+      expect(result.totalScore.A).toBe(80);
+      expect(result.normalizedScores.A).toBe(20);
+      expect(result.whyWinnerWon).toBe("Its biggest regret, X, is 80 points; 'B' gives up 86 on Z");
+      // 80 against 86 is too close to call
+      expect(result.recommendation).toContain('Top choices: A, B, C');
+    });
+
+    it('gives a dominating option no regret', () => {
+      const result = makeDecision({
+        options: ['Best', 'Middle', 'Worst'],
+        criteria: ['X', 'Y'],
+        scores: { Best: [10, 10], Middle: [5, 6], Worst: [1, 2] },
+        method: 'minimax_regret',
+      }) as DecisionResult;
+      expect(result.rankings[0]).toEqual(['Best', 0]);
+      expect(result.confidenceScore).toBe(100);
+      expect(result.recommendation).toMatch(/^Strong recommendation: 'Best' is the least bad choice/);
+    });
+
+    it('keeps the worst-case recommendation when scores are uncertain', () => {
+      const result = makeDecision({
+        ...steadyOrExtreme,
+        scores: { ...steadyOrExtreme.scores, A: [{ min: 5, likely: 6, max: 7 }, 6, 6] },
+        method: 'minimax_regret',
+      }) as DecisionResult;
+      expect(result.simulation).toBeDefined();
+      expect(result.recommendation).toContain('points of regret');
+    });
+  });
+});
+
+// =============================================================================
+// Criterion Direction Tests
+// =============================================================================
+
+describe('Criterion directions', () => {
+  // Cost is "lower is better": Cheap wins on cost, Premium on quality
+  const costInput: DecisionMatrixInput = {
+    options: ['Cheap', 'Premium'],
+    criteria: ['Cost', 'Quality'],
+    scores: {
+      Cheap: [2, 6],
+      Premium: [9, 7],
+    },
+    directions: ['minimize', 'maximize'],
+  };
+
+  const methods: AnalysisMethod[] = ['weighted', 'normalized', 'ranking', 'best_worst', 'topsis', 'promethee'];
+
+  it.each(methods)('%s method prefers the lower cost', (method) => {
+    const result = makeDecision({ ...costInput, method }) as DecisionResult;
+    expect(result.winner).toBe('Cheap');
+  });
+
+  it('matches the result of flipping the scores by hand', () => {
+    const flipped = makeDecision({
+      options: ['Cheap', 'Premium'],
+      criteria: ['Cost', 'Quality'],
+      scores: { Cheap: [9, 6], Premium: [2, 7] },
+    }) as DecisionResult;
+    const directed = makeDecision(costInput) as DecisionResult;
+    expect(directed.totalScore['Cheap']).toBeCloseTo(flipped.totalScore['Cheap']);
+    expect(directed.totalScore['Premium']).toBeCloseTo(flipped.totalScore['Premium']);
+  });
+
+  it('builds a weighted breakdown that adds up to the total', () => {
+    const result = makeDecision(costInput) as DecisionResult;
+    for (const option of costInput.options) {
+      const parts = Object.values(result.scoresBreakdown[option]);
+      expect(parts.reduce((sum, part) => sum + part, 0)).toBeCloseTo(result.totalScore[option], 10);
+    }
+    // Cheap's cost of 2 counts as Premium's 9 would on a maximize criterion
+    expect(result.scoresBreakdown.Cheap['Cost (w=0.50)']).toBeCloseTo(4.5, 10);
+    expect(result.criteriaDirections).toEqual({ Cost: 'maximize', Quality: 'maximize' });
+  });
+
+  it('defaults every criterion to maximize', () => {
+    const result = makeDecision({ ...costInput, directions: undefined }) as DecisionResult;
+    expect(result.winner).toBe('Premium');
+    expect(result.criteriaDirections).toEqual({ Cost: 'maximize', Quality: 'maximize' });
+  });
+
+  it('throws error for mismatched direction count', () => {
+    expect(() => {
+      new DecisionMatrix({ ...costInput, directions: ['minimize'] });
+    }).toThrow('Got 1 directions but 2 criteria');
+  });
+
+  it('throws error for unknown direction', () => {
+    expect(() => {
+      new DecisionMatrix({
+        ...costInput,
+        directions: ['minimize', 'sideways' as CriterionDirection],
+      });
+    }).toThrow('Unknown criterion direction: sideways');
+  });
+
+  it('treats a low cost as a strength', () => {
+    const result = makeDecision({
+      options: ['Cheap', 'Premium'],
+      criteria: ['Cost', 'Quality', 'Support', 'Warranty'],
+      scores: { Cheap: [1, 3, 3, 3], Premium: [9, 5, 5, 5] },
+      directions: ['minimize', 'maximize', 'maximize', 'maximize'],
+    }) as DecisionResult;
+    expect(result.strengths['Cheap'][0][0]).toBe('Cost');
+    expect(result.weaknesses['Premium'][0][0]).toBe('Cost');
+  });
+
+  it('credits the lower cost in whyWinnerWon', () => {
+    const result = makeDecision(costInput) as DecisionResult;
+    expect(result.whyWinnerWon).toContain('Cost');
+  });
+
+  it('picks the lowest value as the comparison table winner for cost', () => {
+    const result = makeDecision(costInput) as DecisionResult;
+    const costRow = result.comparisonTable().split('\n').find(line => line.startsWith('Cost'));
+    expect(costRow?.trim().endsWith('Cheap')).toBe(true);
+  });
+
+  it('reads ranking breakdowns as lower is better', () => {
+    const result = makeDecision({ ...costInput, method: 'ranking' }) as DecisionResult;
+    expect(result.criteriaDirections).toEqual({ Cost: 'minimize', Quality: 'minimize' });
+    const qualityRow = result.comparisonTable().split('\n').find(line => line.startsWith('Quality'));
+    expect(qualityRow?.trim().endsWith('Premium')).toBe(true);
+  });
+
+  it('passes directions through compareMethods', () => {
+    const comparison = compareMethods(costInput);
+    expect(comparison.winnerVotes).toEqual({ Cheap: 8 });
+    expect(comparison.consensusWinner).toBe('Cheap');
+  });
+});
+
+// =============================================================================
+// AHP Weight Derivation Tests
+// =============================================================================
+
+describe('calculateAhpWeights()', () => {
+  const consistentMatrix = [
+    [1, 3, 5],
+    [1 / 3, 1, 2],
+    [1 / 5, 1 / 2, 1],
+  ];
+
+  // A > B, B > C, but C > A — a circular judgment
+  const circularMatrix = [
+    [1, 9, 1 / 9],
+    [1 / 9, 1, 9],
+    [9, 1 / 9, 1],
+  ];
+
+  it('derives weights from the principal eigenvector', () => {
+    const ahp = calculateAhpWeights(consistentMatrix);
+    expect(ahp.weights[0]).toBeCloseTo(0.648, 3);
+    expect(ahp.weights[1]).toBeCloseTo(0.230, 3);
+    expect(ahp.weights[2]).toBeCloseTo(0.122, 3);
+    expect(ahp.weights.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+  });
+
+  it('reports a low consistency ratio for coherent judgments', () => {
+    const ahp = calculateAhpWeights(consistentMatrix);
+    expect(ahp.lambdaMax).toBeCloseTo(3.004, 3);
+    expect(ahp.consistencyRatio).toBeLessThan(0.1);
+    expect(ahp.isConsistent).toBe(true);
+  });
+
+  it('flags circular judgments as inconsistent', () => {
+    const ahp = calculateAhpWeights(circularMatrix);
+    expect(ahp.consistencyRatio).toBeGreaterThan(0.1);
+    expect(ahp.isConsistent).toBe(false);
+  });
+
+  it('treats 2x2 matrices as always consistent', () => {
+    const ahp = calculateAhpWeights([[1, 4], [1 / 4, 1]]);
+    expect(ahp.weights[0]).toBeCloseTo(0.8);
+    expect(ahp.consistencyRatio).toBe(0);
+  });
+
+  it('throws error for non-square matrix', () => {
+    expect(() => calculateAhpWeights([[1, 2], [0.5]])).toThrow('must be square');
+  });
+
+  it('throws error for values outside the Saaty scale', () => {
+    expect(() => calculateAhpWeights([[1, 12], [1 / 12, 1]])).toThrow('must be between 1/9 and 9');
+  });
+
+  it('throws error for non-reciprocal entries', () => {
+    expect(() => calculateAhpWeights([[1, 3], [3, 1]])).toThrow('must be the reciprocal');
+  });
+
+  describe('with DecisionMatrix', () => {
+    const ahpInput: DecisionMatrixInput = {
+      options: ['401k', 'Roth IRA', 'Taxable'],
+      criteria: ['Tax Benefit', 'Flexibility', 'Growth'],
+      scores: { '401k': [9, 3, 7], 'Roth IRA': [7, 6, 8], Taxable: [2, 9, 7] },
+      pairwiseComparisons: consistentMatrix,
+    };
+
+    it('uses the derived weights', () => {
+      const fromAhp = makeDecision(ahpInput) as DecisionResult;
+      const fromWeights = makeDecision({
+        ...ahpInput,
+        pairwiseComparisons: undefined,
+        weights: calculateAhpWeights(consistentMatrix).weights,
+      }) as DecisionResult;
+      for (const option of ahpInput.options) {
+        expect(fromAhp.totalScore[option]).toBeCloseTo(fromWeights.totalScore[option], 10);
+      }
+    });
+
+    it('does not warn about consistent judgments', () => {
+      const result = makeDecision(ahpInput) as DecisionResult;
+      expect(result.warnings.some(w => w.includes('consistency ratio'))).toBe(false);
+    });
+
+    it('warns when the consistency ratio exceeds 0.1', () => {
+      const results = makeDecision({
+        ...ahpInput,
+        pairwiseComparisons: circularMatrix,
+        showAllMethods: true,
+      }) as Record<AnalysisMethod, DecisionResult>;
+      for (const result of Object.values(results)) {
+        expect(result.warnings.some(w => w.includes('consistency ratio'))).toBe(true);
+      }
+    });
+
+    it('throws error for weights that sum to zero or are negative', () => {
+      expect(() => new DecisionMatrix({ ...basicInput, weights: [0, 0, 0] })).toThrow(
+        'At least one criterion needs a weight above zero'
+      );
+      expect(() => new DecisionMatrix({ ...basicInput, weights: [0.5, -0.2, 0.7] })).toThrow(
+        'Weights must be non-negative numbers, got -0.2'
+      );
+    });
+
+    it('throws error when both weights and pairwise comparisons are given', () => {
+      expect(() => {
+        new DecisionMatrix({ ...ahpInput, weights: [1, 1, 1] });
+      }).toThrow('Provide either weights or pairwiseComparisons, not both');
+    });
+
+    it('throws error when matrix size does not match criteria', () => {
+      expect(() => {
+        new DecisionMatrix({ ...ahpInput, pairwiseComparisons: [[1, 2], [0.5, 1]] });
+      }).toThrow('Pairwise comparison matrix is 2x2 but there are 3 criteria');
+    });
+  });
+});
+
+// =============================================================================
+// Uncertain Scores & Monte Carlo Tests
+// =============================================================================
+
+describe('Uncertain scores', () => {
+  const uncertainInput: DecisionMatrixInput = {
+    options: ['Safe Bet', 'Long Shot'],
+    criteria: ['Return', 'Stability'],
+    scores: {
+      'Safe Bet': [{ min: 5, likely: 6, max: 7 }, 8],
+      'Long Shot': [{ mean: 6, sd: 4 }, 7],
+    },
+    simulation: { iterations: 500, seed: 42 },
+  };
+
+  it('analyzes point estimates for the ranking', () => {
+    const result = makeDecision(uncertainInput) as DecisionResult;
+    const point = makeDecision({
+      ...uncertainInput,
+      scores: { 'Safe Bet': [6, 8], 'Long Shot': [6, 7] },
+    }) as DecisionResult;
+    expect(result.winner).toBe(point.winner);
+    expect(result.totalScore).toEqual(point.totalScore);
+  });
+
+  it('reports win probabilities that sum to 1', () => {
+    const result = makeDecision(uncertainInput) as DecisionResult;
+    expect(result.simulation).toBeDefined();
+    const total = Object.values(result.simulation!.winProbability).reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('reports a rank distribution per option', () => {
+    const result = makeDecision(uncertainInput) as DecisionResult;
+    const { rankDistribution, expectedRank } = result.simulation!;
+    for (const option of uncertainInput.options) {
+      expect(rankDistribution[option]).toHaveLength(2);
+      expect(rankDistribution[option][0] + rankDistribution[option][1]).toBeCloseTo(1);
+      expect(expectedRank[option]).toBeGreaterThanOrEqual(1);
+      expect(expectedRank[option]).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('uses the win probability as confidence', () => {
+    const result = makeDecision(uncertainInput) as DecisionResult;
+    expect(result.confidenceScore).toBeCloseTo(result.simulation!.winProbability[result.winner] * 100);
+  });
+
+  it('is reproducible with the same seed', () => {
+    const first = makeDecision(uncertainInput) as DecisionResult;
+    const second = makeDecision(uncertainInput) as DecisionResult;
+    expect(first.simulation).toEqual(second.simulation);
+    expect(first.simulation!.winProbability['Safe Bet']).toBe(0.594);
+  });
+
+  it('changes with a different seed', () => {
+    const first = makeDecision(uncertainInput) as DecisionResult;
+    const second = makeDecision({
+      ...uncertainInput,
+      simulation: { iterations: 500, seed: 7 },
+    }) as DecisionResult;
+    expect(first.simulation!.winProbability).not.toEqual(second.simulation!.winProbability);
+  });
+
+  it('defaults to 1000 iterations with seed 1', () => {
+    const result = makeDecision({ ...uncertainInput, simulation: undefined }) as DecisionResult;
+    expect(result.simulation!.iterations).toBe(1000);
+    expect(result.simulation!.seed).toBe(1);
+  });
+
+  it('gives certainty when ranges cannot overlap', () => {
+    const result = makeDecision({
+      options: ['High', 'Low'],
+      criteria: ['X'],
+      scores: {
+        High: [{ min: 8, likely: 9, max: 10 }],
+        Low: [{ min: 1, likely: 2, max: 3 }],
+      },
+      simulation: { iterations: 200 },
+    }) as DecisionResult;
+    expect(result.simulation!.winProbability['High']).toBe(1);
+    expect(result.simulation!.rankDistribution['Low']).toEqual([0, 1]);
+    expect(result.confidenceScore).toBe(100);
+  });
+
+  it('warns when another option wins more simulations', () => {
+    // Point estimates favor Steady, but Skewed's range is mostly above it
+    const result = makeDecision({
+      options: ['Steady', 'Skewed'],
+      criteria: ['X'],
+      scores: {
+        Steady: [5],
+        Skewed: [{ min: 4, likely: 4.5, max: 20 }],
+      },
+      simulation: { iterations: 500, seed: 3 },
+    }) as DecisionResult;
+    expect(result.winner).toBe('Steady');
+    expect(result.warnings.some(w => w.includes("'Skewed' wins more simulations"))).toBe(true);
+  });
+
+  it('runs the simulation for every method', () => {
+    const results = makeDecision({
+      ...uncertainInput,
+      showAllMethods: true,
+    }) as Record<AnalysisMethod, DecisionResult>;
+    for (const result of Object.values(results)) {
+      expect(result.simulation?.iterations).toBe(500);
+    }
+  });
+
+  it('leaves certain matrices without a simulation', () => {
+    const result = makeDecision(basicInput) as DecisionResult;
+    expect(result.simulation).toBeUndefined();
+  });
+
+  it('includes the simulation in toString() and toObject()', () => {
+    const result = makeDecision(uncertainInput) as DecisionResult;
+    expect(result.toString()).toContain('SIMULATION (500 draws, seed 42)');
+    expect(result.toObject().simulation?.winProbability['Safe Bet']).toBe(0.594);
+  });
+
+  it('throws error for an inverted triangular range', () => {
+    expect(() => {
+      new DecisionMatrix({
+        options: ['A'],
+        criteria: ['X'],
+        scores: { A: [{ min: 5, likely: 3, max: 7 }] },
+      });
+    }).toThrow("Option 'A' has an invalid score for 'X': expected min <= likely <= max");
+  });
+
+  it('throws error for a negative standard deviation', () => {
+    expect(() => {
+      new DecisionMatrix({
+        options: ['A'],
+        criteria: ['X'],
+        scores: { A: [{ mean: 5, sd: -1 }] },
+      });
+    }).toThrow('sd must not be negative');
+  });
+
+  it('throws error for invalid iteration count', () => {
+    expect(() => {
+      new DecisionMatrix({ ...uncertainInput, simulation: { iterations: 0 } });
+    }).toThrow('Simulation iterations must be a positive integer, got 0');
+    expect(() => {
+      new DecisionMatrix({ ...uncertainInput, simulation: { iterations: 2_000_000 } });
+    }).toThrow("Simulation iterations can't exceed 10000, got 2000000");
+  });
+});
+
+describe('toPointScores()', () => {
+  it('uses the likely value and the mean', () => {
+    expect(toPointScores({
+      A: [3, { min: 1, likely: 2, max: 5 }, { mean: 7, sd: 1 }],
+    })).toEqual({ A: [3, 2, 7] });
+  });
+
+  it('is detected by hasUncertainScores()', () => {
+    expect(hasUncertainScores(basicInput.scores)).toBe(false);
+    expect(hasUncertainScores({ A: [1, { mean: 2, sd: 1 }] })).toBe(true);
+  });
+});
+
+// =============================================================================
+// Constraint Tests
+// =============================================================================
+
+describe('Constraints', () => {
+  const constrainedInput: DecisionMatrixInput = {
+    options: ['Savings', 'Stocks', 'Real Estate', 'Crypto'],
+    criteria: ['Liquidity', 'Return', 'Cost'],
+    scores: {
+      Savings: [10, 2, 1],
+      Stocks: [8, 7, 3],
+      'Real Estate': [2, 8, 8],
+      Crypto: [7, 10, 9],
+    },
+    weights: [0.2, 0.6, 0.2],
+    directions: ['maximize', 'maximize', 'minimize'],
+    constraints: {
+      Liquidity: { min: 5 },
+      Cost: { max: 7 },
+    },
+  };
+
+  it('eliminates options that violate a constraint', () => {
+    const result = makeDecision(constrainedInput) as DecisionResult;
+    expect(result.rankings.map(([opt]) => opt).sort()).toEqual(['Savings', 'Stocks']);
+    expect(result.eliminated.map(e => e.option)).toEqual(['Real Estate', 'Crypto']);
+  });
+
+  it('reports every violated constraint with the reason', () => {
+    const result = makeDecision({
+      ...constrainedInput,
+      constraints: { Liquidity: { min: 5 }, Cost: { max: 2 } },
+    }) as DecisionResult;
+    const realEstate = result.eliminated.find(e => e.option === 'Real Estate');
+    expect(realEstate?.reasons).toEqual([
+      'Liquidity is 2, below the minimum of 5',
+      'Cost is 8, above the maximum of 2',
+    ]);
+  });
+
+  it('eliminates regardless of how well the option scores elsewhere', () => {
+    const unconstrained = makeDecision({ ...constrainedInput, constraints: undefined }) as DecisionResult;
+    const constrained = makeDecision(constrainedInput) as DecisionResult;
+    expect(unconstrained.winner).toBe('Crypto');
+    expect(constrained.winner).toBe('Stocks');
+  });
+
+  it('treats bounds as inclusive', () => {
+    const result = makeDecision({
+      ...constrainedInput,
+      constraints: { Liquidity: { min: 7, max: 8 } },
+    }) as DecisionResult;
+    expect(result.eliminated.map(e => e.option)).toEqual(['Savings', 'Real Estate']);
+  });
+
+  it('eliminates before analysis for every method', () => {
+    const results = makeDecision({
+      ...constrainedInput,
+      showAllMethods: true,
+    }) as Record<AnalysisMethod, DecisionResult>;
+    for (const result of Object.values(results)) {
+      expect(result.rankings).toHaveLength(2);
+      expect(Object.keys(result.scoresBreakdown)).not.toContain('Crypto');
+      expect(result.eliminated).toHaveLength(2);
+    }
+  });
+
+  it('leaves eliminated empty when there are no constraints', () => {
+    const result = makeDecision(basicInput) as DecisionResult;
+    expect(result.eliminated).toEqual([]);
+  });
+
+  it('renders the eliminated section in toString()', () => {
+    const result = makeDecision(constrainedInput) as DecisionResult;
+    const str = result.toString();
+    expect(str).toContain('ELIMINATED');
+    expect(str).toContain('Crypto: Cost is 9, above the maximum of 7');
+  });
+
+  it('includes eliminated options in toObject()', () => {
+    const result = makeDecision(constrainedInput) as DecisionResult;
+    expect(result.toObject().eliminated).toHaveLength(2);
+  });
+
+  it('applies constraints to the point estimate of uncertain scores', () => {
+    const result = makeDecision({
+      options: ['A', 'B'],
+      criteria: ['X'],
+      scores: { A: [{ min: 1, likely: 3, max: 9 }], B: [6] },
+      constraints: { X: { min: 5 } },
+      simulation: { iterations: 50 },
+    }) as DecisionResult;
+    expect(result.eliminated.map(e => e.option)).toEqual(['A']);
+    expect(result.simulation).toBeUndefined();
+  });
+
+  it('throws error when every option is eliminated', () => {
+    expect(() => {
+      new DecisionMatrix({ ...constrainedInput, constraints: { Liquidity: { min: 11 } } });
+    }).toThrow('Every option violates a constraint');
+  });
+
+  it('throws error for a constraint on an unknown criterion', () => {
+    expect(() => {
+      new DecisionMatrix({ ...constrainedInput, constraints: { Fees: { max: 2 } } });
+    }).toThrow('Constraint refers to unknown criterion: Fees');
+  });
+
+  it('throws error when min is greater than max', () => {
+    expect(() => {
+      new DecisionMatrix({ ...constrainedInput, constraints: { Cost: { min: 8, max: 2 } } });
+    }).toThrow("Constraint on 'Cost' has min 8 greater than max 2");
+  });
+});
+
+// =============================================================================
+// Pareto Dominance Tests
+// =============================================================================
+
+describe('analyzeDominance()', () => {
+  it('finds dominated options and who dominates them', () => {
+    const dominance = analyzeDominance(
+      ['A', 'B', 'C', 'D'],
+      { A: [8, 6], B: [7, 5], C: [5, 9], D: [4, 4] }
+    );
+    expect(dominance.efficient).toEqual(['A', 'C']);
+    expect(dominance.dominated).toEqual({ B: ['A'], D: ['A', 'B', 'C'] });
+  });
+
+  it('requires a strict improvement on at least one criterion', () => {
+    const dominance = analyzeDominance(['A', 'B'], { A: [5, 5], B: [5, 5] });
+    expect(dominance.efficient).toEqual(['A', 'B']);
+    expect(dominance.dominated).toEqual({});
+  });
+
+  it('respects minimize criteria', () => {
+    // Lower cost and higher quality: Cheap dominates Pricey
+    const dominance = analyzeDominance(
+      ['Cheap', 'Pricey'],
+      { Cheap: [2, 8], Pricey: [9, 7] },
+      ['minimize', 'maximize']
+    );
+    expect(dominance.dominated).toEqual({ Pricey: ['Cheap'] });
+  });
+
+  it('compares uncertain scores at their point estimates', () => {
+    const dominance = analyzeDominance(
+      ['A', 'B'],
+      { A: [{ min: 1, likely: 8, max: 9 }], B: [{ mean: 5, sd: 3 }] }
+    );
+    expect(dominance.dominated).toEqual({ B: ['A'] });
+  });
+
+  it('keeps options named after object properties on the frontier', () => {
+    const dominance = analyzeDominance(
+      ['toString', 'constructor', 'Plain'],
+      { toString: [9, 1], constructor: [1, 9], Plain: [1, 1] }
+    );
+    expect(dominance.efficient).toEqual(['toString', 'constructor']);
+    expect(dominance.dominated).toEqual({ Plain: ['toString', 'constructor'] });
+  });
+
+  describe('in DecisionResult', () => {
+    const dominatedInput: DecisionMatrixInput = {
+      options: ['Index Fund', 'Managed Fund', 'Savings'],
+      criteria: ['Return', 'Fees'],
+      scores: {
+        'Index Fund': [7, 0.1],
+        'Managed Fund': [6, 1.2],
+        Savings: [2, 0],
+      },
+      directions: ['maximize', 'minimize'],
+    };
+
+    it('reports dominance on the result', () => {
+      const result = makeDecision(dominatedInput) as DecisionResult;
+      expect(result.dominance.efficient).toEqual(['Index Fund', 'Savings']);
+      expect(result.dominance.dominated).toEqual({ 'Managed Fund': ['Index Fund'] });
+    });
+
+    it('warns about dominated options in every method', () => {
+      const results = makeDecision({
+        ...dominatedInput,
+        showAllMethods: true,
+      }) as Record<AnalysisMethod, DecisionResult>;
+      for (const result of Object.values(results)) {
+        expect(result.warnings).toContain(
+          "'Managed Fund' is dominated by 'Index Fund' — no weighting can make it win."
+        );
+      }
+    });
+
+    it('ignores options eliminated by constraints', () => {
+      const result = makeDecision({
+        ...dominatedInput,
+        constraints: { Return: { min: 5 } },
+      }) as DecisionResult;
+      expect(result.dominance.efficient).toEqual(['Index Fund']);
+      expect(result.dominance.dominated).toEqual({ 'Managed Fund': ['Index Fund'] });
+    });
+
+    it('judges dominance on the point estimates when scores are uncertain', () => {
+      const result = makeDecision({
+        ...dominatedInput,
+        scores: { ...dominatedInput.scores, Savings: [{ min: 1, likely: 2, max: 4 }, 0] },
+        simulation: { iterations: 50 },
+      }) as DecisionResult;
+      expect(result.simulation).toBeDefined();
+      expect(result.warnings.filter(w => w.includes('dominated'))).toEqual([
+        "'Managed Fund' is dominated by 'Index Fund' — no weighting can make it win.",
+      ]);
+    });
+
+    it('does not warn when every option is efficient', () => {
+      const result = makeDecision(basicInput) as DecisionResult;
+      expect(result.dominance.efficient).toEqual(basicInput.options);
+      expect(result.warnings.some(w => w.includes('dominated'))).toBe(false);
+    });
+  });
+});
+
+// =============================================================================
+// Missing Score Tests
+// =============================================================================
+
+describe('Missing scores', () => {
+  // A has no score for Y; the Y column holds 4 and 9
+  const gappy: DecisionMatrixInput = {
+    options: ['A', 'B', 'C'],
+    criteria: ['X', 'Y'],
+    scores: {
+      A: [8, null],
+      B: [6, 4],
+      C: [4, 9],
+    },
+  };
+
+  it('fills missing cells with the criterion mean by default', () => {
+    const matrix = new DecisionMatrix(gappy);
+    expect(matrix.getScores().A).toEqual([8, 6.5]);
+    const result = matrix.analyze();
+    expect(result.winner).toBe('A');
+    expect(result.totalScore.A).toBeCloseTo(7.25);
+    expect(result.imputation).toBe('mean');
+  });
+
+  it('fills with the worst score when pessimistic', () => {
+    const result = makeDecision({ ...gappy, imputation: 'pessimistic' }) as DecisionResult;
+    expect(result.totalScore.A).toBeCloseTo(6);
+    expect(result.winner).toBe('C');
+  });
+
+  it('fills with the best score when optimistic', () => {
+    const result = makeDecision({ ...gappy, imputation: 'optimistic' }) as DecisionResult;
+    expect(result.totalScore.A).toBeCloseTo(8.5);
+  });
+
+  it('takes the worst score of a minimize criterion as pessimistic', () => {
+    const matrix = new DecisionMatrix({
+      ...gappy,
+      directions: ['maximize', 'minimize'],
+      imputation: 'pessimistic',
+    });
+    expect(matrix.getScores().A).toEqual([8, 9]);
+  });
+
+  it('re-weights the remaining criteria when excluding', () => {
+    const result = makeDecision({ ...gappy, imputation: 'exclude' }) as DecisionResult;
+    // A is judged on X alone, at full weight
+    expect(result.totalScore.A).toBeCloseTo(8);
+    expect(result.totalScore.C).toBeCloseTo(6.5);
+    expect(result.scoresBreakdown.A['Y (w=0.50)']).toBe(0);
+  });
+
+  it('excludes missing cells under every method', () => {
+    for (const method of ['weighted', 'normalized', 'ranking', 'best_worst', 'topsis', 'promethee'] as AnalysisMethod[]) {
+      const result = makeDecision({ ...gappy, method, imputation: 'exclude' }) as DecisionResult;
+      expect(result.winner).toBeTruthy();
+      for (const score of Object.values(result.totalScore)) {
+        expect(Number.isFinite(score)).toBe(true);
+      }
+    }
+  });
+
+  it('flags imputed cells in the breakdown', () => {
+    const result = makeDecision(gappy) as DecisionResult;
+    expect(result.imputedScores).toEqual({ A: ['Y'] });
+    expect(result.isImputed('A', 'Y (w=0.50)')).toBe(true);
+    expect(result.isImputed('B', 'Y (w=0.50)')).toBe(false);
+    expect(result.toString()).toContain('(imputed)');
+    expect(result.comparisonTable()).toContain('* imputed');
+    expect(result.toObject().imputedScores).toEqual({ A: ['Y'] });
+  });
+
+  it('warns with each option\'s data coverage', () => {
+    const result = makeDecision(gappy) as DecisionResult;
+    const warning = result.warnings.find(w => w.includes('Data coverage'));
+    expect(warning).toBe(
+      'Some scores are missing and were filled with the criterion average. ' +
+      'Data coverage: A 50% (1/2), B 100% (2/2), C 100% (2/2).'
+    );
+  });
+
+  it('adds no coverage warning for a complete matrix', () => {
+    const result = makeDecision(basicInput) as DecisionResult;
+    expect(result.imputedScores).toEqual({});
+    expect(result.imputation).toBeUndefined();
+    expect(result.warnings.some(w => w.includes('Data coverage'))).toBe(false);
+  });
+
+  it('checks constraints against imputed scores', () => {
+    const constraints = { Y: { min: 5 } };
+    const pessimistic = makeDecision({ ...gappy, constraints, imputation: 'pessimistic' }) as DecisionResult;
+    expect(pessimistic.eliminated.find(e => e.option === 'A')?.reasons).toEqual([
+      'Y is 4 (imputed), below the minimum of 5',
+    ]);
+
+    // An excluded cell has nothing to check
+    const excluded = makeDecision({ ...gappy, constraints, imputation: 'exclude' }) as DecisionResult;
+    expect(excluded.eliminated.map(e => e.option)).toEqual(['B']);
+  });
+
+  it('rejects an option with no scores', () => {
+    expect(() =>
+      new DecisionMatrix({ ...gappy, scores: { ...gappy.scores, A: [null, null] } })
+    ).toThrow("Option 'A' has no scores");
+  });
+
+  it('rejects a criterion with no scores', () => {
+    expect(() =>
+      new DecisionMatrix({ ...gappy, scores: { A: [8, null], B: [6, null], C: [4, null] } })
+    ).toThrow("No option has a score for 'Y'");
+  });
+
+  it('rejects an unknown imputation strategy', () => {
+    expect(() =>
+      new DecisionMatrix({ ...gappy, imputation: 'median' as never })
+    ).toThrow('Unknown imputation strategy: median');
+  });
+
+  it('keeps missing cells as null in toPointScores', () => {
+    expect(toPointScores({ A: [null, { min: 1, likely: 2, max: 3 }] })).toEqual({ A: [null, 2] });
+    expect(hasUncertainScores({ A: [null, 5] })).toBe(false);
+  });
 });
 
 // =============================================================================
@@ -312,6 +1324,10 @@ describe('makeDecision()', () => {
     expect(results).toHaveProperty('normalized');
     expect(results).toHaveProperty('ranking');
     expect(results).toHaveProperty('best_worst');
+    expect(results).toHaveProperty('topsis');
+    expect(results).toHaveProperty('promethee');
+    expect(results).toHaveProperty('maximin');
+    expect(results).toHaveProperty('minimax_regret');
   });
 
   it('respects topN parameter', () => {
@@ -330,35 +1346,110 @@ describe('makeDecision()', () => {
 // =============================================================================
 
 describe('compareMethods()', () => {
+  // Better on both criteria, so every method agrees
+  const clearWinner = {
+    options: ['Strong', 'Weak'],
+    criteria: ['Speed', 'Quality'],
+    scores: { Strong: [9, 8], Weak: [3, 4] },
+  };
+
+  it('returns every method ranking', () => {
+    const comparison = compareMethods(basicInput);
+    expect(comparison.methods.map(m => m.method)).toEqual([
+      'weighted', 'normalized', 'ranking', 'best_worst', 'topsis', 'promethee', 'maximin', 'minimax_regret',
+    ]);
+    for (const method of comparison.methods) {
+      expect(method.ranking).toHaveLength(basicInput.options.length);
+      expect(method.ranking[0]).toBe(method.winner);
+      expect(method.label).toBeTruthy();
+    }
+  });
+
+  it('counts winner votes across all eight methods', () => {
+    const comparison = compareMethods(basicInput);
+    const votes = Object.values(comparison.winnerVotes).reduce((a, b) => a + b, 0);
+    expect(votes).toBe(8);
+  });
+
+  it('builds a Borda consensus ranking', () => {
+    const comparison = compareMethods(clearWinner);
+    // 1 point per method for first of two options
+    expect(comparison.consensusRanking).toEqual([['Strong', 8], ['Weak', 0]]);
+    expect(comparison.consensusWinner).toBe('Strong');
+  });
+
+  it('reports full rank agreement when methods match', () => {
+    const comparison = compareMethods(clearWinner);
+    expect(comparison.methodsDisagree).toBe(false);
+    expect(comparison.rankAgreement.pairs).toHaveLength(28);
+    expect(comparison.rankAgreement.average).toBe(1);
+  });
+
+  it('flags when methods disagree on the winner', () => {
+    // B is extreme and wins on sums; TOPSIS and the worst-case methods
+    // prefer the steady all-rounder A
+    const comparison = compareMethods({
+      options: ['A', 'B', 'C'],
+      criteria: ['X', 'Y', 'Z'],
+      scores: { A: [6, 6, 6], B: [10, 10, 0], C: [5, 5, 5] },
+      weights: [0.35, 0.35, 0.3],
+    });
+    expect(comparison.methodsDisagree).toBe(true);
+    expect(comparison.winnerVotes).toEqual({ B: 5, A: 3 });
+    // A and B tie on Borda points and keep their input order
+    expect(comparison.consensusRanking).toEqual([['A', 11], ['B', 11], ['C', 2]]);
+    expect(comparison.consensusWinner).toBe('A');
+    expect(comparison.rankAgreement.average).toBeCloseTo(19 / 56);
+    expect(formatMethodComparison(comparison)).toContain('Methods disagree on the winner: B 5, A 3');
+  });
+
+  it('keeps AHP weights, constraints and missing score handling', () => {
+    const input: DecisionMatrixInput = {
+      options: ['A', 'B', 'C', 'Too Pricey'],
+      criteria: ['Quality', 'Cost'],
+      scores: { A: [8, 6], B: [5, null], C: [3, 2], 'Too Pricey': [10, 12] },
+      pairwiseComparisons: [[1, 3], [1 / 3, 1]],
+      directions: ['maximize', 'minimize'],
+      constraints: { Cost: { max: 10 } },
+      imputation: 'pessimistic',
+      method: 'topsis',
+    };
+    const comparison = compareMethods(input);
+    for (const { method, ranking } of comparison.methods) {
+      const single = makeDecision({ ...input, method }) as DecisionResult;
+      expect(ranking).toEqual(single.rankings.map(([opt]) => opt));
+    }
+    expect(comparison.methods[0].ranking).not.toContain('Too Pricey');
+    expect(comparison.consensusRanking.map(([opt]) => opt)).not.toContain('Too Pricey');
+  });
+});
+
+describe('formatMethodComparison()', () => {
+  const comparison = compareMethods(basicInput);
+
   it('returns a formatted comparison string', () => {
-    const comparison = compareMethods(
-      basicInput.options,
-      basicInput.criteria,
-      basicInput.scores
-    );
-    expect(typeof comparison).toBe('string');
-    expect(comparison).toContain('METHOD COMPARISON');
+    const text = formatMethodComparison(comparison);
+    expect(typeof text).toBe('string');
+    expect(text).toContain('METHOD COMPARISON');
   });
 
-  it('includes all four methods', () => {
-    const comparison = compareMethods(
-      basicInput.options,
-      basicInput.criteria,
-      basicInput.scores
-    );
-    expect(comparison).toContain('WEIGHTED');
-    expect(comparison).toContain('NORMALIZED');
-    expect(comparison).toContain('RANKING');
-    expect(comparison).toContain('BEST_WORST');
+  it('includes all eight methods', () => {
+    const text = formatMethodComparison(comparison);
+    expect(text).toContain('WEIGHTED');
+    expect(text).toContain('NORMALIZED');
+    expect(text).toContain('RANKING');
+    expect(text).toContain('BEST_WORST');
+    expect(text).toContain('TOPSIS');
+    expect(text).toContain('PROMETHEE');
+    expect(text).toContain('MAXIMIN');
+    expect(text).toContain('MINIMAX_REGRET');
   });
 
-  it('shows consensus winner', () => {
-    const comparison = compareMethods(
-      basicInput.options,
-      basicInput.criteria,
-      basicInput.scores
-    );
-    expect(comparison).toContain('CONSENSUS');
+  it('shows consensus and rank agreement', () => {
+    const text = formatMethodComparison(comparison);
+    expect(text).toMatch(/CONSENSUS: .+ \(\d\/8 methods\)/);
+    expect(text).toContain('RANK AGREEMENT');
+    expect(text).toContain('BORDA RANKING');
   });
 });
 
@@ -26,14 +26,177 @@ import { debug } from '../debug';
 const MODULE = 'decision-matrix';
 
 // Types
-export type AnalysisMethod = 'weighted' | 'normalized' | 'ranking' | 'best_worst';
+export type AnalysisMethod =
+  | 'weighted'
+  | 'normalized'
+  | 'ranking'
+  | 'best_worst'
+  | 'topsis'
+  | 'promethee'
+  | 'maximin'
+  | 'minimax_regret';
+
+/** Whether a higher ('maximize') or lower ('minimize') score is better. */
+export type CriterionDirection = 'maximize' | 'minimize';
+
+/** A score known only as a range: triangular (min/likely/max) or normal (mean ± sd). */
+export type UncertainScore =
+  | { min: number; likely: number; max: number }
+  | { mean: number; sd: number };
+
+/** A single cell in the score matrix: an exact number or an uncertain estimate. */
+export type ScoreValue = number | UncertainScore;
+
+/** A score matrix cell that may be missing (null). */
+export type ScoreCell = ScoreValue | null;
+
+/**
+ * How missing (null) scores are filled:
+ * - mean: the criterion's average over the options that have a score
+ * - pessimistic: the criterion's worst score (its minimum, or maximum for 'minimize')
+ * - optimistic: the criterion's best score
+ * - exclude: the criterion is left out of that option's total and its other weights rescaled
+ */
+export type ImputationStrategy = 'mean' | 'pessimistic' | 'optimistic' | 'exclude';
+
+/**
+ * How PROMETHEE turns a score difference on one criterion into a degree of
+ * preference (0-1). Thresholds are in the criterion's own score units.
+ * - usual: any advantage is a full preference
+ * - v_shape: preference grows linearly up to `preference`, then stays at 1
+ * - linear: no preference up to `indifference`, then linear up to `preference`
+ */
+export type PreferenceFunction =
+  | { type: 'usual' }
+  | { type: 'v_shape'; preference: number }
+  | { type: 'linear'; indifference: number; preference: number };
+
+/** PROMETHEE outranking flows for one option. */
+export interface PrometheeFlows {
+  /** How strongly the option outranks the others, on average (0-1) */
+  positive: number;
+  /** How strongly the others outrank the option, on average (0-1) */
+  negative: number;
+  /** positive - negative (-1 to 1); PROMETHEE II ranks by this */
+  net: number;
+}
+
+/** Must-have bounds on a criterion's raw score; options outside them are eliminated. */
+export interface CriterionConstraint {
+  /** Lowest acceptable score (inclusive) */
+  min?: number;
+  /** Highest acceptable score (inclusive) */
+  max?: number;
+}
+
+export interface EliminatedOption {
+  option: string;
+  /** One plain-language reason per violated constraint */
+  reasons: string[];
+}
+
+export interface DominanceResult {
+  /** Options no other option beats on every criterion (the efficient frontier) */
+  efficient: string[];
+  /** Dominated options mapped to the options that dominate them */
+  dominated: Record<string, string[]>;
+}
+
+export interface SimulationOptions {
+  /** Number of Monte Carlo draws (default: 1000) */
+  iterations?: number;
+  /** Seed for the random number generator, for reproducible results (default: 1) */
+  seed?: number;
+}
+
+/** Most Monte Carlo draws a simulation may ask for. */
+export const MAX_SIMULATION_ITERATIONS = 10_000;
+
+/** Every analysis method, in the order showAllMethods runs them. */
+export const ALL_METHODS: AnalysisMethod[] = [
+  'weighted', 'normalized', 'ranking', 'best_worst', 'topsis', 'promethee', 'maximin', 'minimax_regret',
+];
 
 export interface DecisionMatrixInput {
   options: string[];
   criteria: string[];
-  scores: Record<string, number[]>;
+  /**
+   * Scores per option, one per criterion. Uncertain cells trigger a Monte Carlo
+   * simulation; null cells are missing and filled according to `imputation`.
+   */
+  scores: Record<string, ScoreCell[]>;
   weights?: number[];
+  /**
+   * Saaty 1-9 pairwise comparison matrix used to derive weights via AHP.
+   * Entry [i][j] says how much more important criterion i is than j.
+   * Use instead of `weights`.
+   */
+  pairwiseComparisons?: number[][];
+  /** Per-criterion direction, e.g. 'minimize' for Cost (default: all 'maximize') */
+  directions?: CriterionDirection[];
+  /** Hard constraints keyed by criterion name, e.g. { Liquidity: { min: 5 } } */
+  constraints?: Record<string, CriterionConstraint>;
   method?: AnalysisMethod;
+  /** Per-criterion preference functions for the 'promethee' method (default: all 'usual') */
+  preferenceFunctions?: PreferenceFunction[];
+  /** Monte Carlo settings, used when any score is uncertain */
+  simulation?: SimulationOptions;
+  /** How to fill missing (null) scores (default: 'mean') */
+  imputation?: ImputationStrategy;
+}
+
+export interface AhpResult {
+  /** Criterion weights from the principal eigenvector (sum to 1) */
+  weights: number[];
+  /** Principal eigenvalue of the comparison matrix */
+  lambdaMax: number;
+  /** Consistency index: (lambdaMax - n) / (n - 1) */
+  consistencyIndex: number;
+  /** Consistency ratio: CI divided by Saaty's random index */
+  consistencyRatio: number;
+  /** True when CR <= 0.1, Saaty's threshold for acceptable judgments */
+  isConsistent: boolean;
+}
+
+export interface SimulationSummary {
+  iterations: number;
+  seed: number;
+  /** Share of draws (0-1) in which each option ranked first */
+  winProbability: Record<string, number>;
+  /** Share of draws (0-1) in which each option landed at each rank, index 0 = 1st */
+  rankDistribution: Record<string, number[]>;
+  /** Average rank across draws (1 = best) */
+  expectedRank: Record<string, number>;
+}
+
+export interface MethodRanking {
+  method: AnalysisMethod;
+  /** Human-readable method name, e.g. 'Weighted Sum' */
+  label: string;
+  winner: string;
+  confidenceScore: number;
+  /** Options from best to worst */
+  ranking: string[];
+  /** Method-specific scores, best first */
+  scores: Array<[string, number]>;
+}
+
+export interface MethodComparison {
+  methods: MethodRanking[];
+  /** How many methods picked each option as winner */
+  winnerVotes: Record<string, number>;
+  /** Winner of the Borda consensus ranking */
+  consensusWinner: string;
+  /** Options by Borda points summed over every method's ranking, best first */
+  consensusRanking: Array<[string, number]>;
+  /** Spearman rank correlation between each pair of methods */
+  rankAgreement: {
+    /** Mean correlation over all pairs (1 = identical rankings) */
+    average: number;
+    pairs: Array<{ methods: [AnalysisMethod, AnalysisMethod]; correlation: number }>;
+  };
+  /** True when the methods don't all pick the same winner */
+  methodsDisagree: boolean;
 }
 
 export interface MakeDecisionOptions extends DecisionMatrixInput {
@@ -54,6 +217,22 @@ export interface DecisionResultData {
   strengths: Record<string, Array<[string, number]>>;
   weaknesses: Record<string, Array<[string, number]>>;
   whyWinnerWon: string;
+  /** How to read scoresBreakdown values per criterion: 'maximize' when higher is better */
+  criteriaDirections: Record<string, CriterionDirection>;
+  /** Weight each criterion had in the analysis (after AHP, before per-option rescaling) */
+  criteriaWeights: Record<string, number>;
+  /** Options removed before analysis for violating a constraint */
+  eliminated: EliminatedOption[];
+  /** Pareto dominance among the analyzed options */
+  dominance: DominanceResult;
+  /** Monte Carlo results, present when any score is uncertain */
+  simulation?: SimulationSummary;
+  /** Criteria whose scoresBreakdown value was imputed rather than scored, per option */
+  imputedScores: Record<string, string[]>;
+  /** Strategy used to fill missing scores, present when any score was missing */
+  imputation?: ImputationStrategy;
+  /** Positive, negative and net outranking flows, present for the 'promethee' method */
+  flows?: Record<string, PrometheeFlows>;
   topN?: number;
 }
 
@@ -73,6 +252,14 @@ export class DecisionResult implements DecisionResultData {
   strengths: Record<string, Array<[string, number]>>;
   weaknesses: Record<string, Array<[string, number]>>;
   whyWinnerWon: string;
+  criteriaDirections: Record<string, CriterionDirection>;
+  criteriaWeights: Record<string, number>;
+  eliminated: EliminatedOption[];
+  dominance: DominanceResult;
+  simulation?: SimulationSummary;
+  imputedScores: Record<string, string[]>;
+  imputation?: ImputationStrategy;
+  flows?: Record<string, PrometheeFlows>;
   topN?: number;
 
   constructor(data: Partial<DecisionResultData>) {
@@ -88,6 +275,14 @@ export class DecisionResult implements DecisionResultData {
     this.strengths = data.strengths ?? {};
     this.weaknesses = data.weaknesses ?? {};
     this.whyWinnerWon = data.whyWinnerWon ?? '';
+    this.criteriaDirections = data.criteriaDirections ?? {};
+    this.criteriaWeights = data.criteriaWeights ?? {};
+    this.eliminated = data.eliminated ?? [];
+    this.dominance = data.dominance ?? { efficient: [], dominated: {} };
+    this.simulation = data.simulation;
+    this.imputedScores = data.imputedScores ?? {};
+    this.imputation = data.imputation;
+    this.flows = data.flows;
     this.topN = data.topN;
   }
 
@@ -103,6 +298,29 @@ export class DecisionResult implements DecisionResultData {
       `   Confidence: ${this.confidenceScore.toFixed(1)}%`,
     ];
 
+    if (this.simulation) {
+      lines.push(`\n🎲 SIMULATION (${this.simulation.iterations} draws, seed ${this.simulation.seed}):`);
+      const byProbability = Object.entries(this.simulation.winProbability)
+        .sort((a, b) => b[1] - a[1]);
+      for (const [option, probability] of byProbability) {
+        lines.push(
+          `   ${option.padEnd(20)} wins ${(probability * 100).toFixed(1).padStart(5)}% ` +
+          `(avg rank ${this.simulation.expectedRank[option].toFixed(2)})`
+        );
+      }
+    }
+
+    if (this.flows) {
+      lines.push('\n🔀 OUTRANKING FLOWS (φ+ / φ- / net):');
+      for (const [option] of this.rankings) {
+        const { positive, negative, net } = this.flows[option];
+        lines.push(
+          `   ${option.padEnd(20)} ${positive.toFixed(3)} / ${negative.toFixed(3)} / ` +
+          `${net >= 0 ? '+' : ''}${net.toFixed(3)}`
+        );
+      }
+    }
+
     if (this.warnings.length > 0) {
       lines.push('\n⚠️  Warnings:');
       for (const warning of this.warnings) {
@@ -152,6 +370,13 @@ export class DecisionResult implements DecisionResultData {
       lines.push(`   ... and ${this.rankings.length - this.topN} more options`);
     }
 
+    if (this.eliminated.length > 0) {
+      lines.push('\n🚫 ELIMINATED:');
+      for (const { option, reasons } of this.eliminated) {
+        lines.push(`   ✗ ${option}: ${reasons.join('; ')}`);
+      }
+    }
+
     lines.push(
       '\n💡 RECOMMENDATION:',
       `   ${this.recommendation}`,
@@ -161,7 +386,8 @@ export class DecisionResult implements DecisionResultData {
     for (const [option, criteriaScores] of Object.entries(this.scoresBreakdown)) {
       lines.push(`\n   ${option}:`);
       for (const [criterion, score] of Object.entries(criteriaScores)) {
-        lines.push(`      ${criterion.padEnd(20)}: ${score.toFixed(2).padStart(6)}`);
+        const flag = this.isImputed(option, criterion) ? ' (imputed)' : '';
+        lines.push(`      ${criterion.padEnd(20)}: ${score.toFixed(2).padStart(6)}${flag}`);
       }
     }
 
@@ -210,22 +436,34 @@ export class DecisionResult implements DecisionResultData {
       for (const option of Object.keys(this.scoresBreakdown)) {
         const score = this.scoresBreakdown[option][criterion] ?? 0;
         scores[option] = score;
-        row += score.toFixed(1).padStart(Math.floor(optionWidth / 2))
-                              .padEnd(optionWidth) + ' | ';
+        const cell = score.toFixed(1) + (this.isImputed(option, criterion) ? '*' : '');
+        row += cell.padStart(Math.floor(optionWidth / 2))
+                   .padEnd(optionWidth) + ' | ';
       }
 
-      // Find winner for this criterion
+      // Find winner for this criterion (lowest value wins when minimizing)
+      const minimize = this.criteriaDirections[cleanCriterion] === 'minimize';
       const winner = Object.entries(scores).reduce((a, b) =>
-        a[1] > b[1] ? a : b
+        (minimize ? a[1] < b[1] : a[1] > b[1]) ? a : b
       )[0];
       row += winner;
       lines.push(row);
     }
 
     lines.push('='.repeat(70));
+    if (Object.keys(this.imputedScores).length > 0) {
+      lines.push('* imputed (score was missing)');
+    }
     return lines.join('\n');
   }
 
+  /**
+   * Whether a scoresBreakdown entry (keyed with annotations) was imputed.
+   */
+  isImputed(option: string, criterionKey: string): boolean {
+    return this.imputedScores[option]?.includes(criterionKey.split(' (')[0]) ?? false;
+  }
+
   /**
    * Convert to plain object for serialization.
    */
@@ -264,6 +502,39 @@ export class DecisionResult implements DecisionResultData {
         ])
       ),
       whyWinnerWon: this.whyWinnerWon,
+      criteriaDirections: this.criteriaDirections,
+      criteriaWeights: Object.fromEntries(
+        Object.entries(this.criteriaWeights).map(([crit, w]) => [crit, Math.round(w * 10000) / 10000])
+      ),
+      eliminated: this.eliminated,
+      dominance: this.dominance,
+      simulation: this.simulation && {
+        ...this.simulation,
+        winProbability: Object.fromEntries(
+          Object.entries(this.simulation.winProbability).map(([opt, p]) => [opt, Math.round(p * 10000) / 10000])
+        ),
+        rankDistribution: Object.fromEntries(
+          Object.entries(this.simulation.rankDistribution).map(([opt, dist]) => [
+            opt,
+            dist.map(p => Math.round(p * 10000) / 10000)
+          ])
+        ),
+        expectedRank: Object.fromEntries(
+          Object.entries(this.simulation.expectedRank).map(([opt, r]) => [opt, Math.round(r * 100) / 100])
+        ),
+      },
+      imputedScores: this.imputedScores,
+      imputation: this.imputation,
+      flows: this.flows && Object.fromEntries(
+        Object.entries(this.flows).map(([opt, { positive, negative, net }]) => [
+          opt,
+          {
+            positive: Math.round(positive * 10000) / 10000,
+            negative: Math.round(negative * 10000) / 10000,
+            net: Math.round(net * 10000) / 10000,
+          },
+        ])
+      ),
       topN: this.topN,
     };
   }
@@ -284,13 +555,26 @@ export class DecisionResult implements DecisionResultData {
  * - normalized: Normalized scores (0-100 scale)
  * - ranking: Convert scores to rankings per criterion
  * - best_worst: Best-worst scaling method
+ * - topsis: Closeness to the ideal and anti-ideal solutions (TOPSIS)
+ * - promethee: Pairwise outranking with net flows (PROMETHEE II)
+ * - maximin: Best worst-case criterion score (Wald)
+ * - minimax_regret: Smallest worst-case shortfall against the best option (Savage)
  */
 export class DecisionMatrix {
   private options: string[];
   private criteria: string[];
   private scores: Record<string, number[]>;
+  private uncertainScores: Record<string, ScoreValue[]>;
+  /** True where the input cell was null, per option */
+  private missing: Record<string, boolean[]>;
+  private imputation: ImputationStrategy;
+  private simulation: SimulationOptions;
+  private eliminated: EliminatedOption[] = [];
   private weights: number[];
+  private directions: CriterionDirection[];
+  private preferenceFunctions: PreferenceFunction[];
   private method: AnalysisMethod;
+  private ahp: AhpResult | null = null;
 
   constructor(input: DecisionMatrixInput) {
     debug.group(MODULE, 'DecisionMatrix Constructor');
@@ -299,24 +583,70 @@ export class DecisionMatrix {
       criteriaCount: input.criteria.length,
       method: input.method ?? 'weighted',
       hasCustomWeights: !!input.weights,
+      hasPairwiseComparisons: !!input.pairwiseComparisons,
+      hasUncertainScores: hasUncertainScores(input.scores),
+      constrainedCriteria: Object.keys(input.constraints ?? {}),
+      minimizedCriteria: input.directions?.filter(d => d === 'minimize').length ?? 0,
     });
 
     this.options = input.options;
     this.criteria = input.criteria;
-    this.scores = input.scores;
+    this.simulation = input.simulation ?? {};
+    this.directions = input.directions ?? Array(input.criteria.length).fill('maximize');
     this.method = input.method ?? 'weighted';
+    this.preferenceFunctions = input.preferenceFunctions ??
+      Array(input.criteria.length).fill({ type: 'usual' });
+    this.imputation = input.imputation ?? 'mean';
 
     // Validate inputs
-    this.validateInputs();
+    this.validateInputs(input.scores);
     debug.success(MODULE, 'Input validation passed');
 
-    // Set weights (equal if not provided)
-    if (!input.weights) {
+    // Fill missing cells
+    const { scores, missing } = this.imputeMissing(input.scores);
+    this.uncertainScores = scores;
+    this.scores = toPointScores(scores);
+    this.missing = missing;
+
+    // Drop options that violate a hard constraint
+    if (input.constraints) {
+      this.applyConstraints(input.constraints);
+    }
+
+    // Set weights (AHP-derived, equal if not provided)
+    if (input.pairwiseComparisons) {
+      if (input.weights) {
+        debug.error(MODULE, 'Validation failed: both weights and pairwise comparisons provided');
+        throw new Error('Provide either weights or pairwiseComparisons, not both');
+      }
+      if (input.pairwiseComparisons.length !== this.criteria.length) {
+        debug.error(MODULE, 'Validation failed: pairwise matrix size mismatch', {
+          matrixSize: input.pairwiseComparisons.length,
+          criteriaCount: this.criteria.length,
+        });
+        throw new Error(
+          `Pairwise comparison matrix is ${input.pairwiseComparisons.length}x` +
+          `${input.pairwiseComparisons.length} but there are ${this.criteria.length} criteria`
+        );
+      }
+      this.ahp = calculateAhpWeights(input.pairwiseComparisons);
+      this.weights = this.ahp.weights;
+      debug.log(MODULE, 'Using AHP-derived weights', this.weights);
+    } else if (!input.weights) {
       this.weights = Array(this.criteria.length).fill(1.0 / this.criteria.length);
       debug.log(MODULE, 'Using equal weights', this.weights);
     } else {
       // Normalize weights to sum to 1
       const total = input.weights.reduce((a, b) => a + b, 0);
+      const bad = input.weights.find(w => !Number.isFinite(w) || w < 0);
+      if (bad !== undefined) {
+        debug.error(MODULE, `Validation failed: invalid weight ${bad}`);
+        throw new Error(`Weights must be non-negative numbers, got ${bad}`);
+      }
+      if (total <= 0) {
+        debug.error(MODULE, 'Validation failed: weights sum to zero', { weights: input.weights });
+        throw new Error('At least one criterion needs a weight above zero');
+      }
       this.weights = input.weights.map(w => w / total);
       debug.log(MODULE, 'Normalized weights', {
         original: input.weights,
@@ -327,7 +657,23 @@ export class DecisionMatrix {
     debug.groupEnd();
   }
 
-  private validateInputs(): void {
+  /**
+   * Normalized criterion weights (sum to 1) used by the analysis.
+   */
+  getWeights(): number[] {
+    return [...this.weights];
+  }
+
+  /**
+   * Point scores per option with missing cells filled in.
+   */
+  getScores(): Record<string, number[]> {
+    return Object.fromEntries(
+      Object.entries(this.scores).map(([option, row]) => [option, [...row]])
+    );
+  }
+
+  private validateInputs(scores: Record<string, ScoreCell[]>): void {
     debug.log(MODULE, 'Validating inputs...');
 
     if (this.options.length === 0) {
@@ -340,29 +686,240 @@ export class DecisionMatrix {
       throw new Error('Must provide at least one criterion');
     }
 
-    if (Object.keys(this.scores).length === 0) {
+    if (Object.keys(scores).length === 0) {
       debug.error(MODULE, 'Validation failed: no scores provided');
       throw new Error('Must provide scores');
     }
 
     // Check all options have scores
     for (const option of this.options) {
-      if (!(option in this.scores)) {
+      if (!(option in scores)) {
         debug.error(MODULE, `Validation failed: missing scores for "${option}"`);
         throw new Error(`Missing scores for option: ${option}`);
       }
 
-      if (this.scores[option].length !== this.criteria.length) {
+      if (scores[option].length !== this.criteria.length) {
         debug.error(MODULE, `Validation failed: score count mismatch for "${option}"`, {
-          scoresProvided: this.scores[option].length,
+          scoresProvided: scores[option].length,
           criteriaCount: this.criteria.length,
         });
         throw new Error(
-          `Option '${option}' has ${this.scores[option].length} ` +
+          `Option '${option}' has ${scores[option].length} ` +
           `scores but ${this.criteria.length} criteria`
         );
       }
+
+      if (scores[option].every(value => value === null)) {
+        debug.error(MODULE, `Validation failed: every score missing for "${option}"`);
+        throw new Error(`Option '${option}' has no scores`);
+      }
+    }
+
+    // Every criterion needs at least one score to impute from
+    this.criteria.forEach((criterion, i) => {
+      if (this.options.every(option => scores[option][i] === null)) {
+        debug.error(MODULE, `Validation failed: every score missing for "${criterion}"`);
+        throw new Error(`No option has a score for '${criterion}'`);
+      }
+    });
+
+    if (!['mean', 'pessimistic', 'optimistic', 'exclude'].includes(this.imputation)) {
+      debug.error(MODULE, `Validation failed: unknown imputation strategy "${this.imputation}"`);
+      throw new Error(`Unknown imputation strategy: ${this.imputation}`);
+    }
+
+    // Check uncertain cells are well-formed
+    for (const option of this.options) {
+      scores[option].forEach((value, i) => {
+        if (value === null) return;
+        const problem = describeInvalidScore(value);
+        if (problem) {
+          debug.error(MODULE, `Validation failed: invalid score for "${option}"`, { criterion: this.criteria[i], value });
+          throw new Error(`Option '${option}' has an invalid score for '${this.criteria[i]}': ${problem}`);
+        }
+      });
+    }
+
+    const { iterations } = this.simulation;
+    if (iterations !== undefined && (!Number.isInteger(iterations) || iterations < 1)) {
+      debug.error(MODULE, `Validation failed: invalid simulation iterations ${iterations}`);
+      throw new Error(`Simulation iterations must be a positive integer, got ${iterations}`);
+    }
+    if (iterations !== undefined && iterations > MAX_SIMULATION_ITERATIONS) {
+      debug.error(MODULE, `Validation failed: too many simulation iterations ${iterations}`);
+      throw new Error(`Simulation iterations can't exceed ${MAX_SIMULATION_ITERATIONS}, got ${iterations}`);
+    }
+
+    if (this.directions.length !== this.criteria.length) {
+      debug.error(MODULE, 'Validation failed: direction count mismatch', {
+        directionsProvided: this.directions.length,
+        criteriaCount: this.criteria.length,
+      });
+      throw new Error(
+        `Got ${this.directions.length} directions but ${this.criteria.length} criteria`
+      );
+    }
+
+    for (const direction of this.directions) {
+      if (direction !== 'maximize' && direction !== 'minimize') {
+        debug.error(MODULE, `Validation failed: unknown direction "${direction}"`);
+        throw new Error(`Unknown criterion direction: ${direction}`);
+      }
+    }
+
+    if (this.preferenceFunctions.length !== this.criteria.length) {
+      debug.error(MODULE, 'Validation failed: preference function count mismatch', {
+        preferenceFunctionsProvided: this.preferenceFunctions.length,
+        criteriaCount: this.criteria.length,
+      });
+      throw new Error(
+        `Got ${this.preferenceFunctions.length} preference functions but ${this.criteria.length} criteria`
+      );
+    }
+
+    this.preferenceFunctions.forEach((fn, i) => {
+      const problem = describeInvalidPreferenceFunction(fn);
+      if (problem) {
+        debug.error(MODULE, `Validation failed: invalid preference function for "${this.criteria[i]}"`, fn);
+        throw new Error(`Invalid preference function for '${this.criteria[i]}': ${problem}`);
+      }
+    });
+  }
+
+  /**
+   * Remove options whose (point) scores fall outside a criterion's bounds.
+   */
+  private applyConstraints(constraints: Record<string, CriterionConstraint>): void {
+    for (const [criterion, { min, max }] of Object.entries(constraints)) {
+      if (!this.criteria.includes(criterion)) {
+        debug.error(MODULE, `Validation failed: constraint on unknown criterion "${criterion}"`);
+        throw new Error(`Constraint refers to unknown criterion: ${criterion}`);
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        debug.error(MODULE, `Validation failed: empty constraint range on "${criterion}"`, { min, max });
+        throw new Error(`Constraint on '${criterion}' has min ${min} greater than max ${max}`);
+      }
+    }
+
+    const eliminated: EliminatedOption[] = [];
+    for (const option of this.options) {
+      const reasons: string[] = [];
+      this.criteria.forEach((criterion, i) => {
+        const constraint = constraints[criterion];
+        if (!constraint) return;
+        // An excluded cell has no score to hold against the constraint
+        if (this.missing[option][i] && this.imputation === 'exclude') return;
+        const score = this.scores[option][i];
+        const value = this.missing[option][i] ? `${score} (imputed)` : `${score}`;
+        if (constraint.min !== undefined && score < constraint.min) {
+          reasons.push(`${criterion} is ${value}, below the minimum of ${constraint.min}`);
+        }
+        if (constraint.max !== undefined && score > constraint.max) {
+          reasons.push(`${criterion} is ${value}, above the maximum of ${constraint.max}`);
+        }
+      });
+      if (reasons.length > 0) {
+        eliminated.push({ option, reasons });
+      }
+    }
+
+    if (eliminated.length === this.options.length) {
+      debug.error(MODULE, 'Validation failed: every option violates a constraint', eliminated);
+      throw new Error(
+        'Every option violates a constraint: ' +
+        eliminated.map(e => `${e.option} (${e.reasons.join('; ')})`).join(', ')
+      );
+    }
+
+    const eliminatedNames = new Set(eliminated.map(e => e.option));
+    this.options = this.options.filter(opt => !eliminatedNames.has(opt));
+    this.eliminated = eliminated;
+    debug.log(MODULE, 'Constraints applied', {
+      eliminated: eliminated.map(e => e.option),
+      remaining: this.options,
+    });
+  }
+
+  /**
+   * Fill null cells per the imputation strategy, using each criterion's
+   * point scores across all options. Excluded cells get the criterion mean
+   * as a neutral placeholder and zero weight (see weightsFor).
+   */
+  private imputeMissing(scores: Record<string, ScoreCell[]>): {
+    scores: Record<string, ScoreValue[]>;
+    missing: Record<string, boolean[]>;
+  } {
+    const fills = this.criteria.map((_, i) => {
+      const present = this.options
+        .map(option => scores[option][i])
+        .filter((value): value is ScoreValue => value !== null)
+        .map(pointEstimate);
+      const worst = this.directions[i] === 'minimize' ? Math.max(...present) : Math.min(...present);
+      const best = this.directions[i] === 'minimize' ? Math.min(...present) : Math.max(...present);
+      switch (this.imputation) {
+        case 'pessimistic':
+          return worst;
+        case 'optimistic':
+          return best;
+        default:
+          return present.reduce((a, b) => a + b, 0) / present.length;
+      }
+    });
+
+    const filled: Record<string, ScoreValue[]> = {};
+    const missing: Record<string, boolean[]> = {};
+    for (const option of this.options) {
+      missing[option] = scores[option].map(value => value === null);
+      filled[option] = scores[option].map((value, i) => value ?? fills[i]);
+    }
+
+    const missingCount = Object.values(missing).flat().filter(Boolean).length;
+    if (missingCount > 0) {
+      debug.log(MODULE, `Imputed ${missingCount} missing scores`, {
+        strategy: this.imputation,
+        fills: Object.fromEntries(this.criteria.map((c, i) => [c, fills[i]])),
+      });
+    }
+
+    return { scores: filled, missing };
+  }
+
+  /**
+   * Criterion weights for one option: the shared weights, except that with
+   * 'exclude' imputation the option's missing criteria get zero weight and
+   * the rest are rescaled to sum to 1.
+   */
+  private weightsFor(option: string): number[] {
+    const missing = this.missing[option];
+    if (this.imputation !== 'exclude' || !missing.some(Boolean)) {
+      return this.weights;
+    }
+    const present = this.weights.reduce((sum, w, i) => (missing[i] ? sum : sum + w), 0);
+    return this.weights.map((w, i) => (missing[i] || present === 0 ? 0 : w / present));
+  }
+
+  /**
+   * Score for an option on a criterion, flipped within the observed range
+   * for 'minimize' criteria so that higher is always better.
+   */
+  private orientedScore(option: string, criterionIdx: number): number {
+    const score = this.scores[option][criterionIdx];
+    if (this.directions[criterionIdx] === 'maximize') {
+      return score;
     }
+    const criterionScores = this.options.map(opt => this.scores[opt][criterionIdx]);
+    return Math.max(...criterionScores) + Math.min(...criterionScores) - score;
+  }
+
+  /**
+   * Criterion directions keyed by criterion name, for DecisionResult.
+   */
+  private directionsByCriterion(
+    override?: CriterionDirection
+  ): Record<string, CriterionDirection> {
+    return Object.fromEntries(
+      this.criteria.map((c, i) => [c, override ?? this.directions[i]])
+    );
   }
 
   /**
@@ -371,33 +928,184 @@ export class DecisionMatrix {
   analyze(): DecisionResult {
     const endTimer = debug.time(MODULE, `analyze(${this.method})`);
 
-    let result: DecisionResult;
+    // Dominance is judged once on the point estimates, not on every simulation draw
+    const dominance = this.findDominance();
+    const result = this.runMethod();
+    result.warnings.push(...this.dominanceWarnings(dominance));
+    result.criteriaWeights = Object.fromEntries(this.criteria.map((c, i) => [c, this.weights[i]]));
+    result.eliminated = this.eliminated;
+    result.dominance = dominance;
+
+    // Only remaining options take part in the simulation
+    const remainingScores = Object.fromEntries(
+      this.options.map(opt => [opt, this.uncertainScores[opt]])
+    );
+    if (hasUncertainScores(remainingScores)) {
+      this.applySimulation(result);
+    }
+
+    this.applyCoverage(result);
+
+    if (this.ahp && !this.ahp.isConsistent) {
+      result.warnings.push(
+        `Pairwise comparisons are inconsistent (consistency ratio ` +
+        `${this.ahp.consistencyRatio.toFixed(2)} > 0.10) — revisit the judgments ` +
+        `before trusting the derived weights.`
+      );
+    }
+
+    endTimer();
+    debug.success(MODULE, 'Analysis complete', {
+      winner: result.winner,
+      confidence: result.confidenceScore.toFixed(1) + '%',
+      rankings: result.rankings.map(([opt, score]) => `${opt}: ${score.toFixed(2)}`),
+    });
+
+    return result;
+  }
+
+  /**
+   * Flag imputed cells and warn with each option's data coverage.
+   */
+  private applyCoverage(result: DecisionResult): void {
+    const imputedScores: Record<string, string[]> = {};
+    for (const option of this.options) {
+      const imputed = this.criteria.filter((_, i) => this.missing[option][i]);
+      if (imputed.length > 0) {
+        imputedScores[option] = imputed;
+      }
+    }
+    if (Object.keys(imputedScores).length === 0) {
+      return;
+    }
+
+    result.imputedScores = imputedScores;
+    result.imputation = this.imputation;
+
+    const handling: Record<ImputationStrategy, string> = {
+      mean: 'filled with the criterion average',
+      pessimistic: 'filled with the worst score on that criterion',
+      optimistic: 'filled with the best score on that criterion',
+      exclude: 'left out, with the remaining criteria re-weighted',
+    };
+    const coverage = this.options.map(option => {
+      const scored = this.criteria.length - (imputedScores[option]?.length ?? 0);
+      const pct = (scored / this.criteria.length) * 100;
+      return `${option} ${pct.toFixed(0)}% (${scored}/${this.criteria.length})`;
+    });
+    result.warnings.push(
+      `Some scores are missing and were ${handling[this.imputation]}. ` +
+      `Data coverage: ${coverage.join(', ')}.`
+    );
+  }
+
+  private runMethod(): DecisionResult {
     switch (this.method) {
       case 'weighted':
-        result = this.analyzeWeighted();
-        break;
+        return this.analyzeWeighted();
       case 'normalized':
-        result = this.analyzeNormalized();
-        break;
+        return this.analyzeNormalized();
       case 'ranking':
-        result = this.analyzeRanking();
-        break;
+        return this.analyzeRanking();
       case 'best_worst':
-        result = this.analyzeBestWorst();
-        break;
+        return this.analyzeBestWorst();
+      case 'topsis':
+        return this.analyzeTopsis();
+      case 'promethee':
+        return this.analyzePromethee();
+      case 'maximin':
+        return this.analyzeMaximin();
+      case 'minimax_regret':
+        return this.analyzeMinimaxRegret();
       default:
         debug.error(MODULE, `Unknown analysis method: ${this.method}`);
         throw new Error(`Unknown analysis method: ${this.method}`);
     }
+  }
 
-    endTimer();
-    debug.success(MODULE, 'Analysis complete', {
-      winner: result.winner,
-      confidence: result.confidenceScore.toFixed(1) + '%',
-      rankings: result.rankings.map(([opt, score]) => `${opt}: ${score.toFixed(2)}`),
-    });
+  /**
+   * Re-run the analysis on random draws of the uncertain scores, then
+   * replace the result's confidence with the winner's win probability.
+   */
+  private applySimulation(result: DecisionResult): void {
+    const { iterations = 1000, seed = 1 } = this.simulation;
+    debug.log(MODULE, 'Running Monte Carlo simulation...', { iterations, seed });
 
-    return result;
+    const random = createRandom(seed);
+    const wins: Record<string, number> = {};
+    const rankCounts: Record<string, number[]> = {};
+    for (const option of this.options) {
+      wins[option] = 0;
+      rankCounts[option] = Array(this.options.length).fill(0);
+    }
+
+    const pointScores = this.scores;
+    try {
+      for (let i = 0; i < iterations; i++) {
+        this.scores = Object.fromEntries(
+          this.options.map(opt => [opt, this.uncertainScores[opt].map(v => sampleScore(v, random))])
+        );
+        const draw = this.runMethod();
+        wins[draw.winner]++;
+        draw.rankings.forEach(([option], rank) => rankCounts[option][rank]++);
+      }
+    } finally {
+      this.scores = pointScores;
+    }
+
+    const simulation: SimulationSummary = {
+      iterations,
+      seed,
+      winProbability: Object.fromEntries(
+        this.options.map(opt => [opt, wins[opt] / iterations])
+      ),
+      rankDistribution: Object.fromEntries(
+        this.options.map(opt => [opt, rankCounts[opt].map(count => count / iterations)])
+      ),
+      expectedRank: Object.fromEntries(
+        this.options.map(opt => [
+          opt,
+          rankCounts[opt].reduce((sum, count, rank) => sum + count * (rank + 1), 0) / iterations,
+        ])
+      ),
+    };
+
+    // Confidence becomes the chance that the point-estimate winner really wins
+    result.simulation = simulation;
+    result.confidenceScore = simulation.winProbability[result.winner] * 100;
+    switch (this.method) {
+      case 'topsis':
+        result.recommendation = this.generateTopsisRecommendation(result.rankings, result.confidenceScore);
+        break;
+      case 'promethee':
+        result.recommendation = this.generatePrometheeRecommendation(result.rankings, result.confidenceScore);
+        break;
+      case 'maximin':
+      case 'minimax_regret':
+        result.recommendation = this.generateWorstCaseRecommendation(
+          result.rankings, result.scoresBreakdown, result.confidenceScore
+        );
+        break;
+      default:
+        result.recommendation = this.generateRecommendation(
+          result.rankings, result.normalizedScores, result.confidenceScore
+        );
+    }
+
+    const [likeliest, likeliestProbability] = Object.entries(simulation.winProbability)
+      .reduce((a, b) => (b[1] > a[1] ? b : a));
+    if (likeliest !== result.winner) {
+      result.warnings.push(
+        `'${likeliest}' wins more simulations (${(likeliestProbability * 100).toFixed(1)}%) ` +
+        `than '${result.winner}' (${result.confidenceScore.toFixed(1)}%) — ` +
+        `the most likely scores are misleading here.`
+      );
+    }
+
+    debug.log(MODULE, 'Simulation complete', {
+      winProbability: Object.entries(simulation.winProbability)
+        .map(([opt, p]) => `${opt}: ${(p * 100).toFixed(1)}%`),
+    });
   }
 
   private analyzeWeighted(): DecisionResult {
@@ -405,11 +1113,12 @@ export class DecisionMatrix {
     const totalScores: Record<string, number> = {};
     const breakdown: Record<string, Record<string, number>> = {};
 
-    // Calculate weighted scores
+    // Calculate weighted scores ('minimize' criteria count in reverse)
     for (const option of this.options) {
       const optionScores = this.scores[option];
+      const weights = this.weightsFor(option);
       const weightedTotal = optionScores.reduce(
-        (sum, score, i) => sum + score * this.weights[i],
+        (sum, _score, i) => sum + this.orientedScore(option, i) * weights[i],
         0
       );
       totalScores[option] = weightedTotal;
@@ -418,10 +1127,10 @@ export class DecisionMatrix {
         weightedTotal: weightedTotal.toFixed(2),
       });
 
-      // Build breakdown
+      // Build breakdown from the same oriented scores, so it adds up to the total
       breakdown[option] = {};
       for (let i = 0; i < this.criteria.length; i++) {
-        const weightedScore = optionScores[i] * this.weights[i];
+        const weightedScore = this.orientedScore(option, i) * weights[i];
         breakdown[option][`${this.criteria[i]} (w=${this.weights[i].toFixed(2)})`] = weightedScore;
       }
     }
@@ -447,11 +1156,15 @@ export class DecisionMatrix {
       confidence = 100.0;
     }
 
-    // Calculate strengths and weaknesses
-    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown);
+    // Calculate strengths and weaknesses (breakdown values are oriented, so
+    // higher is better on every criterion)
+    const criteriaDirections = this.directionsByCriterion('maximize');
+    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown, criteriaDirections);
 
     // Calculate why winner won
-    const whyWinnerWon = this.calculateWhyWinnerWon(rankings[0][0], rankings, breakdown);
+    const whyWinnerWon = this.calculateWhyWinnerWon(
+      rankings[0][0], rankings, breakdown, criteriaDirections
+    );
 
     // Generate recommendation
     const recommendation = this.generateRecommendation(rankings, normalized, confidence);
@@ -470,6 +1183,7 @@ export class DecisionMatrix {
       strengths,
       weaknesses,
       whyWinnerWon,
+      criteriaDirections,
     });
   }
 
@@ -479,13 +1193,13 @@ export class DecisionMatrix {
 
     // Normalize each criterion to 0-100
     for (let criterionIdx = 0; criterionIdx < this.criteria.length; criterionIdx++) {
-      const criterionScores = this.options.map(opt => this.scores[opt][criterionIdx]);
+      const criterionScores = this.options.map(opt => this.orientedScore(opt, criterionIdx));
       const minScore = Math.min(...criterionScores);
       const maxScore = Math.max(...criterionScores);
       const scoreRange = maxScore > minScore ? maxScore - minScore : 1;
 
       for (const option of this.options) {
-        const rawScore = this.scores[option][criterionIdx];
+        const rawScore = this.orientedScore(option, criterionIdx);
         const normalized = ((rawScore - minScore) / scoreRange) * 100;
 
         if (!normalizedScores[option]) {
@@ -498,8 +1212,9 @@ export class DecisionMatrix {
     // Calculate weighted totals
     const totalScores: Record<string, number> = {};
     for (const option of this.options) {
+      const weights = this.weightsFor(option);
       const weightedTotal = normalizedScores[option].reduce(
-        (sum, score, i) => sum + score * this.weights[i],
+        (sum, score, i) => sum + score * weights[i],
         0
       );
       totalScores[option] = weightedTotal;
@@ -543,6 +1258,7 @@ export class DecisionMatrix {
       confidenceScore: confidence,
       recommendation,
       warnings,
+      criteriaDirections: this.directionsByCriterion('maximize'),
     });
   }
 
@@ -558,14 +1274,14 @@ export class DecisionMatrix {
       const criterion = this.criteria[criterionIdx];
       const criterionScores: Record<string, number> = {};
       for (const opt of this.options) {
-        criterionScores[opt] = this.scores[opt][criterionIdx];
+        criterionScores[opt] = this.orientedScore(opt, criterionIdx);
       }
 
       const ranked = Object.entries(criterionScores)
         .sort((a, b) => b[1] - a[1]);
 
       ranked.forEach(([option, _score], rank) => {
-        const weightedRank = (rank + 1) * this.weights[criterionIdx];
+        const weightedRank = (rank + 1) * this.weightsFor(option)[criterionIdx];
         totalRanks[option] += weightedRank;
 
         if (!breakdown[option]) {
@@ -611,6 +1327,8 @@ export class DecisionMatrix {
       confidenceScore: confidence,
       recommendation,
       warnings,
+      // Rank 1 is best on every criterion
+      criteriaDirections: this.directionsByCriterion('minimize'),
     });
   }
 
@@ -620,15 +1338,14 @@ export class DecisionMatrix {
 
     // Scale each option relative to best and worst
     for (const option of this.options) {
-      const optionScores = this.scores[option];
-
       let totalScore = 0;
+      const weights = this.weightsFor(option);
       breakdown[option] = {};
 
       for (let i = 0; i < this.criteria.length; i++) {
         const criterion = this.criteria[i];
-        const score = optionScores[i];
-        const criterionScores = this.options.map(opt => this.scores[opt][i]);
+        const score = this.orientedScore(option, i);
+        const criterionScores = this.options.map(opt => this.orientedScore(opt, i));
         const best = Math.max(...criterionScores);
         const worst = Math.min(...criterionScores);
 
@@ -639,7 +1356,7 @@ export class DecisionMatrix {
           scaled = 1.0;
         }
 
-        const weightedScaled = scaled * this.weights[i];
+        const weightedScaled = scaled * weights[i];
         totalScore += weightedScaled;
 
         breakdown[option][`${criterion} (best-worst)`] = scaled * 100;
@@ -680,49 +1397,448 @@ export class DecisionMatrix {
       confidenceScore: confidence,
       recommendation,
       warnings,
+      criteriaDirections: this.directionsByCriterion('maximize'),
     });
   }
 
-  private calculateStrengthsWeaknesses(
-    breakdown: Record<string, Record<string, number>>
-  ): { strengths: Record<string, Array<[string, number]>>; weaknesses: Record<string, Array<[string, number]>> } {
-    const strengths: Record<string, Array<[string, number]>> = {};
-    const weaknesses: Record<string, Array<[string, number]>> = {};
-
-    for (const option of Object.keys(breakdown)) {
-      // Get scores for this option
-      const criterionScores: Array<[string, number]> = [];
-      for (const [criterion, score] of Object.entries(breakdown[option])) {
-        // Extract clean criterion name
-        const cleanCriterion = criterion.split(' (')[0];
-        criterionScores.push([cleanCriterion, score]);
-      }
+  /**
+   * TOPSIS (Technique for Order of Preference by Similarity to Ideal Solution).
+   *
+   * Each criterion is vector-normalized, so criteria on very different scales
+   * contribute comparably. Options are then ranked by their relative closeness
+   * to the ideal solution (best value on every criterion) versus the
+   * anti-ideal solution (worst value on every criterion). For 'minimize'
+   * criteria the lowest value is the ideal.
+   */
+  private analyzeTopsis(): DecisionResult {
+    debug.log(MODULE, 'Running TOPSIS analysis...');
+    const weightedNormalized: Record<string, number[]> = {};
+    const breakdown: Record<string, Record<string, number>> = {};
 
-      // Sort by score
-      criterionScores.sort((a, b) => b[1] - a[1]);
+    for (const option of this.options) {
+      weightedNormalized[option] = [];
+      breakdown[option] = {};
+    }
 
-      const topStrengths = criterionScores.slice(0, 3);
-      const strengthNames = new Set(topStrengths.map(([name]) => name));
+    // Vector-normalize each criterion, then apply weights
+    const ideal: number[] = [];
+    const antiIdeal: number[] = [];
+    for (let i = 0; i < this.criteria.length; i++) {
+      const criterionScores = this.options.map(opt => this.scores[opt][i]);
+      const norm = Math.sqrt(criterionScores.reduce((sum, s) => sum + s * s, 0));
 
-      const bottomCandidates = [...criterionScores].reverse();
-      const filteredWeaknesses: Array<[string, number]> = [];
-      for (const [name, score] of bottomCandidates) {
-        if (strengthNames.has(name)) continue;
-        filteredWeaknesses.push([name, score]);
-        if (filteredWeaknesses.length === 3) break;
+      for (const option of this.options) {
+        const normalized = norm > 0 ? this.scores[option][i] / norm : 0;
+        const weighted = normalized * this.weights[i];
+        weightedNormalized[option].push(weighted);
+        breakdown[option][`${this.criteria[i]} (w=${this.weights[i].toFixed(2)})`] = weighted * 100;
       }
 
-      strengths[option] = topStrengths;
-      weaknesses[option] = filteredWeaknesses;
+      const column = this.options.map(opt => weightedNormalized[opt][i]);
+      const [best, worst] = this.directions[i] === 'minimize'
+        ? [Math.min(...column), Math.max(...column)]
+        : [Math.max(...column), Math.min(...column)];
+      ideal.push(best);
+      antiIdeal.push(worst);
     }
 
-    return { strengths, weaknesses };
-  }
-
-  private calculateWhyWinnerWon(
-    winner: string,
+    // Relative closeness: distance to anti-ideal over total distance
+    const closeness: Record<string, number> = {};
+    for (const option of this.options) {
+      // Excluded cells don't count toward either distance
+      const values = weightedNormalized[option];
+      const counts = (i: number) => !(this.imputation === 'exclude' && this.missing[option][i]);
+      const toIdeal = Math.sqrt(
+        values.reduce((sum, v, i) => (counts(i) ? sum + (v - ideal[i]) ** 2 : sum), 0)
+      );
+      const toAntiIdeal = Math.sqrt(
+        values.reduce((sum, v, i) => (counts(i) ? sum + (v - antiIdeal[i]) ** 2 : sum), 0)
+      );
+      const total = toIdeal + toAntiIdeal;
+      // Identical options are all sitting on the ideal solution
+      closeness[option] = total > 0 ? toAntiIdeal / total : 1.0;
+      debug.log(MODULE, `TOPSIS closeness for "${option}"`, {
+        toIdeal: toIdeal.toFixed(4),
+        toAntiIdeal: toAntiIdeal.toFixed(4),
+        closeness: closeness[option].toFixed(4),
+      });
+    }
+
+    // Rank options
+    const rankings = Object.entries(closeness)
+      .sort((a, b) => b[1] - a[1]) as Array<[string, number]>;
+
+    // Closeness is already on a 0-1 scale
+    const normalized: Record<string, number> = {};
+    for (const [opt, c] of Object.entries(closeness)) {
+      normalized[opt] = c * 100;
+    }
+
+    // A 0.25 closeness gap between 1st and 2nd is treated as decisive
+    let confidence: number;
+    if (rankings.length > 1) {
+      const gap = rankings[0][1] - rankings[1][1];
+      confidence = Math.min(100, (gap / 0.25) * 100);
+    } else {
+      confidence = 100.0;
+    }
+
+    const criteriaDirections = this.directionsByCriterion();
+    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown, criteriaDirections);
+    const whyWinnerWon = this.calculateWhyWinnerWon(
+      rankings[0][0], rankings, breakdown, criteriaDirections
+    );
+    const recommendation = this.generateTopsisRecommendation(rankings, confidence);
+    const warnings = this.generateWarnings(rankings, normalized);
+
+    return new DecisionResult({
+      winner: rankings[0][0],
+      rankings,
+      scoresBreakdown: breakdown,
+      analysisMethod: 'TOPSIS (Closeness to Ideal)',
+      totalScore: closeness,
+      normalizedScores: normalized,
+      confidenceScore: confidence,
+      recommendation,
+      warnings,
+      strengths,
+      weaknesses,
+      whyWinnerWon,
+      criteriaDirections,
+    });
+  }
+
+  /**
+   * PROMETHEE II (Preference Ranking Organization Method for Enrichment of
+   * Evaluations).
+   *
+   * Compares every pair of options criterion by criterion. Each criterion's
+   * preference function turns the score difference into a degree of
+   * preference (0-1), so one huge advantage counts no more than a full
+   * preference and can't buy back a large shortfall elsewhere. Options are
+   * ranked by net flow: how strongly they outrank the others minus how
+   * strongly the others outrank them.
+   */
+  private analyzePromethee(): DecisionResult {
+    debug.log(MODULE, 'Running PROMETHEE II analysis...');
+    const others = Math.max(1, this.options.length - 1);
+    const flows: Record<string, PrometheeFlows> = {};
+    const breakdown: Record<string, Record<string, number>> = {};
+
+    for (const option of this.options) {
+      flows[option] = { positive: 0, negative: 0, net: 0 };
+      breakdown[option] = {};
+      this.criteria.forEach((criterion, i) => {
+        breakdown[option][`${criterion} (w=${this.weights[i].toFixed(2)})`] = 0;
+      });
+    }
+
+    for (const a of this.options) {
+      for (const b of this.options) {
+        if (a === b) continue;
+        const weights = this.pairWeights(a, b);
+        let preference = 0;
+        this.criteria.forEach((criterion, i) => {
+          const difference = this.directions[i] === 'minimize'
+            ? this.scores[b][i] - this.scores[a][i]
+            : this.scores[a][i] - this.scores[b][i];
+          const degree = applyPreferenceFunction(this.preferenceFunctions[i], difference);
+          preference += weights[i] * degree;
+
+          // Per-criterion net flow (x100), which sums to the option's net flow
+          const key = `${criterion} (w=${this.weights[i].toFixed(2)})`;
+          breakdown[a][key] += (weights[i] * degree * 100) / others;
+          breakdown[b][key] -= (weights[i] * degree * 100) / others;
+        });
+        flows[a].positive += preference / others;
+        flows[b].negative += preference / others;
+      }
+    }
+
+    for (const option of this.options) {
+      flows[option].net = flows[option].positive - flows[option].negative;
+      debug.log(MODULE, `PROMETHEE flows for "${option}"`, {
+        positive: flows[option].positive.toFixed(4),
+        negative: flows[option].negative.toFixed(4),
+        net: flows[option].net.toFixed(4),
+      });
+    }
+
+    // Rank options by net flow
+    const netFlows = Object.fromEntries(this.options.map(opt => [opt, flows[opt].net]));
+    const rankings = Object.entries(netFlows)
+      .sort((a, b) => b[1] - a[1]) as Array<[string, number]>;
+
+    // Net flow runs from -1 to 1
+    const normalized: Record<string, number> = {};
+    for (const [opt, net] of Object.entries(netFlows)) {
+      normalized[opt] = ((net + 1) / 2) * 100;
+    }
+
+    // A 0.5 net flow gap between 1st and 2nd is treated as decisive
+    let confidence: number;
+    if (rankings.length > 1) {
+      const gap = rankings[0][1] - rankings[1][1];
+      confidence = Math.min(100, (gap / 0.5) * 100);
+    } else {
+      confidence = 100.0;
+    }
+
+    // Breakdown values are flows, so higher is better on every criterion
+    const criteriaDirections = this.directionsByCriterion('maximize');
+    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown, criteriaDirections);
+    const whyWinnerWon = this.calculateWhyWinnerWon(
+      rankings[0][0], rankings, breakdown, criteriaDirections
+    );
+    const recommendation = this.generatePrometheeRecommendation(rankings, confidence);
+    const warnings = this.generateWarnings(rankings, normalized);
+
+    return new DecisionResult({
+      winner: rankings[0][0],
+      rankings,
+      scoresBreakdown: breakdown,
+      analysisMethod: 'PROMETHEE II (Net Outranking Flow)',
+      totalScore: netFlows,
+      normalizedScores: normalized,
+      confidenceScore: confidence,
+      recommendation,
+      warnings,
+      strengths,
+      weaknesses,
+      whyWinnerWon,
+      criteriaDirections,
+      flows,
+    });
+  }
+
+  /**
+   * Maximin (Wald's criterion): the pessimist's rule.
+   *
+   * Scores each criterion as a percentage of the best score on it (best
+   * divided by score for 'minimize' criteria), so it doesn't depend on how
+   * badly the other options did. An option is only as good as its weakest
+   * criterion, and the option with the best weakest criterion wins. Weights
+   * are ignored, since any criterion could be the one that lets you down,
+   * except that criteria weighted 0 (or excluded as missing) are skipped.
+   * Ties go to the better second-weakest criterion, and so on (leximin).
+   */
+  private analyzeMaximin(): DecisionResult {
+    debug.log(MODULE, 'Running maximin analysis...');
+    const breakdown: Record<string, Record<string, number>> = {};
+    const counted: Record<string, number[]> = {};
+    for (const option of this.options) {
+      breakdown[option] = {};
+      counted[option] = [];
+    }
+
+    for (let i = 0; i < this.criteria.length; i++) {
+      const column = this.options.map(opt => this.scores[opt][i]);
+      const minimize = this.directions[i] === 'minimize';
+      // Ratios only make sense for positive scores; otherwise place within the range
+      const ratio = minimize ? column.every(s => s > 0) : column.every(s => s >= 0) && Math.max(...column) > 0;
+      const oriented = this.options.map(opt => this.orientedScore(opt, i));
+      const [low, high] = [Math.min(...oriented), Math.max(...oriented)];
+
+      this.options.forEach((option, idx) => {
+        const score = this.scores[option][i];
+        let share: number;
+        if (ratio) {
+          share = minimize ? (Math.min(...column) / score) * 100 : (score / Math.max(...column)) * 100;
+        } else {
+          share = high > low ? ((oriented[idx] - low) / (high - low)) * 100 : 100;
+        }
+        breakdown[option][`${this.criteria[i]} (% of best)`] = share;
+        if (this.weightsFor(option)[i] > 0) {
+          counted[option].push(share);
+        }
+      });
+    }
+
+    const worst: Record<string, number> = {};
+    for (const option of this.options) {
+      counted[option].sort((a, b) => a - b);
+      worst[option] = counted[option][0] ?? 100;
+      debug.log(MODULE, `Maximin worst case for "${option}"`, { worst: worst[option].toFixed(2) });
+    }
+
+    // Best worst case first, ties broken by the next-worst criterion
+    const rankings = this.options
+      .map(opt => [opt, worst[opt]] as [string, number])
+      .sort((a, b) => compareSorted(counted[b[0]], counted[a[0]]));
+
+    // A 25-point gap between worst cases is treated as decisive
+    const confidence = rankings.length > 1
+      ? Math.min(100, ((rankings[0][1] - rankings[1][1]) / 25) * 100)
+      : 100.0;
+
+    const normalized = { ...worst };
+    const criteriaDirections = this.directionsByCriterion('maximize');
+    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown, criteriaDirections);
+
+    return new DecisionResult({
+      winner: rankings[0][0],
+      rankings,
+      scoresBreakdown: breakdown,
+      analysisMethod: 'Maximin (Best Worst Case)',
+      totalScore: worst,
+      normalizedScores: normalized,
+      confidenceScore: confidence,
+      recommendation: this.generateWorstCaseRecommendation(rankings, breakdown, confidence),
+      warnings: this.generateWarnings(rankings, normalized),
+      strengths,
+      weaknesses,
+      whyWinnerWon: this.describeWorstCase(rankings, breakdown),
+      criteriaDirections,
+    });
+  }
+
+  /**
+   * Minimax regret (Savage's criterion).
+   *
+   * Regret on a criterion is how far an option falls short of the best
+   * option there, as a percentage of the spread between best and worst,
+   * scaled by the criterion's weight relative to the heaviest one. So
+   * coming last on the most important criterion is a regret of 100. The
+   * option whose largest regret is smallest wins; ties go to the smaller
+   * second-largest regret, and so on. scoresBreakdown is the regret table.
+   */
+  private analyzeMinimaxRegret(): DecisionResult {
+    debug.log(MODULE, 'Running minimax regret analysis...');
+    const heaviest = Math.max(...this.weights);
+    const breakdown: Record<string, Record<string, number>> = {};
+    const counted: Record<string, number[]> = {};
+    for (const option of this.options) {
+      breakdown[option] = {};
+      counted[option] = [];
+    }
+
+    for (let i = 0; i < this.criteria.length; i++) {
+      const oriented = this.options.map(opt => this.orientedScore(opt, i));
+      const [low, high] = [Math.min(...oriented), Math.max(...oriented)];
+      const scale = heaviest > 0 ? this.weights[i] / heaviest : 1;
+
+      this.options.forEach((option, idx) => {
+        const counts = this.weightsFor(option)[i] > 0;
+        const shortfall = high > low ? (high - oriented[idx]) / (high - low) : 0;
+        const regret = counts ? shortfall * scale * 100 : 0;
+        breakdown[option][`${this.criteria[i]} (regret)`] = regret;
+        if (counts) {
+          counted[option].push(regret);
+        }
+      });
+    }
+
+    const maxRegret: Record<string, number> = {};
+    for (const option of this.options) {
+      counted[option].sort((a, b) => b - a);
+      maxRegret[option] = counted[option][0] ?? 0;
+      debug.log(MODULE, `Largest regret for "${option}"`, { regret: maxRegret[option].toFixed(2) });
+    }
+
+    // Smallest largest regret first, ties broken by the next-largest regret
+    const rankings = this.options
+      .map(opt => [opt, maxRegret[opt]] as [string, number])
+      .sort((a, b) => compareSorted(counted[a[0]], counted[b[0]]));
+
+    // A 25-point gap between largest regrets is treated as decisive
+    const confidence = rankings.length > 1
+      ? Math.min(100, ((rankings[1][1] - rankings[0][1]) / 25) * 100)
+      : 100.0;
+
+    const normalized: Record<string, number> = {};
+    for (const [opt, regret] of rankings) {
+      normalized[opt] = 100 - regret;
+    }
+
+    // Breakdown values are regrets, so lower is better on every criterion
+    const criteriaDirections = this.directionsByCriterion('minimize');
+    const { strengths, weaknesses } = this.calculateStrengthsWeaknesses(breakdown, criteriaDirections);
+
+    return new DecisionResult({
+      winner: rankings[0][0],
+      rankings,
+      scoresBreakdown: breakdown,
+      analysisMethod: 'Minimax Regret (Smallest Worst-Case Regret)',
+      totalScore: maxRegret,
+      normalizedScores: normalized,
+      confidenceScore: confidence,
+      recommendation: this.generateWorstCaseRecommendation(rankings, breakdown, confidence),
+      warnings: this.generateWarnings(rankings, normalized),
+      strengths,
+      weaknesses,
+      whyWinnerWon: this.describeWorstCase(rankings, breakdown),
+      criteriaDirections,
+    });
+  }
+
+  /**
+   * Criterion weights for comparing two options: with 'exclude' imputation,
+   * criteria missing for either option are left out and the rest rescaled.
+   */
+  private pairWeights(a: string, b: string): number[] {
+    if (this.imputation !== 'exclude') {
+      return this.weights;
+    }
+    const skip = (i: number) => this.missing[a][i] || this.missing[b][i];
+    const present = this.weights.reduce((sum, w, i) => (skip(i) ? sum : sum + w), 0);
+    return this.weights.map((w, i) => (skip(i) || present === 0 ? 0 : w / present));
+  }
+
+  private calculateStrengthsWeaknesses(
+    breakdown: Record<string, Record<string, number>>,
+    directions: Record<string, CriterionDirection> = {}
+  ): { strengths: Record<string, Array<[string, number]>>; weaknesses: Record<string, Array<[string, number]>> } {
+    const strengths: Record<string, Array<[string, number]>> = {};
+    const weaknesses: Record<string, Array<[string, number]>> = {};
+
+    // Range of each breakdown column, used to flip 'minimize' criteria for sorting
+    const columnRanges: Record<string, [number, number]> = {};
+    for (const optionScores of Object.values(breakdown)) {
+      for (const [criterion, score] of Object.entries(optionScores)) {
+        const [min, max] = columnRanges[criterion] ?? [score, score];
+        columnRanges[criterion] = [Math.min(min, score), Math.max(max, score)];
+      }
+    }
+
+    for (const option of Object.keys(breakdown)) {
+      // Get scores for this option, with a sort key where higher is better
+      const criterionScores: Array<[string, number, number]> = [];
+      for (const [criterion, score] of Object.entries(breakdown[option])) {
+        // Extract clean criterion name
+        const cleanCriterion = criterion.split(' (')[0];
+        const [min, max] = columnRanges[criterion];
+        const sortKey = directions[cleanCriterion] === 'minimize' ? min + max - score : score;
+        criterionScores.push([cleanCriterion, score, sortKey]);
+      }
+
+      // Sort by score
+      criterionScores.sort((a, b) => b[2] - a[2]);
+
+      const topStrengths = criterionScores
+        .slice(0, 3)
+        .map(([name, score]) => [name, score] as [string, number]);
+      const strengthNames = new Set(topStrengths.map(([name]) => name));
+
+      const bottomCandidates = [...criterionScores].reverse();
+      const filteredWeaknesses: Array<[string, number]> = [];
+      for (const [name, score] of bottomCandidates) {
+        if (strengthNames.has(name)) continue;
+        filteredWeaknesses.push([name, score]);
+        if (filteredWeaknesses.length === 3) break;
+      }
+
+      strengths[option] = topStrengths;
+      weaknesses[option] = filteredWeaknesses;
+    }
+
+    return { strengths, weaknesses };
+  }
+
+  private calculateWhyWinnerWon(
+    winner: string,
     rankings: Array<[string, number]>,
-    breakdown: Record<string, Record<string, number>>
+    breakdown: Record<string, Record<string, number>>,
+    directions: Record<string, CriterionDirection> = {}
   ): string {
     if (rankings.length < 2) {
       return 'Only option available.';
@@ -739,9 +1855,14 @@ export class DecisionMatrix {
       const cleanCriterion = criterion.split(' (')[0];
       const winnerScore = winnerScores[criterion];
       const runnerUpScore = runnerUpScores[criterion] ?? 0;
-
-      if (winnerScore > runnerUpScore * 1.1) {  // 10% better
-        const advantage = winnerScore - runnerUpScore;
+      const minimize = directions[cleanCriterion] === 'minimize';
+
+      // 10% better (10% lower for 'minimize' criteria)
+      const isAdvantage = minimize
+        ? winnerScore * 1.1 < runnerUpScore
+        : winnerScore - runnerUpScore > Math.abs(runnerUpScore) * 0.1;
+      if (isAdvantage) {
+        const advantage = Math.abs(winnerScore - runnerUpScore);
         // Extract weight if present
         let weight: number | null = null;
         if (criterion.includes('(w=')) {
@@ -830,6 +1951,146 @@ export class DecisionMatrix {
     }
   }
 
+  private generateTopsisRecommendation(
+    rankings: Array<[string, number]>,
+    confidence: number
+  ): string {
+    const [winner, winnerCloseness] = rankings[0];
+
+    if (confidence > 55) {
+      return (
+        `Strong recommendation: '${winner}' sits closest to the ideal solution ` +
+        `(closeness ${winnerCloseness.toFixed(2)}) and furthest from the worst case.`
+      );
+    } else if (confidence > 30) {
+      if (rankings.length > 1) {
+        const [runnerUp, runnerUpCloseness] = rankings[1];
+        return (
+          `Moderate recommendation: '${winner}' is closest to the ideal ` +
+          `(closeness ${winnerCloseness.toFixed(2)}), but '${runnerUp}' ` +
+          `(${runnerUpCloseness.toFixed(2)}) is not far behind. ` +
+          `Consider other factors.`
+        );
+      }
+      return `Moderate recommendation: '${winner}' with closeness ${winnerCloseness.toFixed(2)}.`;
+    } else {
+      const top3 = rankings.slice(0, 3).map(([opt]) => opt);
+      return (
+        `Weak recommendation: Options are a similar distance from the ideal solution. ` +
+        `Top choices: ${top3.join(', ')}. ` +
+        `Consider additional criteria or stakeholder input.`
+      );
+    }
+  }
+
+  private generatePrometheeRecommendation(
+    rankings: Array<[string, number]>,
+    confidence: number
+  ): string {
+    const [winner, winnerFlow] = rankings[0];
+    const flow = (net: number) => `${net >= 0 ? '+' : ''}${net.toFixed(2)}`;
+
+    if (confidence > 55) {
+      return (
+        `Strong recommendation: '${winner}' outranks the other options ` +
+        `(net flow ${flow(winnerFlow)}) without relying on one criterion to carry it.`
+      );
+    } else if (confidence > 30) {
+      if (rankings.length > 1) {
+        const [runnerUp, runnerUpFlow] = rankings[1];
+        return (
+          `Moderate recommendation: '${winner}' outranks the field ` +
+          `(net flow ${flow(winnerFlow)}), but '${runnerUp}' ` +
+          `(${flow(runnerUpFlow)}) is close behind. ` +
+          `Consider other factors.`
+        );
+      }
+      return `Moderate recommendation: '${winner}' with net flow ${flow(winnerFlow)}.`;
+    } else {
+      const top3 = rankings.slice(0, 3).map(([opt]) => opt);
+      return (
+        `Weak recommendation: No option clearly outranks the others. ` +
+        `Top choices: ${top3.join(', ')}. ` +
+        `Consider additional criteria or stakeholder input.`
+      );
+    }
+  }
+
+  /**
+   * The criterion behind an option's worst case (its lowest share of the
+   * best score, or its largest regret), for the maximin and regret methods.
+   */
+  private worstCriterion(breakdown: Record<string, number>, worst: number): string {
+    const key = Object.keys(breakdown).find(k => breakdown[k] === worst) ?? '';
+    return key.split(' (')[0];
+  }
+
+  private describeWorstCase(
+    rankings: Array<[string, number]>,
+    breakdown: Record<string, Record<string, number>>
+  ): string {
+    if (rankings.length < 2) {
+      return 'Only option available.';
+    }
+    const [[winner, winnerWorst], [runnerUp, runnerUpWorst]] = rankings;
+    const winnerCriterion = this.worstCriterion(breakdown[winner], winnerWorst);
+    const runnerUpCriterion = this.worstCriterion(breakdown[runnerUp], runnerUpWorst);
+
+    if (this.method === 'maximin') {
+      return (
+        `Its weakest criterion, ${winnerCriterion}, still reaches ${winnerWorst.toFixed(0)}% of the best score; ` +
+        `'${runnerUp}' drops to ${runnerUpWorst.toFixed(0)}% on ${runnerUpCriterion}`
+      );
+    }
+    return (
+      `Its biggest regret, ${winnerCriterion}, is ${winnerWorst.toFixed(0)} points; ` +
+      `'${runnerUp}' gives up ${runnerUpWorst.toFixed(0)} on ${runnerUpCriterion}`
+    );
+  }
+
+  private generateWorstCaseRecommendation(
+    rankings: Array<[string, number]>,
+    breakdown: Record<string, Record<string, number>>,
+    confidence: number
+  ): string {
+    const maximin = this.method === 'maximin';
+    const [winner, winnerWorst] = rankings[0];
+    const worstCase = (option: string, worst: number) => {
+      const criterion = this.worstCriterion(breakdown[option], worst);
+      return maximin
+        ? `${criterion} at ${worst.toFixed(0)}% of the best score`
+        : `${worst.toFixed(0)} points of regret on ${criterion}`;
+    };
+
+    if (confidence > 55) {
+      const runnerUp = rankings[1];
+      return (
+        `Strong recommendation: '${winner}' is the least bad choice if things go wrong — ` +
+        `its worst case is ${worstCase(winner, winnerWorst)}` +
+        (runnerUp ? `, against ${worstCase(runnerUp[0], runnerUp[1])} for '${runnerUp[0]}'.` : '.')
+      );
+    } else if (confidence > 30) {
+      if (rankings.length > 1) {
+        const [runnerUp, runnerUpWorst] = rankings[1];
+        return (
+          `Moderate recommendation: '${winner}' has the best worst case ` +
+          `(${worstCase(winner, winnerWorst)}), but '${runnerUp}' ` +
+          `(${worstCase(runnerUp, runnerUpWorst)}) is close behind. ` +
+          `Consider other factors.`
+        );
+      }
+      return `Moderate recommendation: '${winner}' with ${worstCase(winner, winnerWorst)}.`;
+    } else {
+      const top3 = rankings.slice(0, 3).map(([opt]) => opt);
+      return (
+        `Weak recommendation: The options' worst cases are closely matched ` +
+        `(${maximin ? 'ties are broken by the next-weakest criterion' : 'ties are broken by the next-largest regret'}). ` +
+        `Top choices: ${top3.join(', ')}. ` +
+        `Consider additional criteria or stakeholder input.`
+      );
+    }
+  }
+
   private generateWarnings(
     rankings: Array<[string, number]>,
     normalized: Record<string, number>
@@ -853,6 +2114,226 @@ export class DecisionMatrix {
 
     return warnings;
   }
+
+  private dominanceWarnings({ dominated }: DominanceResult): string[] {
+    return Object.entries(dominated).map(([option, dominators]) =>
+      `'${option}' is dominated by ${dominators.map(d => `'${d}'`).join(', ')} — ` +
+      `no weighting can make it win.`
+    );
+  }
+
+  private findDominance(): DominanceResult {
+    return analyzeDominance(this.options, this.scores, this.directions);
+  }
+}
+
+/**
+ * Find Pareto-dominated options and the efficient frontier.
+ *
+ * Option A dominates option B when A is at least as good on every criterion
+ * and strictly better on at least one. A dominated option can never win
+ * under any weighting, so it can be dropped before choosing weights.
+ * Uncertain scores are compared at their point estimates.
+ *
+ * @example
+ * ```ts
+ * const dominance = analyzeDominance(
+ *   ["A", "B", "C"],
+ *   { A: [8, 6], B: [7, 5], C: [5, 9] }
+ * );
+ * dominance.efficient;  // ["A", "C"]
+ * dominance.dominated;  // { B: ["A"] }
+ * ```
+ */
+export function analyzeDominance(
+  options: string[],
+  scores: Record<string, ScoreValue[]>,
+  directions?: CriterionDirection[]
+): DominanceResult {
+  const pointScores = toPointScores(scores);
+
+  // Signed so that higher is always better
+  const oriented = (option: string) =>
+    pointScores[option].map((score, i) => (directions?.[i] === 'minimize' ? -score : score));
+
+  const dominated: Record<string, string[]> = {};
+  for (const option of options) {
+    const candidate = oriented(option);
+    const dominators = options.filter(other => {
+      if (other === option) return false;
+      const challenger = oriented(other);
+      return (
+        challenger.every((score, i) => score >= candidate[i]) &&
+        challenger.some((score, i) => score > candidate[i])
+      );
+    });
+    if (dominators.length > 0) {
+      dominated[option] = dominators;
+    }
+  }
+
+  return {
+    efficient: options.filter(opt => !Object.hasOwn(dominated, opt)),
+    dominated,
+  };
+}
+
+/**
+ * Compare two ascending (or descending) lists element by element, for
+ * leximin-style tie breaking. Negative when `a` is smaller at the first difference.
+ */
+function compareSorted(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (Math.abs(a[i] - b[i]) > 1e-9) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/**
+ * Spearman rank correlation between two orderings of the same options.
+ *
+ * Returns 1 for identical order, -1 for reversed order and 0 when the
+ * orderings are unrelated. Options missing from either list are ignored.
+ */
+export function spearmanCorrelation(rankingA: string[], rankingB: string[]): number {
+  const common = rankingA.filter(opt => rankingB.includes(opt));
+  const n = common.length;
+  if (n < 2) return 1;
+
+  const rankIn = (ranking: string[]) => {
+    const filtered = ranking.filter(opt => common.includes(opt));
+    return (opt: string) => filtered.indexOf(opt) + 1;
+  };
+  const rankA = rankIn(rankingA);
+  const rankB = rankIn(rankingB);
+
+  const sumSquaredDiff = common.reduce((sum, opt) => sum + (rankA(opt) - rankB(opt)) ** 2, 0);
+  return 1 - (6 * sumSquaredDiff) / (n * (n * n - 1));
+}
+
+/**
+ * Whether any score in the matrix is an uncertain estimate.
+ */
+export function hasUncertainScores(scores: Record<string, ScoreCell[]>): boolean {
+  return Object.values(scores).some(row =>
+    row.some(value => value !== null && typeof value !== 'number')
+  );
+}
+
+/**
+ * Collapse uncertain scores to their point estimates (likely value or mean).
+ * Missing (null) cells stay null.
+ */
+export function toPointScores(scores: Record<string, ScoreValue[]>): Record<string, number[]>;
+export function toPointScores(scores: Record<string, ScoreCell[]>): Record<string, Array<number | null>>;
+export function toPointScores(scores: Record<string, ScoreCell[]>): Record<string, Array<number | null>> {
+  return Object.fromEntries(
+    Object.entries(scores).map(([option, row]) => [
+      option,
+      row.map(value => (value === null ? null : pointEstimate(value))),
+    ])
+  );
+}
+
+function pointEstimate(value: ScoreValue): number {
+  if (typeof value === 'number') return value;
+  return 'likely' in value ? value.likely : value.mean;
+}
+
+function describeInvalidScore(value: ScoreValue): string | null {
+  if (typeof value === 'number') {
+    return null;
+  }
+  if ('likely' in value) {
+    const { min, likely, max } = value;
+    if (![min, likely, max].every(Number.isFinite)) return 'min, likely and max must be numbers';
+    if (!(min <= likely && likely <= max)) return 'expected min <= likely <= max';
+    return null;
+  }
+  if ('mean' in value) {
+    const { mean, sd } = value;
+    if (![mean, sd].every(Number.isFinite)) return 'mean and sd must be numbers';
+    if (sd < 0) return 'sd must not be negative';
+    return null;
+  }
+  return 'expected a number, { min, likely, max } or { mean, sd }';
+}
+
+/**
+ * Describe what is wrong with a PROMETHEE preference function, or null if valid.
+ */
+function describeInvalidPreferenceFunction(fn: PreferenceFunction): string | null {
+  switch (fn?.type) {
+    case 'usual':
+      return null;
+    case 'v_shape':
+      if (!Number.isFinite(fn.preference) || fn.preference <= 0) {
+        return 'preference threshold must be a positive number';
+      }
+      return null;
+    case 'linear':
+      if (![fn.indifference, fn.preference].every(Number.isFinite)) {
+        return 'indifference and preference thresholds must be numbers';
+      }
+      if (!(fn.indifference >= 0 && fn.indifference < fn.preference)) {
+        return 'expected 0 <= indifference < preference';
+      }
+      return null;
+    default:
+      return "expected type 'usual', 'v_shape' or 'linear'";
+  }
+}
+
+/**
+ * Degree (0-1) to which a score advantage of `difference` is preferred.
+ */
+function applyPreferenceFunction(fn: PreferenceFunction, difference: number): number {
+  if (difference <= 0) return 0;
+  switch (fn.type) {
+    case 'v_shape':
+      return Math.min(1, difference / fn.preference);
+    case 'linear':
+      if (difference <= fn.indifference) return 0;
+      return Math.min(1, (difference - fn.indifference) / (fn.preference - fn.indifference));
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleScore(value: ScoreValue, random: () => number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  if ('likely' in value) {
+    // Inverse CDF of the triangular distribution
+    const { min, likely, max } = value;
+    if (max === min) return min;
+    const u = random();
+    const split = (likely - min) / (max - min);
+    return u < split
+      ? min + Math.sqrt(u * (max - min) * (likely - min))
+      : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+  }
+
+  // Box-Muller transform for the normal distribution
+  const u1 = 1 - random();
+  const u2 = random();
+  return value.mean + value.sd * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 }
 
 /**
@@ -889,28 +2370,18 @@ export function makeDecision(
   });
 
   const {
-    options: opts,
-    criteria,
-    scores,
-    weights,
     method = 'weighted',
     showAllMethods = false,
     topN,
+    ...input
   } = options;
 
   if (showAllMethods) {
-    debug.log(MODULE, 'Running all 4 analysis methods...');
+    debug.log(MODULE, `Running all ${ALL_METHODS.length} analysis methods...`);
     const results: Record<string, DecisionResult> = {};
-    const methods: AnalysisMethod[] = ['weighted', 'normalized', 'ranking', 'best_worst'];
-
-    for (const methodName of methods) {
-      const matrix = new DecisionMatrix({
-        options: opts,
-        criteria,
-        scores,
-        weights,
-        method: methodName,
-      });
+
+    for (const methodName of ALL_METHODS) {
+      const matrix = new DecisionMatrix({ ...input, method: methodName });
       const result = matrix.analyze();
       result.topN = topN;
       results[methodName] = result;
@@ -922,13 +2393,7 @@ export function makeDecision(
     debug.groupEnd();
     return results as Record<AnalysisMethod, DecisionResult>;
   } else {
-    const matrix = new DecisionMatrix({
-      options: opts,
-      criteria,
-      scores,
-      weights,
-      method,
-    });
+    const matrix = new DecisionMatrix({ ...input, method });
     const result = matrix.analyze();
     result.topN = topN;
     debug.groupEnd();
@@ -936,60 +2401,213 @@ export function makeDecision(
   }
 }
 
+/** Saaty's random consistency index, indexed by matrix size */
+const AHP_RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+/**
+ * Derive criterion weights from an AHP pairwise comparison matrix.
+ *
+ * Each entry [i][j] uses Saaty's 1-9 scale (1 = equal, 9 = extremely more
+ * important) and [j][i] must be its reciprocal. Weights come from the
+ * principal eigenvector, found by power iteration.
+ *
+ * @example
+ * ```ts
+ * // Tax Benefit is 3x as important as Flexibility, 5x as important as Growth
+ * const ahp = calculateAhpWeights([
+ *   [1,   3,   5],
+ *   [1/3, 1,   2],
+ *   [1/5, 1/2, 1],
+ * ]);
+ * ahp.weights;           // ≈ [0.65, 0.23, 0.12]
+ * ahp.consistencyRatio;  // ≈ 0.003
+ * ```
+ */
+export function calculateAhpWeights(matrix: number[][]): AhpResult {
+  const n = matrix.length;
+  debug.log(MODULE, 'calculateAhpWeights() called', { size: n });
+
+  if (n === 0) {
+    debug.error(MODULE, 'AHP validation failed: empty matrix');
+    throw new Error('Pairwise comparison matrix must not be empty');
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (matrix[i].length !== n) {
+      debug.error(MODULE, `AHP validation failed: row ${i + 1} has ${matrix[i].length} entries`);
+      throw new Error(`Pairwise comparison matrix must be square (row ${i + 1} has ${matrix[i].length} entries, expected ${n})`);
+    }
+    for (let j = 0; j < n; j++) {
+      const value = matrix[i][j];
+      if (!Number.isFinite(value) || value < 1 / 9 - 1e-9 || value > 9 + 1e-9) {
+        debug.error(MODULE, `AHP validation failed: [${i + 1}][${j + 1}] = ${value}`);
+        throw new Error(`Pairwise comparison [${i + 1}][${j + 1}] must be between 1/9 and 9, got ${value}`);
+      }
+      if (Math.abs(value * matrix[j][i] - 1) > 0.01) {
+        debug.error(MODULE, `AHP validation failed: [${i + 1}][${j + 1}] is not reciprocal`);
+        throw new Error(
+          `Pairwise comparison [${j + 1}][${i + 1}] must be the reciprocal of [${i + 1}][${j + 1}]`
+        );
+      }
+    }
+  }
+
+  // Power iteration for the principal eigenvector
+  let weights: number[] = Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const next = matrix.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+    const total = next.reduce((a, b) => a + b, 0);
+    const normalizedNext = next.map(v => v / total);
+    const delta = Math.max(...normalizedNext.map((v, i) => Math.abs(v - weights[i])));
+    weights = normalizedNext;
+    if (delta < 1e-10) break;
+  }
+
+  // lambdaMax is the average ratio of (A·w)_i to w_i
+  const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+  const lambdaMax = product.reduce((sum, v, i) => sum + v / weights[i], 0) / n;
+
+  const consistencyIndex = n > 2 ? (lambdaMax - n) / (n - 1) : 0;
+  const randomIndex = AHP_RANDOM_INDEX[Math.min(n, AHP_RANDOM_INDEX.length - 1)];
+  const consistencyRatio = randomIndex > 0 ? Math.max(0, consistencyIndex / randomIndex) : 0;
+
+  debug.log(MODULE, 'AHP weights derived', {
+    weights: weights.map(w => w.toFixed(3)),
+    lambdaMax: lambdaMax.toFixed(3),
+    consistencyRatio: consistencyRatio.toFixed(3),
+  });
+
+  return {
+    weights,
+    lambdaMax,
+    consistencyIndex,
+    consistencyRatio,
+    isConsistent: consistencyRatio <= 0.1,
+  };
+}
+
 /**
  * Compare results across all analysis methods.
  *
- * @returns A formatted comparison of all methods
+ * Every method sees the same input: AHP comparisons, constraints, missing
+ * score handling, preference functions and simulation settings all carry
+ * over, and only `method` is replaced.
+ *
+ * @returns Each method's ranking, how closely the rankings agree and a
+ *   Borda consensus ranking. Use formatMethodComparison() for text output.
  */
-export function compareMethods(
-  options: string[],
-  criteria: string[],
-  scores: Record<string, number[]>,
-  weights?: number[]
-): string {
+export function compareMethods(input: DecisionMatrixInput): MethodComparison {
   debug.log(MODULE, 'compareMethods() called', {
-    options,
-    criteria,
-    hasWeights: !!weights,
+    options: input.options,
+    criteria: input.criteria,
+    hasWeights: !!input.weights,
+    hasDirections: !!input.directions,
   });
 
+  // showAllMethods runs each method in turn in place of input.method
   const results = makeDecision({
-    options,
-    criteria,
-    scores,
-    weights,
+    ...input,
     showAllMethods: true,
   }) as Record<AnalysisMethod, DecisionResult>;
 
+  const methods: MethodRanking[] = ALL_METHODS.map(method => ({
+    method,
+    label: results[method].analysisMethod,
+    winner: results[method].winner,
+    confidenceScore: results[method].confidenceScore,
+    ranking: results[method].rankings.map(([opt]) => opt),
+    scores: results[method].rankings,
+  }));
+
+  const winnerVotes: Record<string, number> = {};
+  for (const { winner } of methods) {
+    winnerVotes[winner] = (winnerVotes[winner] ?? 0) + 1;
+  }
+
+  // Borda count: n - 1 points for first place down to 0 for last, per method.
+  // Options eliminated by constraints are in no ranking and get no entry.
+  const ranked = new Set(methods[0].ranking);
+  const points: Record<string, number> = Object.fromEntries(
+    input.options.filter(opt => ranked.has(opt)).map(opt => [opt, 0])
+  );
+  for (const { ranking } of methods) {
+    ranking.forEach((opt, idx) => {
+      points[opt] += ranking.length - 1 - idx;
+    });
+  }
+  const consensusRanking = Object.entries(points).sort((a, b) => b[1] - a[1]);
+
+  const pairs: MethodComparison['rankAgreement']['pairs'] = [];
+  for (let i = 0; i < methods.length; i++) {
+    for (let j = i + 1; j < methods.length; j++) {
+      pairs.push({
+        methods: [methods[i].method, methods[j].method],
+        correlation: spearmanCorrelation(methods[i].ranking, methods[j].ranking),
+      });
+    }
+  }
+  const average = pairs.length > 0
+    ? pairs.reduce((sum, p) => sum + p.correlation, 0) / pairs.length
+    : 1;
+
+  const comparison: MethodComparison = {
+    methods,
+    winnerVotes,
+    consensusWinner: consensusRanking[0][0],
+    consensusRanking,
+    rankAgreement: { average, pairs },
+    methodsDisagree: Object.keys(winnerVotes).length > 1,
+  };
+
+  debug.log(MODULE, 'Method comparison', {
+    winnerVotes,
+    consensusWinner: comparison.consensusWinner,
+    rankAgreement: average.toFixed(3),
+  });
+
+  return comparison;
+}
+
+/**
+ * Format a method comparison as plain text.
+ */
+export function formatMethodComparison(comparison: MethodComparison): string {
   const lines: string[] = [
     '='.repeat(70),
     'DECISION MATRIX - METHOD COMPARISON',
     '='.repeat(70),
   ];
 
-  for (const [methodName, result] of Object.entries(results)) {
-    lines.push(`\n${methodName.toUpperCase()} METHOD:`);
-    lines.push(`  Winner: ${result.winner}`);
-    lines.push(`  Confidence: ${result.confidenceScore.toFixed(1)}%`);
+  for (const { method, winner, confidenceScore, scores } of comparison.methods) {
+    lines.push(`\n${method.toUpperCase()} METHOD:`);
+    lines.push(`  Winner: ${winner}`);
+    lines.push(`  Confidence: ${confidenceScore.toFixed(1)}%`);
     lines.push('  Top 3:');
-    for (let i = 0; i < Math.min(3, result.rankings.length); i++) {
-      const [opt, score] = result.rankings[i];
+    for (let i = 0; i < Math.min(3, scores.length); i++) {
+      const [opt, score] = scores[i];
       lines.push(`    ${i + 1}. ${opt}: ${score.toFixed(2)}`);
     }
   }
 
-  // Consensus check
+  const { consensusWinner, winnerVotes, methods } = comparison;
   lines.push('\n' + '='.repeat(70));
-  const winners = Object.values(results).map(r => r.winner);
-  const winnerCounts: Record<string, number> = {};
-  for (const w of winners) {
-    winnerCounts[w] = (winnerCounts[w] ?? 0) + 1;
-  }
-  const consensus = Object.entries(winnerCounts).reduce((a, b) =>
-    a[1] > b[1] ? a : b
+  lines.push(
+    `CONSENSUS: ${consensusWinner} (${winnerVotes[consensusWinner] ?? 0}/${methods.length} methods)`
   );
-
-  lines.push(`CONSENSUS: ${consensus[0]} (${consensus[1]}/4 methods)`);
+  lines.push(
+    `RANK AGREEMENT: ${comparison.rankAgreement.average.toFixed(2)} (average Spearman correlation)`
+  );
+  lines.push(
+    'BORDA RANKING: ' +
+    comparison.consensusRanking.map(([opt, pts]) => `${opt} (${pts})`).join(', ')
+  );
+  if (comparison.methodsDisagree) {
+    const votes = Object.entries(winnerVotes)
+      .sort((a, b) => b[1] - a[1])
+      .map(([opt, count]) => `${opt} ${count}`)
+      .join(', ');
+    lines.push(`⚠️ Methods disagree on the winner: ${votes}`);
+  }
   lines.push('='.repeat(70));
 
   return lines.join('\n');
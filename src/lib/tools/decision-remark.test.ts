@@ -0,0 +1,150 @@
+/**
+ * Decision Matrix Code Block Tests
+ * --------------------------------
+ * Tests for parsing ```decision-matrix blocks and rewriting MDX trees.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import { DecisionParseError } from './decision-io';
+import { parseDecisionBlock, remarkDecisionMatrix } from './decision-remark';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const yamlBody = `title: Commute
+options: [Bus, Bike, Car]
+criteria: [Cost, Speed]
+scores:
+  Bus: [2, 4]
+  Bike: [1, 3]
+  Car: [8, 9]
+directions: [minimize, maximize]`;
+
+const tableBody = `| Option | Cost | Speed |
+|--------|-----:|------:|
+| Weight |  0.6 |   0.4 |
+| Bus    |    2 |     4 |
+| Bike   |    1 |     3 |`;
+
+function codeNode(value: string, meta: string | null = null, line = 10) {
+  return { type: 'code', lang: 'decision-matrix', meta, value, position: { start: { line, column: 1 } } };
+}
+
+/** Minimal VFile: fail() throws like the real one, with the place attached */
+function mdxFile(path = fileURLToPath(new URL('../../content/docs/faq/commute.mdx', import.meta.url))) {
+  return {
+    path,
+    fail(reason: string, place?: { line: number; column: number }): never {
+      throw Object.assign(new Error(reason), { place });
+    },
+  };
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('parseDecisionBlock()', () => {
+  it('reads a bare YAML matrix with its title', () => {
+    const block = parseDecisionBlock(yamlBody);
+    expect(block.title).toBe('Commute');
+    expect(block.input.options).toEqual(['Bus', 'Bike', 'Car']);
+    expect(block.input.directions).toEqual(['minimize', 'maximize']);
+  });
+
+  it('reads YAML in the JSON document shape', () => {
+    const block = parseDecisionBlock(
+      'title: Commute\nmatrix:\n  options: [A, B]\n  criteria: [X]\n  scores: { A: [1], B: [2] }'
+    );
+    expect(block.title).toBe('Commute');
+    expect(block.input.scores).toEqual({ A: [1], B: [2] });
+  });
+
+  it('reads Markdown and CSV tables', () => {
+    expect(parseDecisionBlock(tableBody).input.weights).toEqual([0.6, 0.4]);
+    expect(parseDecisionBlock('Option,Cost\nBus,2\nBike,1').input.options).toEqual(['Bus', 'Bike']);
+  });
+
+  it('reads fence options', () => {
+    const block = parseDecisionBlock(tableBody, 'title="Getting to work" method=topsis top=1 sensitivity compare');
+    expect(block).toMatchObject({ title: 'Getting to work', topN: 1, sensitivity: true, compare: true });
+    expect(block.input.method).toBe('topsis');
+  });
+
+  it('rejects unknown fence options and methods', () => {
+    expect(() => parseDecisionBlock(tableBody, 'colour=red')).toThrow(/unknown option "colour"/);
+    expect(() => parseDecisionBlock(tableBody, 'method=vibes')).toThrow(/unknown method "vibes"/);
+    expect(() => parseDecisionBlock(tableBody, 'top=0')).toThrow(/positive whole number/);
+  });
+
+  it('locates errors within the block', () => {
+    const error = (() => {
+      try {
+        parseDecisionBlock('options: [A, B]\ncriteria: [X\nscores: {}');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(DecisionParseError);
+    expect((error as DecisionParseError).row).toBeGreaterThan(1);
+
+    expect(() => parseDecisionBlock('options: [A]\ncriteria: [X, Y]\nscores: { A: [1] }'))
+      .toThrow(/matrix\.scores\.A/);
+  });
+});
+
+// =============================================================================
+// MDX Tree
+// =============================================================================
+
+describe('remarkDecisionMatrix()', () => {
+  it('replaces blocks with DecisionMatrix elements and adds the imports', () => {
+    const tree = {
+      type: 'root',
+      children: [
+        { type: 'paragraph', children: [{ type: 'text', value: 'Intro' }] },
+        codeNode(tableBody, 'title="Getting to work" sensitivity'),
+        { type: 'code', lang: 'js', value: 'const x = 1;' },
+      ],
+    };
+
+    remarkDecisionMatrix()(tree, mdxFile());
+
+    const [imports, data, , element, plainCode] = tree.children as Array<Record<string, unknown>>;
+    expect(imports.type).toBe('mdxjsEsm');
+    expect(imports.value).toContain('"../../../components/molecules/DecisionMatrix.astro"');
+    expect(imports.value).toContain('"../../../lib/tools"');
+    expect(data.value).toMatch(/^export const __decisionMatrix0 = \{"options":\["Bus","Bike"\]/);
+    expect(element).toMatchObject({ type: 'mdxJsxFlowElement', name: '__DecisionMatrix' });
+    expect((element.attributes as Array<{ name: string }>).map(a => a.name)).toEqual(['result', 'title', 'sensitivity']);
+    expect(plainCode.lang).toBe('js');
+  });
+
+  it('compares methods on the whole block input', () => {
+    const tree = { type: 'root', children: [codeNode(tableBody, 'compare')] };
+    remarkDecisionMatrix()(tree, mdxFile());
+    const element = tree.children[2] as unknown as { attributes: Array<{ name: string; value: { value: string } }> };
+    const comparison = element.attributes.find(a => a.name === 'comparison');
+    expect(comparison?.value.value).toBe('__dmCompareMethods(__decisionMatrix0)');
+  });
+
+  it('leaves pages without blocks alone', () => {
+    const tree = { type: 'root', children: [{ type: 'code', lang: 'js', value: '1' }] };
+    remarkDecisionMatrix()(tree, mdxFile());
+    expect(tree.children).toHaveLength(1);
+  });
+
+  it('fails at the line of the bad row in the page', () => {
+    const tree = { type: 'root', children: [codeNode(tableBody.replace('|     3 |', '| fast |'), null, 10)] };
+    expect(() => remarkDecisionMatrix()(tree, mdxFile())).toThrow(
+      expect.objectContaining({
+        message: expect.stringMatching(/^Invalid decision-matrix block: Row 5, column 3: "fast" is not a number/),
+        place: { line: 15, column: 1 },
+      })
+    );
+  });
+});
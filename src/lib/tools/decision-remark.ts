@@ -0,0 +1,301 @@
+/**
+ * Decision Matrix Code Blocks
+ * ---------------------------
+ * Remark plugin that renders fenced `decision-matrix` blocks in MDX pages
+ * with the DecisionMatrix component, instead of hand-writing
+ * `export const result = makeDecision({...})` on every page.
+ *
+ * The block body is YAML (the JSON document shape, or just the matrix) or a
+ * CSV/Markdown table as accepted by decision-io. Options go in the fence:
+ *
+ *   ```decision-matrix title="Where to save first?" method=topsis sensitivity
+ *   options: ["401(k)", "Roth IRA"]
+ *   criteria: [Tax Advantage, Flexibility]
+ *   scores:
+ *     "401(k)": [9, 3]
+ *     Roth IRA: [8, 6]
+ *   weights: [0.6, 0.4]
+ *   ```
+ *
+ * Fence options: `title`, `method`, `top`, `sensitivity` (weight stability
+ * chart) and `compare` (method agreement). Blocks are validated while the
+ * page compiles, and a bad block fails the build at its file and line.
+ *
+ * Registered in astro.config.mjs:
+ *   mdx({ remarkPlugins: [remarkDecisionMatrix] })
+ *
+ * Build-time only: it needs js-yaml and acorn, so it isn't exported from the
+ * tools index.
+ */
+
+import { parse as parseJs } from 'acorn';
+import yaml from 'js-yaml';
+import { dirname, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { debug } from '../debug';
+import { ALL_METHODS, makeDecision, type AnalysisMethod, type DecisionMatrixInput } from './decision-matrix';
+import {
+  DECISION_DOCUMENT_VERSION,
+  DecisionParseError,
+  parseDecisionJson,
+  parseDecisionMatrix,
+} from './decision-io';
+
+const MODULE = 'decision-matrix';
+
+/** Fence language that marks a decision matrix block */
+export const DECISION_BLOCK_LANG = 'decision-matrix';
+
+const COMPONENT_PATH = fileURLToPath(new URL('../../components/molecules/DecisionMatrix.astro', import.meta.url));
+const TOOLS_PATH = dirname(fileURLToPath(import.meta.url));
+
+// Types
+export interface DecisionBlock {
+  input: DecisionMatrixInput;
+  title?: string;
+  topN?: number;
+  /** Pass analyzeSensitivity() to the component */
+  sensitivity: boolean;
+  /** Pass compareMethods() to the component */
+  compare: boolean;
+}
+
+/** The parts of an mdast/MDX node the plugin reads and writes */
+interface MdastNode {
+  type: string;
+  children?: MdastNode[];
+  lang?: string | null;
+  meta?: string | null;
+  value?: string;
+  position?: { start: { line: number; column: number } };
+  [key: string]: unknown;
+}
+
+/** The parts of a VFile the plugin uses */
+interface MdxFile {
+  path?: string;
+  fail(reason: string, place?: { line: number; column: number }): never;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Fence options, e.g. `title="Pick one" method=topsis sensitivity` */
+function parseMeta(meta: string): Omit<DecisionBlock, 'input'> & { method?: AnalysisMethod } {
+  const block: Omit<DecisionBlock, 'input'> & { method?: AnalysisMethod } = {
+    sensitivity: false,
+    compare: false,
+  };
+
+  for (const match of meta.matchAll(/([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|(\S+)))?/g)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    const value = doubleQuoted ?? singleQuoted ?? bare;
+
+    switch (key) {
+      case 'title':
+        if (!value) throw new DecisionParseError('title needs a value, e.g. title="Which account?"');
+        block.title = value;
+        break;
+      case 'method':
+        if (!ALL_METHODS.includes(value as AnalysisMethod)) {
+          throw new DecisionParseError(
+            `unknown method "${value ?? ''}". Valid methods: ${ALL_METHODS.join(', ')}`
+          );
+        }
+        block.method = value as AnalysisMethod;
+        break;
+      case 'top': {
+        const topN = Number(value);
+        if (!Number.isInteger(topN) || topN < 1) {
+          throw new DecisionParseError(`top must be a positive whole number, got "${value ?? ''}"`);
+        }
+        block.topN = topN;
+        break;
+      }
+      case 'sensitivity':
+      case 'compare':
+        if (value !== undefined) throw new DecisionParseError(`${key} takes no value`);
+        block[key] = true;
+        break;
+      default:
+        throw new DecisionParseError(
+          `unknown option "${key}". Valid options: title, method, top, sensitivity, compare`
+        );
+    }
+  }
+
+  return block;
+}
+
+/** True when the body looks like YAML rather than a table */
+function isYaml(body: string): boolean {
+  const firstLine = body.split(/\r?\n/).find(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  return firstLine !== undefined && /^[\w"'$-][^,|]*:(\s|$)/.test(firstLine.trim());
+}
+
+/** YAML body: a JSON-shaped document, or just the matrix with an optional title */
+function parseYaml(body: string): { input: DecisionMatrixInput; title?: string } {
+  let data: unknown;
+  try {
+    data = yaml.load(body);
+  } catch (error) {
+    const { reason, message, mark } = error as { reason?: string; message: string; mark?: { line: number; column: number } };
+    throw new DecisionParseError(`Invalid YAML: ${reason ?? message}`, {
+      row: mark ? mark.line + 1 : undefined,
+      column: mark ? mark.column + 1 : undefined,
+    });
+  }
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new DecisionParseError('expected YAML fields such as options, criteria and scores');
+  }
+
+  const { title, ...rest } = data as Record<string, unknown>;
+  const document = 'matrix' in rest
+    ? { version: DECISION_DOCUMENT_VERSION, title, ...rest }
+    : { version: DECISION_DOCUMENT_VERSION, title, matrix: rest };
+  const parsed = parseDecisionJson(JSON.stringify(document));
+  return { input: parsed.matrix, title: parsed.title };
+}
+
+/**
+ * Parse a `decision-matrix` block. Errors are DecisionParseErrors whose row
+ * counts from the first line of the body.
+ */
+export function parseDecisionBlock(body: string, meta = ''): DecisionBlock {
+  const { method, ...options } = parseMeta(meta);
+
+  let input: DecisionMatrixInput;
+  let title: string | undefined;
+  if (isYaml(body)) {
+    ({ input, title } = parseYaml(body));
+  } else {
+    input = parseDecisionMatrix(body);
+  }
+  if (method) input = { ...input, method };
+
+  // Whatever makeDecision rejects would otherwise only fail when the page renders
+  try {
+    makeDecision(input);
+  } catch (error) {
+    throw new DecisionParseError(error instanceof Error ? error.message : String(error));
+  }
+
+  return { ...options, input, title: options.title ?? title };
+}
+
+// ============================================================================
+// MDX TREE
+// ============================================================================
+
+/** An ESTree program for generated code, as MDX expects on esm and expression nodes */
+function estree(code: string) {
+  return parseJs(code, { ecmaVersion: 'latest', sourceType: 'module' });
+}
+
+function esmNode(code: string): MdastNode {
+  return { type: 'mdxjsEsm', value: code, data: { estree: estree(code) } };
+}
+
+function attribute(name: string, value: string | { expression: string }) {
+  if (typeof value === 'string') {
+    return { type: 'mdxJsxAttribute', name, value };
+  }
+  return {
+    type: 'mdxJsxAttribute',
+    name,
+    value: {
+      type: 'mdxJsxAttributeValueExpression',
+      value: value.expression,
+      data: { estree: estree(value.expression) },
+    },
+  };
+}
+
+/** Import path from the page to a module, like the ones written by hand */
+function importPath(file: MdxFile, target: string): string {
+  if (!file.path) return target;
+  const path = relative(dirname(file.path), target).split('\\').join('/');
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+/** Replace a parsed block with its export and <DecisionMatrix /> element */
+function renderBlock(block: DecisionBlock, index: number): { esm: MdastNode; element: MdastNode } {
+  const name = `__decisionMatrix${index}`;
+  const { topN } = block;
+
+  const attributes = [
+    attribute('result', {
+      expression: topN ? `__dmMakeDecision({ ...${name}, topN: ${topN} })` : `__dmMakeDecision(${name})`,
+    }),
+  ];
+  if (block.title) attributes.push(attribute('title', block.title));
+  if (block.sensitivity) {
+    attributes.push(attribute('sensitivity', { expression: `__dmAnalyzeSensitivity(${name})` }));
+  }
+  if (block.compare) {
+    attributes.push(attribute('comparison', {
+      expression: `__dmCompareMethods(${name})`,
+    }));
+  }
+
+  return {
+    esm: esmNode(`export const ${name} = ${JSON.stringify(block.input)};`),
+    element: { type: 'mdxJsxFlowElement', name: '__DecisionMatrix', attributes, children: [] },
+  };
+}
+
+/** Report a bad block at its line in the page, which fails the build */
+function failBlock(file: MdxFile, node: MdastNode, error: unknown): never {
+  const fence = node.position?.start.line ?? 1;
+  const row = error instanceof DecisionParseError ? error.row : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  debug.error(MODULE, 'Invalid decision-matrix block', { file: file.path, line: fence, message });
+  file.fail(`Invalid ${DECISION_BLOCK_LANG} block: ${message}`, {
+    line: row ? fence + row : fence,
+    column: row ? 1 : (node.position?.start.column ?? 1),
+  });
+}
+
+/**
+ * Remark plugin: renders every ```decision-matrix block in an MDX page
+ * with the DecisionMatrix component.
+ */
+export function remarkDecisionMatrix() {
+  return (tree: MdastNode, file: MdxFile) => {
+    const rendered: MdastNode[] = [];
+
+    const visit = (parent: MdastNode) => {
+      parent.children?.forEach((node, index) => {
+        if (node.type === 'code' && node.lang === DECISION_BLOCK_LANG) {
+          let block: DecisionBlock;
+          try {
+            block = parseDecisionBlock(node.value ?? '', node.meta ?? '');
+          } catch (error) {
+            failBlock(file, node, error);
+          }
+          const { esm, element } = renderBlock(block, rendered.length);
+          rendered.push(esm);
+          parent.children![index] = element;
+        } else if (node.children) {
+          visit(node);
+        }
+      });
+    };
+    visit(tree);
+
+    if (rendered.length === 0) return;
+
+    const component = importPath(file, COMPONENT_PATH);
+    const tools = importPath(file, TOOLS_PATH);
+    tree.children!.unshift(
+      esmNode(
+        `import __DecisionMatrix from ${JSON.stringify(component)};\n` +
+        `import { makeDecision as __dmMakeDecision, analyzeSensitivity as __dmAnalyzeSensitivity, ` +
+        `compareMethods as __dmCompareMethods } from ${JSON.stringify(tools)};`
+      ),
+      ...rendered
+    );
+    debug.log(MODULE, 'Rendered decision-matrix blocks', { file: file.path, blocks: rendered.length });
+  };
+}
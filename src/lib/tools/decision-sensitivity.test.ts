@@ -0,0 +1,218 @@
+/**
+ * Decision Sensitivity Tests
+ * --------------------------
+ * Tests for weight sensitivity analysis and tipping points.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { makeDecision, DecisionResult, type DecisionMatrixInput } from './decision-matrix';
+import { analyzeSensitivity, formatSensitivity } from './decision-sensitivity';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// Buy wins on Cost, Rent wins on Flexibility. With weights [w, 1 - w],
+// Buy scores 8w + 2(1 - w) and Rent scores 4w + 6(1 - w): they tie at w = 0.5.
+const twoCriteria: DecisionMatrixInput = {
+  options: ['Buy', 'Rent'],
+  criteria: ['Cost', 'Flexibility'],
+  scores: {
+    Buy: [8, 2],
+    Rent: [4, 6],
+  },
+  weights: [0.7, 0.3],
+};
+
+const dominant: DecisionMatrixInput = {
+  options: ['Best', 'Worst'],
+  criteria: ['X', 'Y', 'Z'],
+  scores: {
+    Best: [9, 9, 9],
+    Worst: [1, 2, 3],
+  },
+};
+
+// =============================================================================
+// analyzeSensitivity() Tests
+// =============================================================================
+
+describe('analyzeSensitivity()', () => {
+  it('reports the current winner and method', () => {
+    const sensitivity = analyzeSensitivity(twoCriteria);
+    expect(sensitivity.winner).toBe('Buy');
+    expect(sensitivity.method).toBe('weighted');
+    expect(sensitivity.criteria).toHaveLength(2);
+  });
+
+  it('finds the weight at which the winner changes', () => {
+    const [cost] = analyzeSensitivity(twoCriteria).criteria;
+    expect(cost.baseWeight).toBeCloseTo(0.7);
+    expect(cost.tippingPoints).toHaveLength(1);
+    expect(cost.tippingPoints[0].weight).toBeCloseTo(0.5, 4);
+    expect(cost.tippingPoints[0].from).toBe('Rent');
+    expect(cost.tippingPoints[0].to).toBe('Buy');
+  });
+
+  it('reports who takes over in the summary', () => {
+    const [cost, flexibility] = analyzeSensitivity(twoCriteria).criteria;
+    expect(cost.summary).toBe("If Cost falls below 50% weight (currently 70%), 'Rent' wins instead.");
+    expect(flexibility.summary).toBe(
+      "If Flexibility rises above 50% weight (currently 30%), 'Rent' wins instead."
+    );
+  });
+
+  it('reports the stable range around the current weight', () => {
+    const [cost] = analyzeSensitivity(twoCriteria).criteria;
+    expect(cost.stableRange.min).toBeCloseTo(0.5, 4);
+    expect(cost.stableRange.max).toBe(1);
+  });
+
+  describe('Ties', () => {
+    // Equal weights and mirrored scores: A and B tie, and A wins the tie
+    const tied: DecisionMatrixInput = {
+      options: ['A', 'B'],
+      criteria: ['X', 'Y', 'Z'],
+      scores: { A: [10, 0, 5], B: [0, 10, 5] },
+    };
+
+    it('places a tie at the current weight on the winner\'s side', () => {
+      const [x, y] = analyzeSensitivity(tied).criteria;
+      expect(y.tippingPoints).toEqual([{ weight: y.baseWeight, from: 'A', to: 'B' }]);
+      expect(y.stableRange).toEqual({ min: 0, max: y.baseWeight });
+      expect(y.summary).toBe("'A' and 'B' are tied at the current Y weight (33%); any more weight on it and 'B' wins.");
+      expect(x.stableRange).toEqual({ min: x.baseWeight, max: 1 });
+      expect(x.summary).toBe("'A' and 'B' are tied at the current X weight (33%); any less weight on it and 'B' wins.");
+    });
+
+    it('treats a weight a hair from the tie as tied', () => {
+      const [cost] = analyzeSensitivity({ ...twoCriteria, weights: [0.5 + 1e-9, 0.5 - 1e-9] }).criteria;
+      expect(cost.nearestTippingPoint).toEqual({ weight: cost.baseWeight, from: 'Rent', to: 'Buy' });
+      expect(cost.summary).toContain("'Buy' and 'Rent' are tied at the current Cost weight (50%)");
+    });
+
+    it('words a near tie by the winner on each side', () => {
+      const [cost, flexibility] = analyzeSensitivity({ ...twoCriteria, weights: [0.51, 0.49] }).criteria;
+      expect(cost.summary).toBe("If Cost falls below 50% weight (currently 51%), 'Rent' wins instead.");
+      expect(flexibility.summary).toBe("If Flexibility rises above 50% weight (currently 49%), 'Rent' wins instead.");
+      expect(cost.stableRange.min).toBeCloseTo(0.5, 4);
+      expect(cost.stableRange.max).toBe(1);
+    });
+
+    it('merges flips found on both sides of one weight', () => {
+      // All three options tie at every weight; at a Y weight of 15% rounding
+      // hands the tie to B for that one weight only
+      const [, y] = analyzeSensitivity({
+        options: ['A', 'B', 'C'],
+        criteria: ['X', 'Y', 'Z'],
+        scores: { A: [0, 0, 8], B: [4, 0, 4], C: [8, 0, 0] },
+        method: 'best_worst',
+      }).criteria;
+      expect(y.tippingPoints).toEqual([]);
+      expect(y.ranges).toEqual([{ from: 0, to: 1, winner: 'A' }]);
+    });
+  });
+
+  it('returns winner bands covering the full weight range', () => {
+    const [cost] = analyzeSensitivity(twoCriteria).criteria;
+    expect(cost.ranges).toHaveLength(2);
+    expect(cost.ranges[0]).toMatchObject({ from: 0, winner: 'Rent' });
+    expect(cost.ranges[1]).toMatchObject({ to: 1, winner: 'Buy' });
+    expect(cost.ranges[0].to).toBe(cost.ranges[1].from);
+  });
+
+  it('samples scores for every option at each step', () => {
+    const [cost] = analyzeSensitivity(twoCriteria, { steps: 10 }).criteria;
+    expect(cost.samples).toHaveLength(11);
+    expect(cost.samples[0].weight).toBe(0);
+    expect(cost.samples[10].weight).toBe(1);
+    expect(Object.keys(cost.samples[0].scores)).toEqual(['Buy', 'Rent']);
+  });
+
+  it('identifies the most sensitive criterion', () => {
+    const sensitivity = analyzeSensitivity({ ...twoCriteria, weights: [0.55, 0.45] });
+    expect(sensitivity.isRobust).toBe(false);
+    expect(sensitivity.mostSensitiveCriterion).toBeTruthy();
+  });
+
+  it('marks a dominant winner as robust', () => {
+    const sensitivity = analyzeSensitivity(dominant);
+    expect(sensitivity.isRobust).toBe(true);
+    expect(sensitivity.mostSensitiveCriterion).toBeNull();
+    for (const criterion of sensitivity.criteria) {
+      expect(criterion.nearestTippingPoint).toBeNull();
+      expect(criterion.ranges).toEqual([{ from: 0, to: 1, winner: 'Best' }]);
+      expect(criterion.summary).toContain("'Best' wins at any weight");
+    }
+  });
+
+  it('handles a single criterion', () => {
+    const sensitivity = analyzeSensitivity({
+      options: ['A', 'B'],
+      criteria: ['Only'],
+      scores: { A: [3], B: [5] },
+    });
+    expect(sensitivity.winner).toBe('B');
+    expect(sensitivity.isRobust).toBe(true);
+  });
+
+  it('uses the requested analysis method', () => {
+    const sensitivity = analyzeSensitivity({ ...twoCriteria, method: 'topsis' });
+    expect(sensitivity.method).toBe('topsis');
+    const result = makeDecision({ ...twoCriteria, method: 'topsis' }) as DecisionResult;
+    expect(sensitivity.winner).toBe(result.winner);
+  });
+
+  it('respects cost criteria', () => {
+    const sensitivity = analyzeSensitivity({
+      ...twoCriteria,
+      scores: { Buy: [2, 2], Rent: [6, 6] },
+      directions: ['minimize', 'maximize'],
+    });
+    const [cost] = sensitivity.criteria;
+    expect(sensitivity.winner).toBe('Buy');
+    expect(cost.tippingPoints[0].weight).toBeCloseTo(0.5, 4);
+  });
+
+  it('starts from AHP-derived weights', () => {
+    const sensitivity = analyzeSensitivity({
+      ...twoCriteria,
+      weights: undefined,
+      pairwiseComparisons: [[1, 3], [1 / 3, 1]],
+    });
+    expect(sensitivity.criteria[0].baseWeight).toBeCloseTo(0.75);
+    expect(sensitivity.criteria[0].tippingPoints[0].weight).toBeCloseTo(0.5, 4);
+  });
+
+  it('imputes missing scores the same way at every weight', () => {
+    // Buy's Flexibility is filled with the column mean of 4:
+    // Buy = 8w + 4(1 - w) and Rent = 4w + 6(1 - w) tie at w = 1/3
+    const sensitivity = analyzeSensitivity({
+      options: ['Buy', 'Rent', 'Lease'],
+      criteria: ['Cost', 'Flexibility'],
+      scores: { Buy: [8, null], Rent: [4, 6], Lease: [5, 2] },
+    });
+    expect(sensitivity.criteria[0].tippingPoints[0].weight).toBeCloseTo(1 / 3, 4);
+  });
+});
+
+// =============================================================================
+// formatSensitivity() Tests
+// =============================================================================
+
+describe('formatSensitivity()', () => {
+  it('lists each criterion with its tipping points', () => {
+    const text = formatSensitivity(analyzeSensitivity(twoCriteria));
+    expect(text).toContain('Winner: Buy (weighted method)');
+    expect(text).toContain('Cost (weight 70%):');
+    expect(text).toContain('Winner holds from 50% to 100%');
+    expect(text).toContain('Rent → Buy at 50%');
+    expect(text).toContain('MOST SENSITIVE: Cost');
+  });
+
+  it('says when the winner is robust', () => {
+    expect(formatSensitivity(analyzeSensitivity(dominant))).toContain('ROBUST');
+  });
+});
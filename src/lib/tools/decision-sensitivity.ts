@@ -0,0 +1,315 @@
+/**
+ * Decision Sensitivity Analysis
+ * -----------------------------
+ * Measures how fragile a decision matrix result is by sweeping each
+ * criterion's weight from 0 to 1 and recording where the winner changes.
+ *
+ * Usage:
+ *   import { analyzeSensitivity } from '../lib/tools/decision-sensitivity';
+ *
+ *   const sensitivity = analyzeSensitivity({
+ *     options: ["Buy", "Rent"],
+ *     criteria: ["Cost", "Flexibility"],
+ *     scores: { "Buy": [5, 3], "Rent": [7, 8] },
+ *     weights: [0.6, 0.4]
+ *   });
+ *
+ *   sensitivity.criteria[0].nearestTippingPoint;
+ *   // { weight: 0.83, from: "Rent", to: "Buy" } or null if the win never flips
+ */
+
+import { debug } from '../debug';
+import {
+  DecisionMatrix,
+  toPointScores,
+  type AnalysisMethod,
+  type DecisionMatrixInput,
+} from './decision-matrix';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export interface TippingPoint {
+  /** Weight of the varied criterion at which the winner changes */
+  weight: number;
+  /** Winner just below this weight */
+  from: string;
+  /** Winner just above this weight */
+  to: string;
+}
+
+export interface WinnerRange {
+  from: number;
+  to: number;
+  winner: string;
+}
+
+export interface SensitivitySample {
+  weight: number;
+  winner: string;
+  /** Normalized score (0-100) per option at this weight */
+  scores: Record<string, number>;
+}
+
+export interface CriterionSensitivity {
+  criterion: string;
+  baseWeight: number;
+  /** Every weight at which the winner changes, ascending */
+  tippingPoints: TippingPoint[];
+  /** Tipping point closest to the base weight, or null if the winner never changes */
+  nearestTippingPoint: TippingPoint | null;
+  /** Weight interval around the base weight in which the current winner holds */
+  stableRange: { min: number; max: number };
+  /** Which option wins across the 0-1 weight range (stability chart bands) */
+  ranges: WinnerRange[];
+  /** Sampled scores across the 0-1 weight range (stability chart lines) */
+  samples: SensitivitySample[];
+  /** Plain-language summary of the tipping point */
+  summary: string;
+}
+
+export interface SensitivityResult {
+  winner: string;
+  method: AnalysisMethod;
+  criteria: CriterionSensitivity[];
+  /** Criterion whose tipping point is closest to its current weight */
+  mostSensitiveCriterion: string | null;
+  /** True when no single weight change can flip the winner */
+  isRobust: boolean;
+}
+
+export interface SensitivityOptions {
+  /** Number of intervals sampled between weight 0 and 1 (default: 20) */
+  steps?: number;
+}
+
+/** Bisection iterations used to pin down each tipping point */
+const REFINE_ITERATIONS = 30;
+
+/**
+ * Weights closer than this count as the same weight. Bisection pins a tie
+ * down to either side of it, well inside this distance.
+ */
+const WEIGHT_TOLERANCE = 1e-6;
+
+/**
+ * Weights with criterion `index` set to `weight` and the others scaled to
+ * fill the remainder, keeping their relative proportions.
+ */
+function reweight(base: number[], index: number, weight: number): number[] {
+  const others = 1 - base[index];
+  return base.map((w, i) => {
+    if (i === index) return weight;
+    return others > 0 ? (w / others) * (1 - weight) : (1 - weight) / (base.length - 1);
+  });
+}
+
+/**
+ * Analyze how the winner responds to changes in each criterion's weight.
+ *
+ * Each weight is varied from 0 to 1 while the others are rescaled
+ * proportionally, using the input's analysis method. Uncertain scores are
+ * taken at their point estimates.
+ *
+ * @param input - The same input passed to DecisionMatrix / makeDecision
+ * @param options - Sampling resolution
+ * @returns Tipping points and chart data per criterion
+ */
+export function analyzeSensitivity(
+  input: DecisionMatrixInput,
+  options: SensitivityOptions = {}
+): SensitivityResult {
+  const { steps = 20 } = options;
+  const method = input.method ?? 'weighted';
+  debug.group(MODULE, 'analyzeSensitivity()');
+
+  const pointInput: DecisionMatrixInput = { ...input, scores: toPointScores(input.scores) };
+  const baseMatrix = new DecisionMatrix(pointInput);
+  const baseWeights = baseMatrix.getWeights();
+  const winner = baseMatrix.analyze().winner;
+
+  const analyzeAt = (index: number, weight: number) =>
+    new DecisionMatrix({
+      ...pointInput,
+      pairwiseComparisons: undefined,
+      weights: reweight(baseWeights, index, weight),
+    }).analyze();
+
+  const criteria: CriterionSensitivity[] = input.criteria.map((criterion, index) => {
+    const baseWeight = baseWeights[index];
+
+    // A lone criterion always carries the full weight
+    if (input.criteria.length === 1) {
+      const result = baseMatrix.analyze();
+      return {
+        criterion,
+        baseWeight,
+        tippingPoints: [],
+        nearestTippingPoint: null,
+        stableRange: { min: 0, max: 1 },
+        ranges: [{ from: 0, to: 1, winner }],
+        samples: [{ weight: 1, winner, scores: result.normalizedScores }],
+        summary: `'${winner}' wins regardless of the weight on ${criterion}.`,
+      };
+    }
+
+    // Sample the full weight range
+    const samples: SensitivitySample[] = [];
+    for (let step = 0; step <= steps; step++) {
+      const weight = step / steps;
+      const result = analyzeAt(index, weight);
+      samples.push({ weight, winner: result.winner, scores: result.normalizedScores });
+    }
+
+    // Refine each change of winner between samples by bisection
+    const tippingPoints: TippingPoint[] = [];
+    for (let i = 1; i < samples.length; i++) {
+      if (samples[i].winner === samples[i - 1].winner) continue;
+      let low = samples[i - 1].weight;
+      let high = samples[i].weight;
+      for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+        const mid = (low + high) / 2;
+        if (analyzeAt(index, mid).winner === samples[i - 1].winner) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      const point = { weight: (low + high) / 2, from: samples[i - 1].winner, to: samples[i].winner };
+
+      // Flips found on either side of one weight are a single change (or
+      // none, when an option wins only at that exact weight)
+      const previous = tippingPoints[tippingPoints.length - 1];
+      if (previous && point.weight - previous.weight < WEIGHT_TOLERANCE) {
+        previous.to = point.to;
+        if (previous.from === previous.to) tippingPoints.pop();
+        continue;
+      }
+      // A tie at the current weight flips exactly there
+      if (Math.abs(point.weight - baseWeight) < WEIGHT_TOLERANCE) point.weight = baseWeight;
+      tippingPoints.push(point);
+    }
+
+    // Winner bands for the stability chart
+    const ranges: WinnerRange[] = [];
+    let rangeStart = 0;
+    for (const point of tippingPoints) {
+      ranges.push({ from: rangeStart, to: point.weight, winner: point.from });
+      rangeStart = point.weight;
+    }
+    ranges.push({ from: rangeStart, to: 1, winner: samples[samples.length - 1].winner });
+
+    // The current winner's band around the base weight; at a tie the base
+    // weight is the edge of the band rather than inside it
+    const band = ranges.find(r => r.winner === winner && r.from <= baseWeight && baseWeight <= r.to) ??
+      ranges.find(r => r.from <= baseWeight && baseWeight <= r.to)!;
+    const stableRange = { min: band.from, max: band.to };
+
+    // The nearest tipping point is an edge of that band
+    const edges = tippingPoints.filter(p => p.weight === band.from || p.weight === band.to);
+    const nearestTippingPoint = edges.reduce<TippingPoint | null>(
+      (nearest, point) =>
+        nearest === null ||
+        Math.abs(point.weight - baseWeight) < Math.abs(nearest.weight - baseWeight)
+          ? point
+          : nearest,
+      null
+    );
+
+    debug.log(MODULE, `Sensitivity for "${criterion}"`, {
+      baseWeight: baseWeight.toFixed(2),
+      tippingPoints: tippingPoints.map(p => `${p.from} → ${p.to} at ${p.weight.toFixed(3)}`),
+    });
+
+    return {
+      criterion,
+      baseWeight,
+      tippingPoints,
+      nearestTippingPoint,
+      stableRange,
+      ranges,
+      samples,
+      summary: describeTippingPoint(criterion, baseWeight, winner, nearestTippingPoint),
+    };
+  });
+
+  const sensitive = criteria
+    .filter(c => c.nearestTippingPoint !== null)
+    .sort((a, b) =>
+      Math.abs(a.nearestTippingPoint!.weight - a.baseWeight) -
+      Math.abs(b.nearestTippingPoint!.weight - b.baseWeight)
+    );
+
+  debug.success(MODULE, 'Sensitivity analysis complete', {
+    winner,
+    mostSensitive: sensitive[0]?.criterion ?? 'none',
+  });
+  debug.groupEnd();
+
+  return {
+    winner,
+    method,
+    criteria,
+    mostSensitiveCriterion: sensitive[0]?.criterion ?? null,
+    isRobust: sensitive.length === 0,
+  };
+}
+
+function describeTippingPoint(
+  criterion: string,
+  baseWeight: number,
+  winner: string,
+  point: TippingPoint | null
+): string {
+  const pct = (w: number) => `${(w * 100).toFixed(0)}%`;
+
+  if (point === null) {
+    return `'${winner}' wins at any weight on ${criterion}.`;
+  }
+
+  // The current winner holds on one side of the point; the other side is the change
+  const rising = point.from === winner;
+  const newWinner = rising ? point.to : point.from;
+  if (point.weight === baseWeight) {
+    return (
+      `'${winner}' and '${newWinner}' are tied at the current ${criterion} weight ` +
+      `(${pct(baseWeight)}); any ${rising ? 'more' : 'less'} weight on it and '${newWinner}' wins.`
+    );
+  }
+  return (
+    `If ${criterion} ${rising ? 'rises above' : 'falls below'} ${pct(point.weight)} weight ` +
+    `(currently ${pct(baseWeight)}), '${newWinner}' wins instead.`
+  );
+}
+
+/**
+ * Format a sensitivity analysis as plain text.
+ */
+export function formatSensitivity(sensitivity: SensitivityResult): string {
+  const pct = (w: number) => `${(w * 100).toFixed(0)}%`;
+  const lines: string[] = [
+    '='.repeat(70),
+    'DECISION MATRIX - WEIGHT SENSITIVITY',
+    '='.repeat(70),
+    `Winner: ${sensitivity.winner} (${sensitivity.method} method)`,
+  ];
+
+  for (const { criterion, baseWeight, stableRange, tippingPoints, summary } of sensitivity.criteria) {
+    lines.push(`\n${criterion} (weight ${pct(baseWeight)}):`);
+    lines.push(`  ${summary}`);
+    lines.push(`  Winner holds from ${pct(stableRange.min)} to ${pct(stableRange.max)}`);
+    for (const point of tippingPoints) {
+      lines.push(`    ${point.from} → ${point.to} at ${pct(point.weight)}`);
+    }
+  }
+
+  lines.push('\n' + '='.repeat(70));
+  lines.push(
+    sensitivity.isRobust
+      ? 'ROBUST: no single weight change flips the winner'
+      : `MOST SENSITIVE: ${sensitivity.mostSensitiveCriterion}`
+  );
+  lines.push('='.repeat(70));
+
+  return lines.join('\n');
+}
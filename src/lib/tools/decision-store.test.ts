@@ -0,0 +1,204 @@
+/**
+ * Saved Decisions Tests
+ * ---------------------
+ * Tests for per-user decision storage, quotas and revision history.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { DecisionMatrixInput } from './decision-matrix';
+import {
+  DECISION_QUOTA,
+  DecisionStoreError,
+  createDecision,
+  deleteAllDecisions,
+  deleteDecision,
+  duplicateDecision,
+  getDecision,
+  listDecisions,
+  restoreDecision,
+  updateDecision,
+  type DecisionStoreProblem,
+} from './decision-store';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+/** In-memory KV with the parts of the API the store uses */
+const createMockKV = () => {
+  const store = new Map<string, { value: string; metadata?: unknown }>();
+  return {
+    get: async (key: string) => store.get(key)?.value ?? null,
+    put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, { value, metadata: options?.metadata });
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+    },
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      keys: [...store.entries()]
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, { metadata }]) => ({ name, metadata })),
+      list_complete: true,
+    }),
+    _store: store,
+  };
+};
+
+const commute: DecisionMatrixInput = {
+  options: ['Bus', 'Bike'],
+  criteria: ['Cost', 'Speed'],
+  scores: { Bus: [2, 4], Bike: [1, 3] },
+  directions: ['minimize', 'maximize'],
+};
+
+let mock: ReturnType<typeof createMockKV>;
+let kv: KVNamespace;
+
+beforeEach(() => {
+  mock = createMockKV();
+  kv = mock as unknown as KVNamespace;
+});
+
+/** Run a store call and return the problem code it fails with */
+async function problemWith(call: Promise<unknown>): Promise<DecisionStoreProblem> {
+  try {
+    await call;
+  } catch (error) {
+    if (error instanceof DecisionStoreError) return error.problem;
+    throw error;
+  }
+  throw new Error('Expected a DecisionStoreError');
+}
+
+// =============================================================================
+// Saving and Listing
+// =============================================================================
+
+describe('createDecision() and listDecisions()', () => {
+  it('saves under the user key family', async () => {
+    const saved = await createDecision(kv, 'alice', { name: '  Commute ', matrix: commute });
+    expect(saved).toMatchObject({ userId: 'alice', name: 'Commute', revision: 1, history: [] });
+    expect(mock._store.has(`decision:alice:${saved.id}`)).toBe(true);
+    expect(await getDecision(kv, 'alice', saved.id)).toEqual(saved);
+  });
+
+  it('lists only the user’s own decisions, newest first', async () => {
+    const first = await createDecision(kv, 'alice', { name: 'First', matrix: commute });
+    await createDecision(kv, 'bob', { name: 'Bob’s', matrix: commute });
+    const second = await createDecision(kv, 'alice', { name: 'Second', matrix: commute });
+    await updateDecision(kv, 'alice', first.id, { name: 'First, renamed' });
+
+    const list = await listDecisions(kv, 'alice');
+    expect(list.map(d => d.name)).toEqual(['First, renamed', 'Second']);
+    expect(list[1]).toEqual({ id: second.id, name: 'Second', revision: 1, updatedAt: second.updatedAt, options: 2, criteria: 2 });
+  });
+
+  it('hides other users’ decisions', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    expect(await getDecision(kv, 'bob', saved.id)).toBeNull();
+    expect(await problemWith(updateDecision(kv, 'bob', saved.id, { name: 'Mine now' }))).toBe('not_found');
+    expect(await deleteDecision(kv, 'bob', saved.id)).toBe(false);
+  });
+
+  it('rejects missing names and invalid matrices', async () => {
+    expect(await problemWith(createDecision(kv, 'alice', { name: ' ', matrix: commute }))).toBe('invalid');
+    await expect(createDecision(kv, 'alice', { name: 'Bad', matrix: { ...commute, weights: [1] } }))
+      .rejects.toThrow(/matrix\.weights: expected 2 weights, got 1/);
+  });
+});
+
+// =============================================================================
+// Quotas
+// =============================================================================
+
+describe('quotas', () => {
+  it('stops at the per-user decision limit', async () => {
+    for (let i = 0; i < DECISION_QUOTA.decisions; i++) {
+      await createDecision(kv, 'alice', { name: `Decision ${i}`, matrix: commute });
+    }
+    expect(await problemWith(createDecision(kv, 'alice', { name: 'One more', matrix: commute }))).toBe('quota_exceeded');
+    await expect(createDecision(kv, 'bob', { name: 'Bob’s first', matrix: commute })).resolves.toBeDefined();
+  });
+
+  it('refuses oversized matrices', async () => {
+    const options = Array.from({ length: 1000 }, (_, i) => `An option with a long name ${i}`);
+    const huge: DecisionMatrixInput = {
+      options,
+      criteria: ['Cost'],
+      scores: Object.fromEntries(options.map(o => [o, [1]])),
+    };
+    expect(await problemWith(createDecision(kv, 'alice', { name: 'Huge', matrix: huge }))).toBe('too_large');
+  });
+});
+
+// =============================================================================
+// Revisions
+// =============================================================================
+
+describe('revision history', () => {
+  it('keeps each earlier version, newest first', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    await updateDecision(kv, 'alice', saved.id, { matrix: { ...commute, scores: { Bus: [3, 4], Bike: [1, 3] } } });
+    const updated = await updateDecision(kv, 'alice', saved.id, { name: 'Commute 2026' });
+
+    expect(updated.revision).toBe(3);
+    expect(updated.history.map(r => [r.revision, r.name])).toEqual([[2, 'Commute'], [1, 'Commute']]);
+    expect(updated.history[1].matrix).toEqual(commute);
+  });
+
+  it('restores an earlier revision as a new one', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    await updateDecision(kv, 'alice', saved.id, { name: 'Renamed', matrix: { ...commute, scores: { Bus: [9, 9], Bike: [1, 1] } } });
+
+    const restored = await restoreDecision(kv, 'alice', saved.id, 1);
+    expect(restored).toMatchObject({ name: 'Commute', matrix: commute, revision: 3 });
+    expect(restored.history[0]).toMatchObject({ revision: 2, name: 'Renamed' });
+    expect(await problemWith(restoreDecision(kv, 'alice', saved.id, 7))).toBe('not_found');
+  });
+
+  it('caps the history', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    let updated = saved;
+    for (let i = 0; i < DECISION_QUOTA.revisions + 5; i++) {
+      updated = await updateDecision(kv, 'alice', saved.id, { name: `Commute v${i + 2}` });
+    }
+    expect(updated.history).toHaveLength(DECISION_QUOTA.revisions);
+    expect(updated.history[0].revision).toBe(updated.revision - 1);
+  });
+
+  it('rejects an update with nothing in it', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    expect(await problemWith(updateDecision(kv, 'alice', saved.id, {}))).toBe('invalid');
+  });
+});
+
+// =============================================================================
+// Duplicating and Deleting
+// =============================================================================
+
+describe('duplicateDecision() and deletion', () => {
+  it('copies the current version without history', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    await updateDecision(kv, 'alice', saved.id, { name: 'Commute v2' });
+
+    const copy = await duplicateDecision(kv, 'alice', saved.id);
+    expect(copy).toMatchObject({ name: 'Commute v2 (copy)', revision: 1, history: [], matrix: commute });
+    expect(copy.id).not.toBe(saved.id);
+    expect((await duplicateDecision(kv, 'alice', saved.id, 'Plan B')).name).toBe('Plan B');
+  });
+
+  it('deletes one decision or all of a user’s', async () => {
+    const saved = await createDecision(kv, 'alice', { name: 'Commute', matrix: commute });
+    await createDecision(kv, 'alice', { name: 'Housing', matrix: commute });
+    await createDecision(kv, 'bob', { name: 'Bob’s', matrix: commute });
+
+    expect(await deleteDecision(kv, 'alice', saved.id)).toBe(true);
+    expect(await getDecision(kv, 'alice', saved.id)).toBeNull();
+    expect(await deleteAllDecisions(kv, 'alice')).toBe(1);
+    expect(await listDecisions(kv, 'alice')).toEqual([]);
+    expect(await listDecisions(kv, 'bob')).toHaveLength(1);
+  });
+});
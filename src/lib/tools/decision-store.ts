@@ -0,0 +1,356 @@
+/**
+ * Saved Decisions
+ * ---------------
+ * Per-user decision matrices stored in Cloudflare KV, with a revision history
+ * so an earlier version can be restored. Backs the /api/decisions/ routes.
+ *
+ * Key pattern (USERS namespace, alongside kv-auth's keys):
+ *   decision:{userId}:{id} → SavedDecision, with a DecisionSummary as KV metadata
+ *
+ * Earlier revisions live inside the record (newest first, at most
+ * DECISION_QUOTA.revisions), so a save is a single KV write.
+ *
+ * Usage:
+ *   import { createDecision, listDecisions, restoreDecision } from '../lib/tools/decision-store';
+ *
+ *   const saved = await createDecision(USERS, user.id, { name: 'Where to live', matrix });
+ *   const summaries = await listDecisions(USERS, user.id);
+ *   await restoreDecision(USERS, user.id, saved.id, 1);
+ */
+
+import { debug } from '../debug';
+import type { DecisionMatrixInput } from './decision-matrix';
+import { DECISION_DOCUMENT_VERSION, DecisionParseError, parseDecisionJson } from './decision-io';
+
+const MODULE = 'decision-matrix';
+
+// Types
+export interface DecisionRevision {
+  revision: number;
+  name: string;
+  matrix: DecisionMatrixInput;
+  /** When this revision was saved */
+  savedAt: string;
+}
+
+export interface SavedDecision {
+  id: string;
+  userId: string;
+  name: string;
+  matrix: DecisionMatrixInput;
+  /** Current revision number, starting at 1 */
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Earlier revisions, newest first */
+  history: DecisionRevision[];
+}
+
+/** What a listing shows; stored as KV metadata so listing needs no reads */
+export interface DecisionSummary {
+  id: string;
+  name: string;
+  revision: number;
+  updatedAt: string;
+  options: number;
+  criteria: number;
+}
+
+export interface DecisionChanges {
+  name?: unknown;
+  matrix?: unknown;
+}
+
+export type DecisionStoreProblem =
+  /** Missing or invalid name or matrix */
+  | 'invalid'
+  /** No such decision (or revision) for this user */
+  | 'not_found'
+  /** The user already has DECISION_QUOTA.decisions saved */
+  | 'quota_exceeded'
+  /** The matrix is over DECISION_QUOTA.matrixBytes */
+  | 'too_large';
+
+/**
+ * Thrown for requests the store refuses. The message is safe to return to
+ * the client; DECISION_STORE_STATUS gives the HTTP status.
+ */
+export class DecisionStoreError extends Error {
+  readonly problem: DecisionStoreProblem;
+
+  constructor(problem: DecisionStoreProblem, message: string) {
+    super(message);
+    this.name = 'DecisionStoreError';
+    this.problem = problem;
+  }
+}
+
+/** HTTP status for each store problem. */
+export const DECISION_STORE_STATUS: Record<DecisionStoreProblem, number> = {
+  invalid: 400,
+  not_found: 404,
+  quota_exceeded: 403,
+  too_large: 413,
+};
+
+/** Per-user limits. */
+export const DECISION_QUOTA = {
+  /** Saved matrices per user */
+  decisions: 50,
+  /** Earlier revisions kept per matrix */
+  revisions: 20,
+  /** Largest matrix accepted, as JSON bytes */
+  matrixBytes: 32_000,
+  /** Longest name, in characters */
+  nameLength: 100,
+} as const;
+
+/**
+ * List a user's saved decisions, most recently updated first.
+ */
+export async function listDecisions(kv: KVNamespace, userId: string): Promise<DecisionSummary[]> {
+  const { keys } = await kv.list<DecisionSummary>({ prefix: keyPrefix(userId) });
+
+  const summaries: DecisionSummary[] = [];
+  for (const key of keys) {
+    if (key.metadata) {
+      summaries.push(key.metadata);
+      continue;
+    }
+    // Metadata can lag behind a write; fall back to the record
+    const data = await kv.get(key.name);
+    if (data) summaries.push(summarize(JSON.parse(data)));
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get one saved decision with its history, or null if the user has none by that id.
+ */
+export async function getDecision(
+  kv: KVNamespace,
+  userId: string,
+  id: string
+): Promise<SavedDecision | null> {
+  if (!isDecisionId(id)) return null;
+  const data = await kv.get(decisionKey(userId, id));
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Save a new decision as revision 1.
+ *
+ * @throws DecisionStoreError for an invalid name or matrix, or when over quota
+ */
+export async function createDecision(
+  kv: KVNamespace,
+  userId: string,
+  changes: DecisionChanges
+): Promise<SavedDecision> {
+  const name = validateName(changes.name);
+  const matrix = validateMatrix(changes.matrix);
+  await checkQuota(kv, userId);
+
+  const now = new Date().toISOString();
+  const decision: SavedDecision = {
+    id: generateDecisionId(),
+    userId,
+    name,
+    matrix,
+    revision: 1,
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+
+  await write(kv, decision);
+  debug.log(MODULE, 'Saved new decision', { userId, id: decision.id });
+  return decision;
+}
+
+/**
+ * Change a decision's name and/or matrix. The current version is kept in the
+ * history and the revision number goes up.
+ *
+ * @throws DecisionStoreError if the decision doesn't exist or a change is invalid
+ */
+export async function updateDecision(
+  kv: KVNamespace,
+  userId: string,
+  id: string,
+  changes: DecisionChanges
+): Promise<SavedDecision> {
+  const decision = await requireDecision(kv, userId, id);
+  if (changes.name === undefined && changes.matrix === undefined) {
+    fail('invalid', 'Nothing to update: send a name, a matrix or both.');
+  }
+
+  const name = changes.name === undefined ? decision.name : validateName(changes.name);
+  const matrix = changes.matrix === undefined ? decision.matrix : validateMatrix(changes.matrix);
+
+  const previous: DecisionRevision = {
+    revision: decision.revision,
+    name: decision.name,
+    matrix: decision.matrix,
+    savedAt: decision.updatedAt,
+  };
+
+  const updated: SavedDecision = {
+    ...decision,
+    name,
+    matrix,
+    revision: decision.revision + 1,
+    updatedAt: new Date().toISOString(),
+    history: [previous, ...decision.history].slice(0, DECISION_QUOTA.revisions),
+  };
+
+  await write(kv, updated);
+  debug.log(MODULE, 'Updated decision', { userId, id, revision: updated.revision });
+  return updated;
+}
+
+/**
+ * Make an earlier revision current again. The restore is itself a new
+ * revision, so it can be undone the same way.
+ *
+ * @throws DecisionStoreError if the decision or revision doesn't exist
+ */
+export async function restoreDecision(
+  kv: KVNamespace,
+  userId: string,
+  id: string,
+  revision: number
+): Promise<SavedDecision> {
+  const decision = await requireDecision(kv, userId, id);
+  const earlier = decision.history.find(entry => entry.revision === revision);
+  if (!earlier) {
+    fail('not_found', `Revision ${revision} isn't in this decision's history.`);
+  }
+  return updateDecision(kv, userId, id, { name: earlier.name, matrix: earlier.matrix });
+}
+
+/**
+ * Copy a decision's current version into a new decision with no history.
+ *
+ * @param name - Name of the copy (default: "<name> (copy)")
+ * @throws DecisionStoreError if the decision doesn't exist or when over quota
+ */
+export async function duplicateDecision(
+  kv: KVNamespace,
+  userId: string,
+  id: string,
+  name?: unknown
+): Promise<SavedDecision> {
+  const decision = await requireDecision(kv, userId, id);
+  const copyName = name ?? `${decision.name} (copy)`.slice(0, DECISION_QUOTA.nameLength);
+  return createDecision(kv, userId, { name: copyName, matrix: decision.matrix });
+}
+
+/**
+ * Delete a decision and its history.
+ *
+ * @returns false if the user had no decision by that id
+ */
+export async function deleteDecision(kv: KVNamespace, userId: string, id: string): Promise<boolean> {
+  if (!(await getDecision(kv, userId, id))) return false;
+  await kv.delete(decisionKey(userId, id));
+  debug.log(MODULE, 'Deleted decision', { userId, id });
+  return true;
+}
+
+/**
+ * Delete every decision a user has saved (used when the account is deleted).
+ *
+ * @returns How many were deleted
+ */
+export async function deleteAllDecisions(kv: KVNamespace, userId: string): Promise<number> {
+  const { keys } = await kv.list({ prefix: keyPrefix(userId) });
+  for (const key of keys) {
+    await kv.delete(key.name);
+  }
+  return keys.length;
+}
+
+function keyPrefix(userId: string): string {
+  return `decision:${userId}:`;
+}
+
+function decisionKey(userId: string, id: string): string {
+  return `${keyPrefix(userId)}${id}`;
+}
+
+function generateDecisionId(): string {
+  const array = new Uint8Array(8);
+  crypto.getRandomValues(array);
+  return Array.from(array)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function isDecisionId(id: string): boolean {
+  return /^[0-9a-f]{16}$/.test(id);
+}
+
+function summarize(decision: SavedDecision): DecisionSummary {
+  return {
+    id: decision.id,
+    name: decision.name,
+    revision: decision.revision,
+    updatedAt: decision.updatedAt,
+    options: decision.matrix.options.length,
+    criteria: decision.matrix.criteria.length,
+  };
+}
+
+async function write(kv: KVNamespace, decision: SavedDecision): Promise<void> {
+  await kv.put(decisionKey(decision.userId, decision.id), JSON.stringify(decision), {
+    metadata: summarize(decision),
+  });
+}
+
+async function requireDecision(kv: KVNamespace, userId: string, id: string): Promise<SavedDecision> {
+  const decision = await getDecision(kv, userId, id);
+  if (!decision) fail('not_found', 'Decision not found.');
+  return decision;
+}
+
+async function checkQuota(kv: KVNamespace, userId: string): Promise<void> {
+  const { keys } = await kv.list({ prefix: keyPrefix(userId) });
+  if (keys.length >= DECISION_QUOTA.decisions) {
+    fail(
+      'quota_exceeded',
+      `You can save up to ${DECISION_QUOTA.decisions} decisions. Delete one to make room.`
+    );
+  }
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    fail('invalid', 'Give the decision a name.');
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > DECISION_QUOTA.nameLength) {
+    fail('invalid', `Names can be up to ${DECISION_QUOTA.nameLength} characters.`);
+  }
+  return trimmed;
+}
+
+/** Check a matrix with the same rules as imported JSON documents */
+function validateMatrix(matrix: unknown): DecisionMatrixInput {
+  const json = JSON.stringify({ version: DECISION_DOCUMENT_VERSION, matrix });
+  if (new TextEncoder().encode(json).length > DECISION_QUOTA.matrixBytes) {
+    fail('too_large', `Matrices can be up to ${DECISION_QUOTA.matrixBytes / 1000} KB.`);
+  }
+  try {
+    return parseDecisionJson(json).matrix;
+  } catch (error) {
+    if (error instanceof DecisionParseError) fail('invalid', error.message);
+    throw error;
+  }
+}
+
+function fail(problem: DecisionStoreProblem, message: string): never {
+  debug.warn(MODULE, `Decision store refused request: ${problem}`, message);
+  throw new DecisionStoreError(problem, message);
+}
@@ -0,0 +1,172 @@
+/**
+ * Emergency Fund Tests
+ * --------------------
+ * Tests for the recommended fund range, runway, savings plan and saved
+ * state.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseEmergencyFundState,
+  planEmergencyFund,
+  recommendedMonths,
+  toEmergencyFundState,
+  type EmergencyFundInput,
+} from './emergency-fund';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// The page's worked example: $2,750 a month of essentials
+const household: EmergencyFundInput = {
+  expenses: [
+    { name: 'Rent', amount: 1500 },
+    { name: 'Utilities', amount: 200 },
+    { name: 'Food', amount: 400 },
+    { name: 'Insurance', amount: 300 },
+    { name: 'Transportation', amount: 200 },
+    { name: 'Minimum debt payments', amount: 150 },
+  ],
+  incomeStability: 'salaried',
+  earners: 2,
+};
+
+// =============================================================================
+// recommendedMonths() Tests
+// =============================================================================
+
+describe('recommendedMonths()', () => {
+  it('starts from the income stability', () => {
+    expect(recommendedMonths('salaried', 2).months).toEqual([3, 6]);
+    expect(recommendedMonths('variable', 2).months).toEqual([6, 9]);
+    expect(recommendedMonths('self_employed', 2).months).toEqual([9, 12]);
+  });
+
+  it('adds for a single earner and for dependents, with a cap', () => {
+    const { months, reasons } = recommendedMonths('salaried', 1, 2);
+    expect(months).toEqual([5, 8]);
+    expect(reasons).toEqual([
+      'Salaried income: 3–6 months',
+      'One earner, no backup income: +1 month',
+      '2 dependents: +1 month',
+    ]);
+    expect(recommendedMonths('salaried', 2, 9).months).toEqual([5, 8]);
+  });
+});
+
+// =============================================================================
+// planEmergencyFund() Tests
+// =============================================================================
+
+describe('planEmergencyFund()', () => {
+  describe('Target', () => {
+    it('matches the page example', () => {
+      const result = planEmergencyFund(household);
+      expect(result.monthlyEssentials).toBe(2750);
+      expect(result.targetLow).toBe(8250);
+      expect(result.targetHigh).toBe(16500);
+    });
+
+    it('adds deductibles on top of the months of essentials', () => {
+      const result = planEmergencyFund({
+        ...household,
+        deductibles: [{ name: 'Health', amount: 2000 }, { name: 'Auto', amount: 500 }],
+      });
+      expect(result.deductibles).toBe(2500);
+      expect(result.targetLow).toBe(8250 + 2500);
+      expect(result.targetHigh).toBe(16500 + 2500);
+      expect(result.reasons).toContain('Insurance deductibles on top');
+    });
+  });
+
+  describe('Progress', () => {
+    it('reports runway, progress and shortfall', () => {
+      const result = planEmergencyFund({ ...household, currentSavings: 5500 });
+      expect(result.runwayMonths).toBe(2);
+      expect(result.progress).toBeCloseTo(5500 / 16500, 10);
+      expect(result.shortfall).toBe(11000);
+    });
+
+    it('marks milestones already reached', () => {
+      const result = planEmergencyFund({ ...household, currentSavings: 3000 });
+      expect(result.milestones.map(m => [m.label, m.amount, m.month])).toEqual([
+        ['Starter fund', 1000, 0],
+        ['One month of essentials', 2750, 0],
+        ['3 months (low end)', 8250, null],
+        ['6 months (full fund)', 16500, null],
+      ]);
+    });
+
+    it('needs no plan once the fund is full', () => {
+      const result = planEmergencyFund({ ...household, currentSavings: 20000, monthlyContribution: 200 });
+      expect(result.progress).toBe(1);
+      expect(result.shortfall).toBe(0);
+      expect(result.monthsToTarget).toBe(0);
+      expect(result.plan).toEqual([]);
+    });
+  });
+
+  describe('Plan', () => {
+    it('saves month by month until the full fund', () => {
+      const result = planEmergencyFund({ ...household, monthlyContribution: 500 });
+      expect(result.monthsToTarget).toBe(33);
+      expect(result.plan).toHaveLength(33);
+      expect(result.plan[0]).toEqual({ month: 1, contribution: 500, interest: 0, balance: 500, milestones: [] });
+      expect(result.plan[1].milestones).toEqual(['Starter fund']);
+      expect(result.milestones.map(m => m.month)).toEqual([2, 6, 17, 33]);
+      expect(result.plan.at(-1)!.balance).toBeGreaterThanOrEqual(16500);
+    });
+
+    it('earns interest on the balance', () => {
+      const result = planEmergencyFund({ ...household, currentSavings: 12000, savingsRate: 0.04, monthlyContribution: 100 });
+      expect(result.plan[0].interest).toBeCloseTo(40, 10);
+      expect(result.plan[0].balance).toBeCloseTo(12140, 10);
+    });
+
+    it('has no plan without contributions', () => {
+      const result = planEmergencyFund({ ...household, currentSavings: 1000 });
+      expect(result.monthsToTarget).toBeNull();
+      expect(result.plan).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects impossible inputs', () => {
+      expect(() => planEmergencyFund({ ...household, expenses: [] })).toThrow(/at least one essential expense/);
+      expect(() => planEmergencyFund({ ...household, expenses: [{ name: 'Rent', amount: -1 }] }))
+        .toThrow(/The expense 'Rent' needs an amount of zero or more/);
+      expect(() => planEmergencyFund({ ...household, incomeStability: 'gig' as 'salaried' }))
+        .toThrow(/Unknown income stability: gig/);
+      expect(() => planEmergencyFund({ ...household, incomeStability: 'constructor' as 'salaried' }))
+        .toThrow(/Unknown income stability: constructor/);
+      expect(() => planEmergencyFund({ ...household, earners: 0 })).toThrow(/earners must be a whole number from 1/);
+      expect(() => planEmergencyFund({ ...household, dependents: 1.5 })).toThrow(/dependents must be a whole number/);
+      expect(() => planEmergencyFund({ ...household, monthlyContribution: -50 })).toThrow(/monthlyContribution must be zero or more/);
+    });
+  });
+});
+
+// =============================================================================
+// Saved State Tests
+// =============================================================================
+
+describe('parseEmergencyFundState()', () => {
+  it('reads back saved state', () => {
+    const state = toEmergencyFundState({ ...household, currentSavings: 3000 }, new Date('2025-06-01T12:00:00Z'));
+    expect(state.savedAt).toBe('2025-06-01T12:00:00.000Z');
+    expect(parseEmergencyFundState(JSON.stringify(state))).toEqual(state);
+  });
+
+  it('ignores missing, corrupt and mismatched saves', () => {
+    const state = toEmergencyFundState(household);
+    expect(parseEmergencyFundState(null)).toBeNull();
+    expect(parseEmergencyFundState('{not json')).toBeNull();
+    expect(parseEmergencyFundState(JSON.stringify({ ...state, version: 0 }))).toBeNull();
+    expect(parseEmergencyFundState(JSON.stringify({ ...state, input: { ...household, incomeStability: 'gig' } }))).toBeNull();
+    expect(parseEmergencyFundState(JSON.stringify({ ...state, input: { ...household, incomeStability: 'toString' } }))).toBeNull();
+    expect(parseEmergencyFundState(JSON.stringify({ ...state, input: { ...household, expenses: [{ name: 'Rent' }] } }))).toBeNull();
+  });
+});
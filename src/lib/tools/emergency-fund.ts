@@ -0,0 +1,364 @@
+/**
+ * Emergency Fund
+ * --------------
+ * How big an emergency fund should be for one household, how long the
+ * current savings would last, and a month-by-month plan to get there.
+ * The recommended range starts from months of essential expenses for the
+ * household's income stability, then adds for a single earner, for
+ * dependents, and for insurance deductibles that could come due at once.
+ *
+ * Usage:
+ *   import { planEmergencyFund } from '../lib/tools/emergency-fund';
+ *
+ *   const plan = planEmergencyFund({
+ *     expenses: [
+ *       { name: 'Rent', amount: 1500 },
+ *       { name: 'Food', amount: 400 },
+ *     ],
+ *     incomeStability: 'variable',        // 'salaried', 'variable' or 'self_employed'
+ *     earners: 1,
+ *     dependents: 2,
+ *     deductibles: [{ name: 'Health', amount: 2000 }],
+ *     currentSavings: 3000,
+ *     monthlyContribution: 300,
+ *   });
+ *   plan.targetLow;                        // Low end of the recommended range
+ *   plan.targetHigh;                       // The full fund the plan saves toward
+ *   plan.runwayMonths;                     // How long current savings cover essentials
+ *   plan.milestones;                       // $1,000 starter, one month, low end, full fund
+ *   plan.plan[0];                          // { month: 1, contribution, interest, balance, milestones }
+ *
+ * The component saves a reader's inputs on their device; parseEmergencyFundState()
+ * reads a save back and ignores anything stale or malformed.
+ */
+
+import { debug } from '../debug';
+
+const MODULE = 'tools';
+
+// Types
+export type IncomeStability = 'salaried' | 'variable' | 'self_employed';
+
+export interface FundItem {
+  name: string;
+  /** Dollars: per month for expenses, per occurrence for deductibles */
+  amount: number;
+}
+
+export interface EmergencyFundInput {
+  /** Essential monthly expenses: housing, utilities, food, insurance, minimum debt payments */
+  expenses: FundItem[];
+  incomeStability: IncomeStability;
+  /** Adults bringing in income (default 1) */
+  earners?: number;
+  /** People relying on that income (default 0) */
+  dependents?: number;
+  /** Insurance deductibles that could come due in one bad month (default none) */
+  deductibles?: FundItem[];
+  /** Saved so far (default 0) */
+  currentSavings?: number;
+  /** Added to the fund each month (default 0) */
+  monthlyContribution?: number;
+  /** Savings account APY as a decimal, e.g. 0.04 (default 0) */
+  savingsRate?: number;
+}
+
+export interface FundMilestone {
+  label: string;
+  amount: number;
+  /** Month the plan reaches it: 0 if already there, null if the plan never does */
+  month: number | null;
+}
+
+export interface EmergencyFundMonth {
+  /** 1 for the first month */
+  month: number;
+  contribution: number;
+  interest: number;
+  /** Balance at the end of the month */
+  balance: number;
+  /** Milestones first reached this month */
+  milestones: string[];
+}
+
+export interface EmergencyFundResult {
+  monthlyEssentials: number;
+  /** Sum of the deductibles */
+  deductibles: number;
+  /** Months of essentials recommended, low and high */
+  recommendedMonths: [number, number];
+  /** What moved the recommendation, for display */
+  reasons: string[];
+  /** Months of essentials plus deductibles */
+  targetLow: number;
+  targetHigh: number;
+  currentSavings: number;
+  /** Months current savings would cover essentials */
+  runwayMonths: number;
+  /** Share of targetHigh saved, 0-1 */
+  progress: number;
+  /** What's left to save to reach targetHigh */
+  shortfall: number;
+  milestones: FundMilestone[];
+  /** Months to reach targetHigh: 0 if already there, null if the plan never does */
+  monthsToTarget: number | null;
+  /** Month by month until targetHigh (empty if already there or never reached) */
+  plan: EmergencyFundMonth[];
+}
+
+/** What a reader's inputs look like when saved on their device */
+export interface EmergencyFundState {
+  /** Bumped when the saved shape changes, so stale saves are ignored */
+  version: number;
+  input: EmergencyFundInput;
+  /** ISO timestamp of the last save */
+  savedAt: string;
+}
+
+/** Months of essentials recommended for each kind of income, low and high */
+export const STABILITY_MONTHS: Record<IncomeStability, [number, number]> = {
+  salaried: [3, 6],
+  variable: [6, 9],
+  self_employed: [9, 12],
+};
+
+/** Display names for each kind of income */
+export const INCOME_STABILITY_LABELS: Record<IncomeStability, string> = {
+  salaried: 'Salaried',
+  variable: 'Variable (hourly, commission, tips)',
+  self_employed: 'Self-employed',
+};
+
+/** Months added when one income carries the household */
+export const SINGLE_EARNER_MONTHS = 1;
+
+/** Months added per dependent, up to MAX_DEPENDENT_MONTHS */
+export const DEPENDENT_MONTHS = 0.5;
+export const MAX_DEPENDENT_MONTHS = 2;
+
+/** The first stage: enough for most small emergencies */
+export const STARTER_FUND = 1000;
+
+/** Longest plan, in months, before the target counts as out of reach */
+export const MAX_FUND_PLAN_MONTHS = 600;
+
+/** Current saved-state version. */
+export const EMERGENCY_FUND_STATE_VERSION = 1;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function validate(input: EmergencyFundInput): void {
+  const {
+    expenses,
+    incomeStability,
+    earners = 1,
+    dependents = 0,
+    deductibles = [],
+    currentSavings = 0,
+    monthlyContribution = 0,
+    savingsRate = 0,
+  } = input;
+
+  if (!Array.isArray(expenses) || expenses.length === 0) {
+    throw new Error('Add at least one essential expense');
+  }
+  for (const [kind, items] of [['expense', expenses], ['deductible', deductibles]] as const) {
+    for (const item of items) {
+      if (typeof item.amount !== 'number' || !Number.isFinite(item.amount) || item.amount < 0) {
+        throw new Error(`The ${kind} '${item.name}' needs an amount of zero or more, got ${item.amount}`);
+      }
+    }
+  }
+  if (!Object.hasOwn(STABILITY_MONTHS, incomeStability)) {
+    throw new Error(`Unknown income stability: ${incomeStability}`);
+  }
+  if (!Number.isInteger(earners) || earners < 1) {
+    throw new Error(`earners must be a whole number from 1, got ${earners}`);
+  }
+  if (!Number.isInteger(dependents) || dependents < 0) {
+    throw new Error(`dependents must be a whole number from 0, got ${dependents}`);
+  }
+  for (const [name, value] of [
+    ['currentSavings', currentSavings],
+    ['monthlyContribution', monthlyContribution],
+    ['savingsRate', savingsRate],
+  ] as const) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be zero or more, got ${value}`);
+    }
+  }
+}
+
+// ============================================================================
+// TARGET
+// ============================================================================
+
+/**
+ * Months of essentials to keep for a household, low and high, with the
+ * reasons behind them.
+ */
+export function recommendedMonths(
+  incomeStability: IncomeStability,
+  earners = 1,
+  dependents = 0
+): { months: [number, number]; reasons: string[] } {
+  const [low, high] = STABILITY_MONTHS[incomeStability];
+  const reasons = [`${INCOME_STABILITY_LABELS[incomeStability]} income: ${low}–${high} months`];
+  let extra = 0;
+
+  if (earners === 1) {
+    extra += SINGLE_EARNER_MONTHS;
+    reasons.push(`One earner, no backup income: +${SINGLE_EARNER_MONTHS} month`);
+  }
+  if (dependents > 0) {
+    const added = Math.min(dependents * DEPENDENT_MONTHS, MAX_DEPENDENT_MONTHS);
+    extra += added;
+    reasons.push(`${dependents} dependent${dependents === 1 ? '' : 's'}: +${added} month${added === 1 ? '' : 's'}`);
+  }
+
+  return { months: [low + extra, high + extra], reasons };
+}
+
+/**
+ * Recommended fund range, current runway, milestones and a monthly plan
+ * toward the high end of the range.
+ */
+export function planEmergencyFund(input: EmergencyFundInput): EmergencyFundResult {
+  validate(input);
+  const {
+    expenses,
+    incomeStability,
+    earners = 1,
+    dependents = 0,
+    deductibles = [],
+    currentSavings = 0,
+    monthlyContribution = 0,
+    savingsRate = 0,
+  } = input;
+
+  const monthlyEssentials = expenses.reduce((sum, item) => sum + item.amount, 0);
+  const deductibleTotal = deductibles.reduce((sum, item) => sum + item.amount, 0);
+  const { months, reasons } = recommendedMonths(incomeStability, earners, dependents);
+  if (deductibleTotal > 0) reasons.push('Insurance deductibles on top');
+
+  const targetLow = monthlyEssentials * months[0] + deductibleTotal;
+  const targetHigh = monthlyEssentials * months[1] + deductibleTotal;
+
+  // Milestones follow the page's stages; skip any the range already covers
+  const stages: Array<[string, number]> = [
+    ['Starter fund', STARTER_FUND],
+    ['One month of essentials', monthlyEssentials],
+    [`${months[0]} months (low end)`, targetLow],
+    [`${months[1]} months (full fund)`, targetHigh],
+  ];
+  const milestones: FundMilestone[] = stages
+    .filter(([, amount], i) => i >= 2 || amount < targetLow)
+    .sort(([, a], [, b]) => a - b)
+    .map(([label, amount]) => ({ label, amount, month: currentSavings >= amount ? 0 : null }));
+
+  const plan: EmergencyFundMonth[] = [];
+  let balance = currentSavings;
+  for (let month = 1; balance < targetHigh && month <= MAX_FUND_PLAN_MONTHS; month++) {
+    if (monthlyContribution === 0 && savingsRate === 0) break;
+    const interest = balance * (savingsRate / 12);
+    balance += interest + monthlyContribution;
+    const reached: string[] = [];
+    for (const milestone of milestones) {
+      if (milestone.month === null && balance >= milestone.amount) {
+        milestone.month = month;
+        reached.push(milestone.label);
+      }
+    }
+    plan.push({ month, contribution: monthlyContribution, interest, balance, milestones: reached });
+  }
+
+  const funded = balance >= targetHigh;
+  const result: EmergencyFundResult = {
+    monthlyEssentials,
+    deductibles: deductibleTotal,
+    recommendedMonths: months,
+    reasons,
+    targetLow,
+    targetHigh,
+    currentSavings,
+    runwayMonths: monthlyEssentials > 0 ? currentSavings / monthlyEssentials : Infinity,
+    progress: targetHigh > 0 ? Math.min(1, currentSavings / targetHigh) : 1,
+    shortfall: Math.max(0, targetHigh - currentSavings),
+    milestones,
+    monthsToTarget: funded ? plan.length : null,
+    plan: funded ? plan : [],
+  };
+
+  debug.log(MODULE, 'Emergency fund', {
+    monthlyEssentials,
+    months,
+    targetHigh: targetHigh.toFixed(0),
+    monthsToTarget: result.monthsToTarget,
+  });
+  return result;
+}
+
+// ============================================================================
+// SAVED STATE
+// ============================================================================
+
+function isFundItems(value: unknown): value is FundItem[] {
+  return (
+    Array.isArray(value) &&
+    value.every(item =>
+      typeof item?.name === 'string' && typeof item?.amount === 'number' && Number.isFinite(item.amount)
+    )
+  );
+}
+
+function isEmergencyFundState(data: unknown): data is EmergencyFundState {
+  if (typeof data !== 'object' || data === null) return false;
+  const state = data as Partial<EmergencyFundState>;
+  const input = state.input as Partial<EmergencyFundInput> | undefined;
+  const isOptionalNumber = (value: unknown) =>
+    value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+  return (
+    state.version === EMERGENCY_FUND_STATE_VERSION &&
+    typeof state.savedAt === 'string' &&
+    typeof input === 'object' &&
+    input !== null &&
+    isFundItems(input.expenses) &&
+    (input.deductibles === undefined || isFundItems(input.deductibles)) &&
+    typeof input.incomeStability === 'string' &&
+    Object.hasOwn(STABILITY_MONTHS, input.incomeStability) &&
+    [input.earners, input.dependents, input.currentSavings, input.monthlyContribution, input.savingsRate]
+      .every(isOptionalNumber)
+  );
+}
+
+/**
+ * Wrap a reader's inputs for saving, stamped with the current version and time.
+ */
+export function toEmergencyFundState(input: EmergencyFundInput, savedAt = new Date()): EmergencyFundState {
+  return { version: EMERGENCY_FUND_STATE_VERSION, input, savedAt: savedAt.toISOString() };
+}
+
+/**
+ * Read saved state back from JSON. Returns null for missing, unreadable,
+ * outdated or malformed saves, so callers can fall back to the defaults.
+ */
+export function parseEmergencyFundState(json: string | null): EmergencyFundState | null {
+  if (!json) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    debug.warn(MODULE, 'Ignoring unreadable saved emergency fund');
+    return null;
+  }
+
+  if (!isEmergencyFundState(data)) {
+    debug.warn(MODULE, 'Ignoring saved emergency fund with an unexpected shape');
+    return null;
+  }
+  return data;
+}
@@ -9,16 +9,229 @@ export { debug, log, DEBUG_ENABLED } from '../debug';
 
 // Decision Matrix - quantitative decision-making tool
 export {
+  ALL_METHODS,
+  MAX_SIMULATION_ITERATIONS,
   makeDecision,
   compareMethods,
+  formatMethodComparison,
+  calculateAhpWeights,
+  analyzeDominance,
+  spearmanCorrelation,
+  hasUncertainScores,
+  toPointScores,
   DecisionMatrix,
   DecisionResult,
+  type AhpResult,
   type AnalysisMethod,
+  type CriterionConstraint,
+  type CriterionDirection,
   type DecisionMatrixInput,
   type DecisionResultData,
+  type DominanceResult,
+  type EliminatedOption,
+  type ImputationStrategy,
   type MakeDecisionOptions,
+  type MethodComparison,
+  type MethodRanking,
+  type PreferenceFunction,
+  type PrometheeFlows,
+  type ScoreCell,
+  type ScoreValue,
+  type SimulationOptions,
+  type SimulationSummary,
+  type UncertainScore,
 } from './decision-matrix';
 
+// Sensitivity analysis - how fragile is the winner to weight changes?
+export {
+  analyzeSensitivity,
+  formatSensitivity,
+  type CriterionSensitivity,
+  type SensitivityOptions,
+  type SensitivityResult,
+  type TippingPoint,
+} from './decision-sensitivity';
+
+// Charts - accessible SVG charts of a result (server-side, e.g. OG images)
+export {
+  decisionChartData,
+  renderRadarChart,
+  renderContributionChart,
+  renderRankStabilityChart,
+  type ChartOptions,
+  type DecisionChartData,
+} from './decision-charts';
+
+// Counterfactuals - what would it take for another option to win?
+export {
+  explainCounterfactual,
+  type Counterfactual,
+  type CounterfactualOptions,
+  type ScoreChange,
+  type WeightChange,
+} from './decision-counterfactual';
+
+// Group decisions - combine several stakeholders' scores
+export {
+  makeGroupDecision,
+  type AggregationStrategy,
+  type CellDisagreement,
+  type DisagreementReport,
+  type GroupDecisionInput,
+  type GroupDecisionResult,
+  type StakeholderDisagreement,
+  type StakeholderInput,
+} from './decision-group';
+
+// Import/export - JSON documents, CSV and Markdown tables
+export {
+  parseDecisionMatrix,
+  parseDecisionJson,
+  parseDecisionCsv,
+  parseDecisionMarkdown,
+  detectDecisionFormat,
+  toDecisionJson,
+  toDecisionCsv,
+  toDecisionMarkdown,
+  DecisionParseError,
+  DECISION_DOCUMENT_SCHEMA,
+  DECISION_DOCUMENT_VERSION,
+  DECISION_SCHEMA_URL,
+  type DecisionDocument,
+  type DecisionFormat,
+  type ParseLocation,
+} from './decision-io';
+
+// Builder state - editable matrix behind the interactive builder component
+export {
+  builderStateFromInput,
+  builderStateToInput,
+  describeBuilderProblem,
+  parseBuilderState,
+  addBuilderOption,
+  removeBuilderOption,
+  addBuilderCriterion,
+  removeBuilderCriterion,
+  BUILDER_LIMITS,
+  BUILDER_METHODS,
+  BUILDER_STATE_VERSION,
+  type BuilderState,
+} from './decision-builder';
+
+// Permalinks - compact, checksummed URLs for sharing a matrix
+export {
+  DECISION_LINK_VERSION,
+  DECISION_LINK_PATH,
+  DECISION_LINK_PARAM,
+  DecisionLinkError,
+  encodeDecisionLink,
+  decodeDecisionLink,
+  buildDecisionPermalink,
+  type DecisionLinkProblem,
+} from './decision-link';
+
+// Saved decisions - per-user matrices in KV with revision history (server only)
+export {
+  DECISION_QUOTA,
+  DECISION_STORE_STATUS,
+  DecisionStoreError,
+  listDecisions,
+  getDecision,
+  createDecision,
+  updateDecision,
+  restoreDecision,
+  duplicateDecision,
+  deleteDecision,
+  deleteAllDecisions,
+  type SavedDecision,
+  type DecisionSummary,
+  type DecisionRevision,
+  type DecisionChanges,
+  type DecisionStoreProblem,
+} from './decision-store';
+
+// Compound growth - future value with contributions, escalation and fees
+export {
+  calculateCompoundGrowth,
+  compareStartAges,
+  effectiveAnnualRate,
+  solveContribution,
+  COMPOUNDING_PERIODS,
+  MAX_GROWTH_YEARS,
+  type CompoundGrowthInput,
+  type CompoundGrowthResult,
+  type CompoundGrowthYear,
+  type CompoundingFrequency,
+  type ContributionFrequency,
+  type ContributionTiming,
+  type StartAgeComparison,
+  type StartAgeScenario,
+} from './compound-growth';
+
+// Debt payoff - avalanche, snowball and custom-order simulations
+export {
+  simulateDebtPayoff,
+  compareDebtStrategies,
+  debtDecisionInput,
+  DEBT_STRATEGIES,
+  DEBT_STRATEGY_LABELS,
+  MAX_PAYOFF_MONTHS,
+  type Debt,
+  type DebtPayment,
+  type DebtPayoffInput,
+  type DebtPayoffMonth,
+  type DebtPayoffResult,
+  type DebtPayoffSummary,
+  type PayoffStrategy,
+} from './debt-payoff';
+
+// Amortization - fixed-rate loan schedules, extra principal, biweekly plans
+export {
+  amortize,
+  loanPayment,
+  toAmortizationCsv,
+  PAYMENT_PERIODS,
+  MAX_LOAN_YEARS,
+  type AmortizationInput,
+  type AmortizationPayment,
+  type AmortizationResult,
+  type AmortizationYear,
+  type ExtraPayment,
+  type PaymentFrequency,
+} from './amortization';
+
+// Rent vs buy - year-by-year net worth, opportunity cost and break-even
+export {
+  compareRentVsBuy,
+  MAX_RENT_VS_BUY_YEARS,
+  type RentVsBuyInput,
+  type RentVsBuyResult,
+  type RentVsBuyYear,
+} from './rent-vs-buy';
+
+// Emergency fund - target range, runway and a savings plan
+export {
+  planEmergencyFund,
+  recommendedMonths,
+  toEmergencyFundState,
+  parseEmergencyFundState,
+  STABILITY_MONTHS,
+  INCOME_STABILITY_LABELS,
+  SINGLE_EARNER_MONTHS,
+  DEPENDENT_MONTHS,
+  MAX_DEPENDENT_MONTHS,
+  STARTER_FUND,
+  MAX_FUND_PLAN_MONTHS,
+  EMERGENCY_FUND_STATE_VERSION,
+  type EmergencyFundInput,
+  type EmergencyFundMonth,
+  type EmergencyFundResult,
+  type EmergencyFundState,
+  type FundItem,
+  type FundMilestone,
+  type IncomeStability,
+} from './emergency-fund';
+
 // Logger - development logging utility (Node.js only, not for browser)
 // Usage: import { log, logSession, logFile, logError } from './logger.mjs';
 // Note: This is an ES module (.mjs) for Node.js scripts, not browser code
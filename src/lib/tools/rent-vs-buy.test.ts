@@ -0,0 +1,160 @@
+/**
+ * Rent vs Buy Tests
+ * -----------------
+ * Tests for the year-by-year rent vs buy model: mortgage, ownership costs,
+ * invested differences and the break-even year.
+ *
+ * Run: npm run test:unit
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareRentVsBuy, type RentVsBuyInput } from './rent-vs-buy';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+// The page's $400,000 example with 20% down
+const home: RentVsBuyInput = {
+  homePrice: 400000,
+  downPayment: 80000,
+  mortgageRate: 0.065,
+  monthlyRent: 2400,
+  years: 30,
+};
+
+// Every cost and rate switched off, so the arithmetic is easy to follow
+const flat: RentVsBuyInput = {
+  homePrice: 300000,
+  downPayment: 300000,
+  mortgageRate: 0,
+  propertyTaxRate: 0,
+  homeInsurance: 0,
+  maintenanceRate: 0,
+  appreciationRate: 0,
+  buyingCostRate: 0,
+  sellingCostRate: 0,
+  monthlyRent: 1000,
+  rentGrowth: 0,
+  investmentReturn: 0,
+  years: 1,
+};
+
+// =============================================================================
+// compareRentVsBuy() Tests
+// =============================================================================
+
+describe('compareRentVsBuy()', () => {
+  describe('Mortgage', () => {
+    it('uses the standard level payment', () => {
+      const result = compareRentVsBuy(home);
+      const i = 0.065 / 12;
+      expect(result.loanAmount).toBe(320000);
+      expect(result.monthlyPayment).toBeCloseTo((320000 * i) / (1 - Math.pow(1 + i, -360)), 8);
+      expect(result.monthlyPayment).toBeCloseTo(2022.62, 2);
+    });
+
+    it('pays the loan off at the end of the term', () => {
+      const result = compareRentVsBuy({ ...home, mortgageYears: 15, years: 20 });
+      expect(result.schedule[13].mortgageBalance).toBeGreaterThan(0);
+      expect(result.schedule[14].mortgageBalance).toBeCloseTo(0, 6);
+      expect(result.schedule[15].mortgageInterest).toBe(0);
+      expect(result.schedule[15].ownerCosts).toBeLessThan(result.schedule[14].ownerCosts - 11 * result.monthlyPayment);
+    });
+
+    it('splits a 0% loan evenly', () => {
+      const result = compareRentVsBuy({ ...flat, downPayment: 60000, mortgageYears: 20 });
+      expect(result.monthlyPayment).toBe(1000);
+      expect(result.schedule[0].mortgageBalance).toBeCloseTo(228000, 6);
+    });
+  });
+
+  describe('Costs and growth', () => {
+    it('has the buyer invest when owning costs less than rent', () => {
+      const result = compareRentVsBuy(flat);
+      expect(result.schedule[0]).toMatchObject({
+        ownerCosts: 0,
+        rentPaid: 12000,
+        ownerInvestments: 12000,
+        ownerNetWorth: 312000,
+        renterNetWorth: 300000,
+        advantage: 12000,
+      });
+      expect(result.breakEvenYear).toBe(1);
+    });
+
+    it('has the renter invest the upfront cost and any monthly savings', () => {
+      const result = compareRentVsBuy({ ...flat, buyingCostRate: 0.03, monthlyRent: 0, homeInsurance: 1200 });
+      expect(result.upfrontCost).toBe(309000);
+      expect(result.schedule[0].renterNetWorth).toBeCloseTo(309000 + 1200, 8);
+    });
+
+    it('compounds returns and appreciation to the annual rate', () => {
+      const result = compareRentVsBuy({
+        ...flat,
+        appreciationRate: 0.04,
+        investmentReturn: 0.07,
+        monthlyRent: 100,
+        homeInsurance: 1200,
+      });
+      // Owning costs exactly the rent, so nobody adds money
+      expect(result.schedule[0].homeValue).toBeCloseTo(312000, 6);
+      expect(result.schedule[0].renterNetWorth).toBeCloseTo(321000, 6);
+      expect(result.schedule[0].ownerInvestments).toBe(0);
+    });
+
+    it('charges tax and maintenance on the current value and raises rent yearly', () => {
+      const result = compareRentVsBuy({ ...flat, propertyTaxRate: 0.012, maintenanceRate: 0.01, monthlyHoa: 250, years: 2 });
+      expect(result.firstMonthOwnerCost).toBeCloseTo(300000 * 0.022 / 12 + 250, 8);
+      const rising = compareRentVsBuy({ ...home, rentGrowth: 0.03, years: 3 });
+      expect(rising.schedule.map(y => y.rentPaid)).toEqual([
+        28800,
+        expect.closeTo(28800 * 1.03, 6),
+        expect.closeTo(28800 * 1.03 * 1.03, 6),
+      ]);
+    });
+
+    it('takes selling costs out of the home equity', () => {
+      const result = compareRentVsBuy({ ...home, years: 1 });
+      const [year] = result.schedule;
+      expect(year.homeEquity).toBeCloseTo(year.homeValue * 0.94 - year.mortgageBalance, 6);
+      expect(year.ownerNetWorth).toBeCloseTo(year.homeEquity + year.ownerInvestments, 6);
+    });
+  });
+
+  describe('Break-even', () => {
+    it('finds the first year buying stays ahead', () => {
+      const result = compareRentVsBuy(home);
+      const year = result.breakEvenYear!;
+      expect(year).toBe(8);
+      expect(result.schedule[year - 2].advantage).toBeLessThan(0);
+      expect(result.schedule.slice(year - 1).every(y => y.advantage >= 0)).toBe(true);
+      expect(result.advantage).toBe(result.schedule[29].advantage);
+    });
+
+    it('returns null when renting is still ahead at the end', () => {
+      const result = compareRentVsBuy({ ...home, monthlyRent: 1400 });
+      expect(result.breakEvenYear).toBeNull();
+      expect(result.renterNetWorth).toBeGreaterThan(result.ownerNetWorth);
+    });
+
+    it('ignores an early lead that doesn\'t last', () => {
+      // Owning costs $1,000 a month in tax; rent starts higher but keeps falling
+      const result = compareRentVsBuy({ ...flat, propertyTaxRate: 0.04, monthlyRent: 1500, rentGrowth: -0.3, years: 4 });
+      expect(result.schedule.map(y => Math.round(y.advantage))).toEqual([6000, 6600, 3420, -2406]);
+      expect(result.breakEvenYear).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    it('rejects impossible inputs', () => {
+      expect(() => compareRentVsBuy({ ...home, homePrice: 0 })).toThrow(/homePrice must be more than 0/);
+      expect(() => compareRentVsBuy({ ...home, downPayment: 500000 })).toThrow(/between 0 and the home price/);
+      expect(() => compareRentVsBuy({ ...home, monthlyRent: -1 })).toThrow(/monthlyRent can't be negative/);
+      expect(() => compareRentVsBuy({ ...home, sellingCostRate: 6 })).toThrow(/sellingCostRate must be between 0 and 1/);
+      expect(() => compareRentVsBuy({ ...home, appreciationRate: -1 })).toThrow(/above -100%/);
+      expect(() => compareRentVsBuy({ ...home, years: 0 })).toThrow(/whole number from 1 to 50/);
+      expect(() => compareRentVsBuy({ ...home, mortgageRate: NaN })).toThrow(/mortgageRate must be a number/);
+    });
+  });
+});
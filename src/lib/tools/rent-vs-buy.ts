@@ -0,0 +1,325 @@
+/**
+ * Rent vs Buy
+ * -----------
+ * Year-by-year net worth of a buyer and a renter living in equivalent
+ * homes. The buyer pays the mortgage and ownership costs; the renter pays
+ * rent and invests what the buyer spent up front, and whichever side
+ * spends less each month invests the difference. Each year ends with what
+ * the buyer would walk away with after selling, so the years where buying
+ * is behind show the real cost of moving early.
+ *
+ * Usage:
+ *   import { compareRentVsBuy } from '../lib/tools/rent-vs-buy';
+ *
+ *   const comparison = compareRentVsBuy({
+ *     homePrice: 400000,
+ *     downPayment: 80000,
+ *     mortgageRate: 0.065,
+ *     monthlyRent: 2000,
+ *     years: 15,                    // How long you'd stay
+ *   });
+ *   comparison.monthlyPayment;      // Principal and interest
+ *   comparison.breakEvenYear;       // First year buying is ahead for good, or null
+ *   comparison.schedule[0];         // { year: 1, ownerNetWorth, renterNetWorth, advantage, ... }
+ *
+ * Annual rates are effective: a 7% return turns $100 into $107 in a year,
+ * compounded monthly to get there. Rent rises once a year, like a lease
+ * renewal. Taxes on gains and the mortgage interest deduction are left out.
+ */
+
+import { debug } from '../debug';
+import { amortize } from './amortization';
+
+const MODULE = 'tools';
+
+// Types
+export interface RentVsBuyInput {
+  homePrice: number;
+  /** Cash down, in dollars */
+  downPayment: number;
+  /** Annual mortgage rate as a decimal, e.g. 0.065 */
+  mortgageRate: number;
+  /** Mortgage term in whole years (default 30) */
+  mortgageYears?: number;
+  /** Yearly property tax as a decimal of the home's value (default 0.01) */
+  propertyTaxRate?: number;
+  /** Homeowner's insurance for the first year, in dollars (default 1500) */
+  homeInsurance?: number;
+  /** Yearly maintenance as a decimal of the home's value (default 0.01) */
+  maintenanceRate?: number;
+  /** Monthly HOA fee for the first year (default 0) */
+  monthlyHoa?: number;
+  /** Yearly change in the home's value as a decimal (default 0.03) */
+  appreciationRate?: number;
+  /** Closing costs when buying, as a decimal of the price (default 0.03) */
+  buyingCostRate?: number;
+  /** Agent fees and closing costs when selling, as a decimal of the sale price (default 0.06) */
+  sellingCostRate?: number;
+  /** Rent for an equivalent home, first year */
+  monthlyRent: number;
+  /** Yearly rent increase as a decimal (default 0.03) */
+  rentGrowth?: number;
+  /** Yearly return on invested money as a decimal (default 0.07) */
+  investmentReturn?: number;
+  /** Years to compare: how long you'd stay (default 30) */
+  years?: number;
+}
+
+export interface RentVsBuyYear {
+  /** 1 for the first year */
+  year: number;
+  /** Home value at the end of the year */
+  homeValue: number;
+  mortgageBalance: number;
+  /** What selling now would leave after selling costs and paying off the mortgage */
+  homeEquity: number;
+  /** The buyer's invested savings (months where owning cost less than rent) */
+  ownerInvestments: number;
+  /** Home equity plus investments */
+  ownerNetWorth: number;
+  /** The renter's investments: the upfront cash plus monthly savings */
+  renterNetWorth: number;
+  /** ownerNetWorth minus renterNetWorth; positive when buying is ahead */
+  advantage: number;
+  /** Mortgage, tax, insurance, maintenance and HOA paid this year */
+  ownerCosts: number;
+  /** Mortgage interest paid this year */
+  mortgageInterest: number;
+  rentPaid: number;
+}
+
+export interface RentVsBuyResult {
+  loanAmount: number;
+  /** Monthly principal and interest */
+  monthlyPayment: number;
+  /** Down payment plus buying costs: what the renter invests instead */
+  upfrontCost: number;
+  /** Everything the buyer pays in the first month */
+  firstMonthOwnerCost: number;
+  /**
+   * First year after which buying stays ahead to the end of the
+   * comparison, or null when renting is still ahead at the end
+   */
+  breakEvenYear: number | null;
+  /** Final-year figures */
+  ownerNetWorth: number;
+  renterNetWorth: number;
+  advantage: number;
+  totalOwnerCosts: number;
+  totalMortgageInterest: number;
+  totalRent: number;
+  schedule: RentVsBuyYear[];
+}
+
+/** Longest comparison accepted, in years */
+export const MAX_RENT_VS_BUY_YEARS = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Monthly growth factor that compounds to `annualRate` over a year */
+function monthlyFactor(annualRate: number): number {
+  return Math.pow(1 + annualRate, 1 / 12);
+}
+
+function validate(input: RentVsBuyInput): void {
+  const {
+    homePrice,
+    downPayment,
+    mortgageRate,
+    mortgageYears = 30,
+    propertyTaxRate = 0.01,
+    homeInsurance = 1500,
+    maintenanceRate = 0.01,
+    monthlyHoa = 0,
+    appreciationRate = 0.03,
+    buyingCostRate = 0.03,
+    sellingCostRate = 0.06,
+    monthlyRent,
+    rentGrowth = 0.03,
+    investmentReturn = 0.07,
+    years = 30,
+  } = input;
+
+  const finite: Array<[string, number]> = [
+    ['homePrice', homePrice],
+    ['downPayment', downPayment],
+    ['mortgageRate', mortgageRate],
+    ['propertyTaxRate', propertyTaxRate],
+    ['homeInsurance', homeInsurance],
+    ['maintenanceRate', maintenanceRate],
+    ['monthlyHoa', monthlyHoa],
+    ['appreciationRate', appreciationRate],
+    ['buyingCostRate', buyingCostRate],
+    ['sellingCostRate', sellingCostRate],
+    ['monthlyRent', monthlyRent],
+    ['rentGrowth', rentGrowth],
+    ['investmentReturn', investmentReturn],
+  ];
+  for (const [name, value] of finite) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`${name} must be a number, got ${value}`);
+    }
+  }
+
+  const nonNegative: Array<[string, number]> = [
+    ['mortgageRate', mortgageRate],
+    ['propertyTaxRate', propertyTaxRate],
+    ['homeInsurance', homeInsurance],
+    ['maintenanceRate', maintenanceRate],
+    ['monthlyHoa', monthlyHoa],
+    ['monthlyRent', monthlyRent],
+  ];
+  for (const [name, value] of nonNegative) {
+    if (value < 0) throw new Error(`${name} can't be negative, got ${value}`);
+  }
+
+  if (homePrice <= 0) throw new Error(`homePrice must be more than 0, got ${homePrice}`);
+  if (downPayment < 0 || downPayment > homePrice) {
+    throw new Error(`downPayment must be between 0 and the home price (${homePrice}), got ${downPayment}`);
+  }
+  for (const [name, value] of [['buyingCostRate', buyingCostRate], ['sellingCostRate', sellingCostRate]] as const) {
+    if (value < 0 || value >= 1) {
+      throw new Error(`${name} must be between 0 and 1 (e.g. 0.06 for 6%), got ${value}`);
+    }
+  }
+  for (const [name, value] of [
+    ['appreciationRate', appreciationRate],
+    ['rentGrowth', rentGrowth],
+    ['investmentReturn', investmentReturn],
+  ] as const) {
+    if (value <= -1) throw new Error(`${name} must be above -100%, got ${value}`);
+  }
+  if (!Number.isInteger(mortgageYears) || mortgageYears < 1 || mortgageYears > MAX_RENT_VS_BUY_YEARS) {
+    throw new Error(`mortgageYears must be a whole number from 1 to ${MAX_RENT_VS_BUY_YEARS}, got ${mortgageYears}`);
+  }
+  if (!Number.isInteger(years) || years < 1 || years > MAX_RENT_VS_BUY_YEARS) {
+    throw new Error(`years must be a whole number from 1 to ${MAX_RENT_VS_BUY_YEARS}, got ${years}`);
+  }
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+/**
+ * Compare buying a home with renting an equivalent one and investing the
+ * difference, year by year, and find the break-even year.
+ */
+export function compareRentVsBuy(input: RentVsBuyInput): RentVsBuyResult {
+  validate(input);
+  const {
+    homePrice,
+    downPayment,
+    mortgageRate,
+    mortgageYears = 30,
+    propertyTaxRate = 0.01,
+    homeInsurance = 1500,
+    maintenanceRate = 0.01,
+    monthlyHoa = 0,
+    appreciationRate = 0.03,
+    buyingCostRate = 0.03,
+    sellingCostRate = 0.06,
+    monthlyRent,
+    rentGrowth = 0.03,
+    investmentReturn = 0.07,
+    years = 30,
+  } = input;
+
+  const loanAmount = homePrice - downPayment;
+  const mortgage = loanAmount > 0
+    ? amortize({ principal: loanAmount, annualRate: mortgageRate, years: mortgageYears }).schedule
+    : [];
+  const monthlyPayment = mortgage[0]?.payment ?? 0;
+  const upfrontCost = downPayment + homePrice * buyingCostRate;
+  const appreciation = monthlyFactor(appreciationRate);
+  const growth = monthlyFactor(investmentReturn);
+
+  let homeValue = homePrice;
+  let balance = loanAmount;
+  let ownerInvestments = 0;
+  let renterInvestments = upfrontCost;
+  let rent = monthlyRent;
+  let firstMonthOwnerCost = 0;
+  const schedule: RentVsBuyYear[] = [];
+
+  for (let year = 1; year <= years; year++) {
+    // Insurance and HOA dues track the home's value; rent steps up at renewal
+    const valueGrowth = Math.pow(1 + appreciationRate, year - 1);
+    const insurance = (homeInsurance / 12) * valueGrowth;
+    const hoa = monthlyHoa * valueGrowth;
+    if (year > 1) rent *= 1 + rentGrowth;
+
+    let ownerCosts = 0;
+    let mortgageInterest = 0;
+    let rentPaid = 0;
+
+    for (let m = 0; m < 12; m++) {
+      const month = (year - 1) * 12 + m;
+      const row = mortgage[month];
+      const payment = row?.payment ?? 0;
+      if (row) {
+        balance = row.balance;
+        mortgageInterest += row.interest;
+      }
+
+      const ownerCost = payment + homeValue * ((propertyTaxRate + maintenanceRate) / 12) + insurance + hoa;
+      if (month === 0) firstMonthOwnerCost = ownerCost;
+      ownerCosts += ownerCost;
+      rentPaid += rent;
+
+      // Both portfolios grow, then the cheaper side invests the difference
+      ownerInvestments = ownerInvestments * growth + Math.max(0, rent - ownerCost);
+      renterInvestments = renterInvestments * growth + Math.max(0, ownerCost - rent);
+      homeValue *= appreciation;
+    }
+
+    const homeEquity = homeValue * (1 - sellingCostRate) - balance;
+    const ownerNetWorth = homeEquity + ownerInvestments;
+    schedule.push({
+      year,
+      homeValue,
+      mortgageBalance: balance,
+      homeEquity,
+      ownerInvestments,
+      ownerNetWorth,
+      renterNetWorth: renterInvestments,
+      advantage: ownerNetWorth - renterInvestments,
+      ownerCosts,
+      mortgageInterest,
+      rentPaid,
+    });
+  }
+
+  // The first year from which buying never falls behind again
+  let breakEvenYear: number | null = null;
+  for (let i = schedule.length - 1; i >= 0 && schedule[i].advantage >= 0; i--) {
+    breakEvenYear = schedule[i].year;
+  }
+
+  const last = schedule[schedule.length - 1];
+  const result: RentVsBuyResult = {
+    loanAmount,
+    monthlyPayment,
+    upfrontCost,
+    firstMonthOwnerCost,
+    breakEvenYear,
+    ownerNetWorth: last.ownerNetWorth,
+    renterNetWorth: last.renterNetWorth,
+    advantage: last.advantage,
+    totalOwnerCosts: schedule.reduce((sum, y) => sum + y.ownerCosts, 0),
+    totalMortgageInterest: schedule.reduce((sum, y) => sum + y.mortgageInterest, 0),
+    totalRent: schedule.reduce((sum, y) => sum + y.rentPaid, 0),
+    schedule,
+  };
+
+  debug.log(MODULE, 'Rent vs buy', {
+    homePrice,
+    monthlyRent,
+    years,
+    breakEvenYear,
+    advantage: result.advantage.toFixed(0),
+  });
+  return result;
+}
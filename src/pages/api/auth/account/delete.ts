@@ -10,6 +10,7 @@ import {
   parseSessionCookie,
   deleteSession,
 } from '../../../../lib/auth/kv-auth';
+import { deleteAllDecisions } from '../../../../lib/tools/decision-store';
 
 export const DELETE: APIRoute = async ({ request, locals }) => {
   try {
@@ -39,6 +40,9 @@ export const DELETE: APIRoute = async ({ request, locals }) => {
     await USERS.delete(`user:${currentUser.id}`);
     await USERS.delete(`email:${currentUser.email.toLowerCase()}`);
 
+    // Delete saved decision matrices
+    await deleteAllDecisions(USERS, currentUser.id);
+
     // Decrement user count (best effort)
     const countData = await USERS.get('count:users');
     const currentCount = countData ? parseInt(countData, 10) : 1;
@@ -6,6 +6,7 @@
  */
 import type { APIRoute } from 'astro';
 import { getCurrentUser, sanitizeUser } from '../../../../lib/auth/kv-auth';
+import { getDecision, listDecisions } from '../../../../lib/tools/decision-store';
 
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
@@ -29,8 +30,16 @@ export const GET: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    // Saved decision matrices, with their revision history
+    const decisions = [];
+    for (const summary of await listDecisions(USERS, currentUser.id)) {
+      const decision = await getDecision(USERS, currentUser.id, summary.id);
+      if (decision) decisions.push(decision);
+    }
+
     const exportPayload = {
       user: sanitizeUser(currentUser),
+      decisions,
       metadata: {
         exportedAt: new Date().toISOString(),
       },
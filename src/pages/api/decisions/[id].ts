@@ -0,0 +1,164 @@
+/**
+ * /api/decisions/[id]
+ *
+ * One of the signed-in user's saved decisions.
+ * - GET: Get the decision with its revision history
+ * - PUT: Rename and/or replace the matrix { name?, matrix? } (adds a revision)
+ * - DELETE: Delete the decision and its history
+ *
+ * Requires KV (production). Returns 503 in local fallback mode.
+ */
+import type { APIRoute } from 'astro';
+import { getCurrentUser } from '../../../lib/auth/kv-auth';
+import {
+  DECISION_STORE_STATUS,
+  DecisionStoreError,
+  deleteDecision,
+  getDecision,
+  updateDecision,
+} from '../../../lib/tools/decision-store';
+
+/**
+ * GET /api/decisions/[id]
+ * Get a saved decision with its history
+ */
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const decision = await getDecision(USERS, currentUser.id, params.id ?? '');
+    if (!decision) {
+      return new Response(
+        JSON.stringify({ error: 'Decision not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, decision }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Get decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * PUT /api/decisions/[id]
+ * Update a saved decision, keeping the previous version in its history
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const decision = await updateDecision(USERS, currentUser.id, params.id ?? '', {
+      name: body?.name,
+      matrix: body?.matrix,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, decision }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof DecisionStoreError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: DECISION_STORE_STATUS[error.problem], headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Update decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * DELETE /api/decisions/[id]
+ * Delete a saved decision
+ */
+export const DELETE: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const deleted = await deleteDecision(USERS, currentUser.id, params.id ?? '');
+    if (!deleted) {
+      return new Response(
+        JSON.stringify({ error: 'Decision not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Decision deleted' }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Delete decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * POST /api/decisions/[id]/duplicate
+ *
+ * Copies one of the signed-in user's decisions into a new one without its
+ * history. Optional body: { name } (default: "<name> (copy)").
+ * Requires KV (production). Returns 503 in local fallback mode.
+ */
+import type { APIRoute } from 'astro';
+import { getCurrentUser } from '../../../../lib/auth/kv-auth';
+import {
+  DECISION_STORE_STATUS,
+  DecisionStoreError,
+  duplicateDecision,
+} from '../../../../lib/tools/decision-store';
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const decision = await duplicateDecision(USERS, currentUser.id, params.id ?? '', body?.name);
+
+    return new Response(
+      JSON.stringify({ success: true, decision }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof DecisionStoreError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: DECISION_STORE_STATUS[error.problem], headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Duplicate decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
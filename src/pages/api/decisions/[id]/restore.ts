@@ -0,0 +1,66 @@
+/**
+ * POST /api/decisions/[id]/restore
+ *
+ * Makes an earlier revision of one of the signed-in user's decisions current
+ * again. Body: { revision }. The restore is saved as a new revision.
+ * Requires KV (production). Returns 503 in local fallback mode.
+ */
+import type { APIRoute } from 'astro';
+import { getCurrentUser } from '../../../../lib/auth/kv-auth';
+import {
+  DECISION_STORE_STATUS,
+  DecisionStoreError,
+  restoreDecision,
+} from '../../../../lib/tools/decision-store';
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const revision = Number(body?.revision);
+    if (!Number.isInteger(revision)) {
+      return new Response(
+        JSON.stringify({ error: 'Revision number required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const decision = await restoreDecision(USERS, currentUser.id, params.id ?? '', revision);
+
+    return new Response(
+      JSON.stringify({ success: true, decision }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof DecisionStoreError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: DECISION_STORE_STATUS[error.problem], headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Restore decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
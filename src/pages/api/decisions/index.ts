@@ -0,0 +1,114 @@
+/**
+ * /api/decisions/
+ *
+ * The signed-in user's saved decision matrices.
+ * - GET: List saved decisions (summaries) with quota usage
+ * - POST: Save a new decision { name, matrix }
+ *
+ * Requires KV (production). Returns 503 in local fallback mode.
+ */
+import type { APIRoute } from 'astro';
+import { getCurrentUser } from '../../../lib/auth/kv-auth';
+import {
+  DECISION_QUOTA,
+  DECISION_STORE_STATUS,
+  DecisionStoreError,
+  createDecision,
+  listDecisions,
+} from '../../../lib/tools/decision-store';
+
+/**
+ * GET /api/decisions/
+ * List the user's saved decisions, most recently updated first
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const decisions = await listDecisions(USERS, currentUser.id);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        decisions,
+        quota: { used: decisions.length, limit: DECISION_QUOTA.decisions },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('List decisions error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+/**
+ * POST /api/decisions/
+ * Save a new decision
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const USERS = (locals as Record<string, unknown>).runtime?.env?.USERS as KVNamespace | undefined;
+    const SESSIONS = (locals as Record<string, unknown>).runtime?.env?.SESSIONS as KVNamespace | undefined;
+
+    if (!USERS || !SESSIONS) {
+      return new Response(
+        JSON.stringify({ error: 'Saved decisions require production environment' }),
+        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cookieHeader = request.headers.get('cookie');
+    const currentUser = await getCurrentUser(USERS, SESSIONS, cookieHeader);
+
+    if (!currentUser) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const decision = await createDecision(USERS, currentUser.id, {
+      name: body?.name,
+      matrix: body?.matrix,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, decision }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof DecisionStoreError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: DECISION_STORE_STATUS[error.problem], headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Create decision error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
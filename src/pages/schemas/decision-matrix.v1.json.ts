@@ -0,0 +1,17 @@
+/**
+ * GET /schemas/decision-matrix.v1.json
+ *
+ * JSON Schema for version 1 decision matrix documents (see lib/tools/decision-io).
+ */
+import type { APIRoute } from 'astro';
+import { DECISION_DOCUMENT_SCHEMA } from '../../lib/tools/decision-io';
+
+export const GET: APIRoute = () => {
+  return new Response(JSON.stringify(DECISION_DOCUMENT_SCHEMA, null, 2), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/schema+json',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+};